@@ -3,10 +3,23 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { streamDefinition, generateAncillaryData, AncillaryData, generateDeepDive, DeepDiveData, AsciiArtData } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { streamDefinition, generateAncillaryData, AncillaryData, streamDeepDive, DeepDiveData, AsciiArtData, ChatTurn, getDefinitionCacheKey, isDefinitionInContext, TopicContext, generateSenses, TopicSense, generateEtymology, EtymologyData, generateComparison, ComparisonData, BridgeHop, generateQuiz } from './services/geminiService';
 import * as cache from './services/cacheService';
 import * as settingsService from './services/settingsService';
+import * as routeService from './services/routeService';
+import { collectSession, ExportFormat, renderSession } from './services/exportService';
+import { downloadFile } from './services/downloadService';
+import type { ImportedArt } from './services/artExportService';
+import {
+  applySetting, Command, CommandError, getCommandHelp, parseBridgeQuery, parseCommand, parseComparisonQuery,
+} from './services/commandService';
+import { findBridge } from './services/bridgeService';
+import * as studyService from './services/studyService';
+import type { Grade } from './services/spacedRepetition';
+import { clearCursor, isTextEntryTarget, moveCursor, navTarget } from './services/keyboardNavigation';
+import { isAbortError } from './services/abort';
+import { createSessionGraph, findNode, LinkKind, recordRelations, recordVisit, SessionGraph } from './services/sessionGraph';
 import ContentDisplay from './components/ContentDisplay';
 import SearchBar from './components/SearchBar';
 import LoadingSkeleton from './components/LoadingSkeleton';
@@ -14,7 +27,21 @@ import AsciiArtDisplay from './components/AsciiArtDisplay';
 import QRCodeModal from './components/QRCodeModal';
 import { QrCode, ChevronsDown } from 'lucide-react';
 import DeepDiveDisplay from './components/DeepDiveDisplay';
+import EtymologyDisplay from './components/EtymologyDisplay';
+import CompareDisplay from './components/CompareDisplay';
+import BridgeDisplay from './components/BridgeDisplay';
+import ReviewDisplay from './components/ReviewDisplay';
+import SensePicker from './components/SensePicker';
 import SettingsModal from './components/SettingsModal';
+import ConceptGraphDisplay from './components/ConceptGraphDisplay';
+import ChatThread from './components/ChatThread';
+import QueueIndicator from './components/QueueIndicator';
+import UsageIndicator from './components/UsageIndicator';
+import CommandLine from './components/CommandLine';
+import { PROVIDERS } from './config/models';
+import { KEYBINDINGS } from './config/keybindings';
+import { getDefinitionStyle } from './config/definitionStyles';
+import { t } from './services/i18n';
 
 // A curated list of "banger" words and phrases for the random button.
 const PREDEFINED_WORDS = [
@@ -33,6 +60,12 @@ const PREDEFINED_WORDS = [
 ];
 const UNIQUE_WORDS = [...new Set(PREDEFINED_WORDS)];
 
+// The topic shown when the URL does not name one.
+const DEFAULT_TOPIC = 'Hypertext';
+
+// How many topics one click of the review's quiz button writes questions for.
+const QUIZ_TOPICS_PER_BATCH = 5;
+
 
 /**
  * Creates a simple ASCII art bounding box as a fallback.
@@ -50,6 +83,23 @@ const createFallbackArt = (topic: string): AsciiArtData => {
   };
 };
 
+/**
+ * Leaves out questions that were never answered, such as failed or cancelled ones, so the
+ * history sent with the next question alternates between the user and the model.
+ * @param turns The turns of the thread.
+ * @returns The answered questions and their answers.
+ */
+const getAnsweredTurns = (turns: ChatTurn[]): ChatTurn[] =>
+  turns.filter((turn, index) => turn.role === 'model' || (turns[index + 1]?.role === 'model' && turns[index + 1].text !== ''));
+
+/**
+ * Describes a rate-limited request that will be retried.
+ * @param delay The wait before the retry, in milliseconds.
+ * @returns The message shown in place of the error.
+ */
+const getRetryMessage = (delay: number): string =>
+  t('rateLimitRetrying', { seconds: Math.round(delay / 1000) });
+
 interface UploadedFile {
   name: string;
   data: string;
@@ -57,7 +107,7 @@ interface UploadedFile {
 }
 
 const App: React.FC = () => {
-  const [currentTopic, setCurrentTopic] = useState<string>('Hypertext');
+  const [currentTopic, setCurrentTopic] = useState<string>(() => routeService.getCurrentRoute()?.topic ?? DEFAULT_TOPIC);
   const [content, setContent] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -65,8 +115,21 @@ const App: React.FC = () => {
   const [generationTime, setGenerationTime] = useState<number | null>(null);
   const [isQrModalOpen, setIsQrModalOpen] = useState<boolean>(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isCommandLineOpen, setIsCommandLineOpen] = useState<boolean>(false);
+  // A command the command line runs as soon as it opens, such as "help" for the ? key.
+  const [initialCommand, setInitialCommand] = useState<string | null>(null);
   const [file, setFile] = useState<UploadedFile | null>(null);
   const [isApiConfigured, setIsApiConfigured] = useState<boolean>(true);
+  // Where the current topic was reached from, or the sense picked for it; empty after a plain search.
+  const [topicContext, setTopicContext] = useState<TopicContext>(() => routeService.getCurrentContext());
+  // A search waiting for its sense to be picked; `senses` is null while the term is checked.
+  const [senseChoice, setSenseChoice] = useState<{ topic: string; senses: TopicSense[] | null } | null>(null);
+  // The conversation about the uploaded file; reset whenever the file changes.
+  const [chatTurns, setChatTurns] = useState<ChatTurn[]>([]);
+  const [providerId, setProviderId] = useState<string>(() => settingsService.getActiveProviderId());
+  const [languageCode, setLanguageCode] = useState<string>(() => settingsService.getOutputLanguage().code);
+  const [definitionStyleId, setDefinitionStyleId] = useState<string>(() => settingsService.getActiveDefinitionStyle().id);
+  const [definitionLengthId, setDefinitionLengthId] = useState<string>(() => settingsService.getActiveDefinitionLength().id);
 
   const [relatedConcepts, setRelatedConcepts] = useState<string[]>([]);
   const [isAncillaryLoading, setIsAncillaryLoading] = useState<boolean>(false);
@@ -76,10 +139,53 @@ const App: React.FC = () => {
   const [isDeepDiveLoading, setIsDeepDiveLoading] = useState<boolean>(false);
   const [deepDiveError, setDeepDiveError] = useState<string | null>(null);
 
+  const [etymology, setEtymology] = useState<EtymologyData | null>(null);
+  const [isEtymologyLoading, setIsEtymologyLoading] = useState<boolean>(false);
+  const [etymologyError, setEtymologyError] = useState<string | null>(null);
+
+  // The two topics of compare mode, which like file mode leaves the URL untouched; null when exploring.
+  const [comparedTopics, setComparedTopics] = useState<[string, string] | null>(null);
+  const [comparisonDefinitions, setComparisonDefinitions] = useState<[string, string]>(['', '']);
+  const [isComparisonDefinitionLoading, setIsComparisonDefinitionLoading] = useState<[boolean, boolean]>([false, false]);
+  const [comparison, setComparison] = useState<ComparisonData | null>(null);
+  const [isComparisonLoading, setIsComparisonLoading] = useState<boolean>(false);
+  const [comparisonError, setComparisonError] = useState<string | null>(null);
+
+  // The start and target of bridge mode, which also leaves the URL untouched; null when exploring.
+  const [bridgeTopics, setBridgeTopics] = useState<[string, string] | null>(null);
+  const [bridgeHops, setBridgeHops] = useState<BridgeHop[]>([]);
+  const [isBridgeLoading, setIsBridgeLoading] = useState<boolean>(false);
+  const [bridgeError, setBridgeError] = useState<string | null>(null);
+
+  // Review mode shows the flashcards made from explored topics; the deck outlives the session.
+  const [isReviewOpen, setIsReviewOpen] = useState<boolean>(false);
+  const [studyCards, setStudyCards] = useState<studyService.StudyCard[]>(() => studyService.getStudyCards());
+  const [isQuizLoading, setIsQuizLoading] = useState<boolean>(false);
+  const [quizError, setQuizError] = useState<string | null>(null);
+  // Set when a deep link asks for the deep dive; it is started once the definition has loaded.
+  const [isDeepDiveRequested, setIsDeepDiveRequested] = useState<boolean>(() => !!routeService.getCurrentRoute()?.isDeepDive);
+  // The topic whose definition is fully loaded, or null while one is loading.
+  const loadedTopicRef = useRef<string | null>(null);
+  // Controllers for the requests in flight, so they can be cancelled by navigation or the [ABORT] control.
+  const topicAbortRef = useRef<AbortController | null>(null);
+  const deepDiveAbortRef = useRef<AbortController | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const etymologyAbortRef = useRef<AbortController | null>(null);
+  const comparisonAbortRef = useRef<AbortController | null>(null);
+  const bridgeAbortRef = useRef<AbortController | null>(null);
+  const quizAbortRef = useRef<AbortController | null>(null);
+  const senseAbortRef = useRef<AbortController | null>(null);
+
+  const [sessionGraph, setSessionGraph] = useState<SessionGraph>(() => recordVisit(createSessionGraph(), currentTopic));
+
   const checkApiKey = useCallback(() => {
-    const key = settingsService.getApiKey();
-    setIsApiConfigured(!!key);
-    if (!key) {
+    const isConfigured = settingsService.isProviderConfigured();
+    setIsApiConfigured(isConfigured);
+    setProviderId(settingsService.getActiveProviderId());
+    setLanguageCode(settingsService.getOutputLanguage().code);
+    setDefinitionStyleId(settingsService.getActiveDefinitionStyle().id);
+    setDefinitionLengthId(settingsService.getActiveDefinitionLength().id);
+    if (!isConfigured) {
       setIsLoading(false); // Stop loading if no key is found
     }
   }, []);
@@ -88,13 +194,99 @@ const App: React.FC = () => {
     checkApiKey();
   }, [checkApiKey]);
 
+  // Lets the browser pick fonts, hyphenation and text direction for the output language.
+  useEffect(() => {
+    const language = settingsService.getOutputLanguage();
+    document.documentElement.lang = language.code;
+    document.documentElement.dir = language.isRtl ? 'rtl' : 'ltr';
+  }, [languageCode]);
+
+  // Keep the URL in sync on first load, and follow browser back/forward through the exploration chain.
+  useEffect(() => {
+    routeService.pushRoute({ topic: currentTopic, isDeepDive: isDeepDiveRequested }, true, topicContext);
+
+    const handlePopState = () => {
+      const route = routeService.getCurrentRoute();
+      if (!route) return;
+      setFile(null);
+      setChatTurns([]);
+      setComparedTopics(null);
+      setBridgeTopics(null);
+      setIsReviewOpen(false);
+      senseAbortRef.current?.abort();
+      setSenseChoice(null);
+      setSessionGraph(graph => recordVisit(graph, route.topic));
+      setTopicContext(routeService.getCurrentContext());
+      setCurrentTopic(route.topic);
+      setIsDeepDiveRequested(route.isDeepDive);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Closes the sense picker, cancelling the check of a search that is still running.
+  const closeSensePicker = useCallback(() => {
+    senseAbortRef.current?.abort();
+    setSenseChoice(null);
+  }, []);
+
+  /**
+   * Moves exploration to a new topic and records it in the browser history and session graph.
+   * `link` describes the clicked link that led here; jumps such as searches omit it.
+   * `sense` is the sense picked for an ambiguous search.
+   */
+  const navigateToTopic = useCallback((topic: string, link?: { from: string; kind: LinkKind; sentence?: string }, sense?: TopicSense) => {
+    closeSensePicker();
+    const context: TopicContext = link ? { parentTopic: link.from, sentence: link.sentence } : sense ? { sense } : {};
+    routeService.pushRoute({ topic, isDeepDive: false }, false, context);
+    setSessionGraph(graph => recordVisit(graph, topic, link, sense));
+    setTopicContext(context);
+    setIsDeepDiveRequested(false);
+    setCurrentTopic(topic);
+  }, [closeSensePicker]);
+
+  /**
+   * Opens a searched topic, first asking which sense is meant if the term is ambiguous.
+   * If the check fails, the topic opens in its general sense.
+   */
+  const searchTopic = useCallback(async (topic: string) => {
+    senseAbortRef.current?.abort();
+    const controller = new AbortController();
+    senseAbortRef.current = controller;
+    setSenseChoice({ topic, senses: null });
+    let senses: TopicSense[] = [];
+    try {
+      senses = (await generateSenses(topic, undefined, controller.signal)).senses;
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.warn(`Could not check whether "${topic}" is ambiguous:`, e);
+      }
+    }
+    if (senseAbortRef.current !== controller) return; // Another search has started.
+    senseAbortRef.current = null;
+    if (controller.signal.aborted) {
+      setSenseChoice(null);
+    } else if (senses.length > 1) {
+      setSenseChoice({ topic, senses });
+    } else {
+      navigateToTopic(topic);
+    }
+  }, [navigateToTopic]);
+
   // This effect runs ONLY when in "Topic Exploration" mode (no file uploaded).
   useEffect(() => {
     if (file || !currentTopic || !isApiConfigured) return;
 
+    // Set when this effect is superseded; an [ABORT] only aborts the signal and still settles the UI.
     let isCancelled = false;
+    const controller = new AbortController();
+    topicAbortRef.current = controller;
+    const { signal } = controller;
 
     const fetchTopicData = async () => {
+      loadedTopicRef.current = null;
+      deepDiveAbortRef.current?.abort(); // A deep dive of the previous topic is no longer wanted.
+      etymologyAbortRef.current?.abort();
       // Set initial state for a clean page load
       setIsLoading(true);
       setError(null);
@@ -105,15 +297,18 @@ const App: React.FC = () => {
       setDeepDiveContent(null);
       setDeepDiveError(null);
       setIsDeepDiveLoading(false);
+      setEtymology(null);
+      setEtymologyError(null);
+      setIsEtymologyLoading(false);
       setIsAncillaryLoading(true);
       setAncillaryError(null);
 
       const startTime = performance.now();
       
       // Step 1: Get main definition (cache or stream)
-      const modelId = settingsService.getActiveModelId();
-      const definitionCacheKey = `definition_${modelId}_${currentTopic.toLowerCase()}`;
+      const definitionCacheKey = getDefinitionCacheKey(currentTopic, topicContext);
       const cachedDefinition = cache.get<string>(definitionCacheKey);
+      let definition = cachedDefinition ?? '';
       let definitionError: string | null = null;
       
       if (cachedDefinition) {
@@ -121,14 +316,15 @@ const App: React.FC = () => {
       } else {
           try {
               let accumulatedContent = '';
-              for await (const chunk of streamDefinition(currentTopic)) {
+              for await (const chunk of streamDefinition(currentTopic, undefined, undefined, signal, topicContext)) {
                   if (isCancelled) return;
                   if (chunk.startsWith('[SYSTEM:RETRY]')) {
+                    // The retry starts the stream over.
+                    accumulatedContent = '';
+                    setContent('');
                     setError(chunk.replace('[SYSTEM:RETRY]', ''));
                   } else {
-                    if (error && error.startsWith('Rate limit')) {
-                      setError(null);
-                    }
+                    setError(null);
                     accumulatedContent += chunk;
                     setContent(accumulatedContent);
                   }
@@ -136,9 +332,18 @@ const App: React.FC = () => {
               if (accumulatedContent) {
                 cache.set(definitionCacheKey, accumulatedContent);
               }
+              definition = accumulatedContent;
           } catch (e: unknown) {
+              if (isAbortError(e)) {
+                  if (!isCancelled) {
+                    setError(null);
+                    setIsLoading(false);
+                    setIsAncillaryLoading(false);
+                  }
+                  return;
+              }
               if (!isCancelled) {
-                  const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred';
+                  const errorMessage = e instanceof Error ? e.message : t('unknownError');
                   definitionError = errorMessage;
                   setError(errorMessage);
                   console.error(e);
@@ -149,6 +354,7 @@ const App: React.FC = () => {
       if (isCancelled) return;
 
       // Stop loading for main content, regardless of cache/stream
+      loadedTopicRef.current = currentTopic;
       setIsLoading(false);
       
       // If main definition failed, stop everything
@@ -157,6 +363,11 @@ const App: React.FC = () => {
           return;
       }
 
+      // Every explored topic joins the study deck.
+      if (definition && studyService.addTopicCards(currentTopic, definition) > 0) {
+        setStudyCards(studyService.getStudyCards());
+      }
+
       setGenerationTime(performance.now() - startTime);
 
       // Step 2: Fetch Ancillary Data (Art and Concepts) - this has its own cache
@@ -164,18 +375,24 @@ const App: React.FC = () => {
         setAncillaryError(null);
         const onAncillaryRetry = (attempt: number, delay: number) => {
           if (!isCancelled) {
-            setAncillaryError(`Rate limit reached. Retrying in ${delay / 1000}s...`);
+            setAncillaryError(getRetryMessage(delay));
           }
         };
-        const data = await generateAncillaryData(currentTopic, onAncillaryRetry);
+        const data = await generateAncillaryData(currentTopic, onAncillaryRetry, signal, topicContext.sense);
         if (!isCancelled) {
           setAncillaryError(null); // Clear retry message on success
           setAsciiArt(data.artData);
           setRelatedConcepts(data.concepts);
+          setSessionGraph(graph => recordRelations(graph, currentTopic, data.concepts));
         }
       } catch (err) {
-        if (!isCancelled) {
-          const errorMessage = err instanceof Error ? err.message : 'Could not load art and concepts.';
+        if (isAbortError(err)) {
+          if (!isCancelled) {
+            setAncillaryError(null);
+            setAsciiArt(createFallbackArt(currentTopic));
+          }
+        } else if (!isCancelled) {
+          const errorMessage = err instanceof Error ? err.message : t('artLoadFailed');
           setAncillaryError(errorMessage);
           console.error("Failed to generate ancillary data:", err);
           setAsciiArt(createFallbackArt(currentTopic)); // Show fallback on error
@@ -189,81 +406,488 @@ const App: React.FC = () => {
     
     return () => {
       isCancelled = true;
+      controller.abort();
+    };
+  }, [currentTopic, topicContext, file, isApiConfigured, languageCode, definitionStyleId, definitionLengthId]);
+
+  // Compare mode: both definitions stream side by side while the comparison is generated.
+  useEffect(() => {
+    if (!comparedTopics || !isApiConfigured) return;
+
+    let isCancelled = false;
+    const controller = new AbortController();
+    comparisonAbortRef.current = controller;
+    const { signal } = controller;
+
+    const updateColumn = <T,>(values: [T, T], index: number, value: T): [T, T] =>
+      index === 0 ? [value, values[1]] : [values[0], value];
+
+    // Definitions are shared with topic mode, so a compared topic opens instantly afterwards.
+    const fetchDefinition = async (topic: string, index: number) => {
+      const definitionCacheKey = getDefinitionCacheKey(topic);
+      const cachedDefinition = cache.get<string>(definitionCacheKey);
+      if (cachedDefinition) {
+        setComparisonDefinitions(definitions => updateColumn(definitions, index, cachedDefinition));
+        return;
+      }
+      setIsComparisonDefinitionLoading(loading => updateColumn(loading, index, true));
+      let accumulatedContent = '';
+      try {
+        for await (const chunk of streamDefinition(topic, undefined, undefined, signal)) {
+          if (isCancelled) return;
+          if (chunk.startsWith('[SYSTEM:RETRY]')) {
+            // The retry starts the stream over.
+            accumulatedContent = '';
+          } else {
+            accumulatedContent += chunk;
+          }
+          setComparisonDefinitions(definitions => updateColumn(definitions, index, accumulatedContent));
+        }
+        if (accumulatedContent) {
+          cache.set(definitionCacheKey, accumulatedContent);
+        }
+      } catch (e) {
+        // The column shows what arrived, or that the content is unavailable.
+        if (!isAbortError(e)) {
+          console.error(`Failed to define "${topic}" for the comparison:`, e);
+        }
+      } finally {
+        if (!isCancelled) setIsComparisonDefinitionLoading(loading => updateColumn(loading, index, false));
+      }
+    };
+
+    const fetchComparison = async () => {
+      setIsComparisonLoading(true);
+      try {
+        const onComparisonRetry = (attempt: number, delay: number) => {
+          if (!isCancelled) {
+            setComparisonError(getRetryMessage(delay));
+          }
+        };
+        const data = await generateComparison(comparedTopics[0], comparedTopics[1], onComparisonRetry, signal);
+        if (!isCancelled) {
+          setComparisonError(null);
+          setComparison(data);
+        }
+      } catch (e) {
+        if (isCancelled) return;
+        if (isAbortError(e)) {
+          setComparisonError(null);
+        } else {
+          setComparisonError(e instanceof Error ? e.message : t('unknownError'));
+          console.error(e);
+        }
+      } finally {
+        if (!isCancelled) setIsComparisonLoading(false);
+      }
+    };
+
+    setComparisonDefinitions(['', '']);
+    setIsComparisonDefinitionLoading([false, false]);
+    setComparison(null);
+    setComparisonError(null);
+    fetchDefinition(comparedTopics[0], 0);
+    fetchDefinition(comparedTopics[1], 1);
+    fetchComparison();
+
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
+  }, [comparedTopics, isApiConfigured, languageCode, definitionStyleId, definitionLengthId]);
+
+  // Bridge mode: hops are shown as they are found.
+  useEffect(() => {
+    if (!bridgeTopics || !isApiConfigured) return;
+
+    let isCancelled = false;
+    const controller = new AbortController();
+    bridgeAbortRef.current = controller;
+    const { signal } = controller;
+
+    const fetchBridge = async () => {
+      setBridgeHops([]);
+      setBridgeError(null);
+      setIsBridgeLoading(true);
+      try {
+        const onBridgeRetry = (attempt: number, delay: number) => {
+          if (!isCancelled) {
+            setBridgeError(getRetryMessage(delay));
+          }
+        };
+        for await (const progress of findBridge(bridgeTopics[0], bridgeTopics[1], onBridgeRetry, signal)) {
+          if (isCancelled) return;
+          setBridgeError(null);
+          setBridgeHops(progress.hops);
+        }
+      } catch (e) {
+        if (isCancelled) return;
+        if (isAbortError(e)) {
+          setBridgeError(null);
+        } else {
+          setBridgeError(e instanceof Error ? e.message : t('unknownError'));
+          console.error(e);
+        }
+      } finally {
+        if (!isCancelled) setIsBridgeLoading(false);
+      }
     };
-  }, [currentTopic, file, isApiConfigured]);
+
+    fetchBridge();
+
+    return () => {
+      isCancelled = true;
+      controller.abort();
+    };
+  }, [bridgeTopics, isApiConfigured, languageCode]);
 
   const handleDeepDive = useCallback(async () => {
+    routeService.pushRoute({ topic: currentTopic, isDeepDive: true }, true, topicContext);
+    deepDiveAbortRef.current?.abort();
+    const controller = new AbortController();
+    deepDiveAbortRef.current = controller;
     setIsDeepDiveLoading(true);
     setDeepDiveError(null);
     try {
       const onDeepDiveRetry = (attempt: number, delay: number) => {
-        setDeepDiveError(`Rate limit reached. Retrying in ${delay / 1000}s...`);
+        setDeepDiveContent(null); // The retry starts the stream over.
+        setDeepDiveError(getRetryMessage(delay));
       };
-      const result = await generateDeepDive(currentTopic, onDeepDiveRetry);
-      setDeepDiveError(null);
-      setDeepDiveContent(result);
+      for await (const progress of streamDeepDive(currentTopic, onDeepDiveRetry, controller.signal, topicContext.sense)) {
+        setDeepDiveError(null);
+        setDeepDiveContent(progress.data);
+        if (progress.isComplete) {
+          const keywords = [...progress.data.summary.matchAll(/\[\[(.*?)\]\]/g)].map(match => match[1]);
+          setSessionGraph(graph => recordRelations(graph, currentTopic, keywords));
+        }
+      }
     } catch(e) {
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred during deep dive.';
-      setDeepDiveError(errorMessage);
-      console.error(e);
+      // An aborted deep dive is discarded so it can be started again.
+      setDeepDiveContent(null);
+      if (isAbortError(e)) {
+        setDeepDiveError(null);
+      } else {
+        const errorMessage = e instanceof Error ? e.message : t('unknownError');
+        setDeepDiveError(errorMessage);
+        console.error(e);
+      }
     } finally {
-      setIsDeepDiveLoading(false);
+      if (deepDiveAbortRef.current === controller) {
+        deepDiveAbortRef.current = null;
+        setIsDeepDiveLoading(false);
+      }
     }
-  }, [currentTopic]);
+  }, [currentTopic, topicContext]);
 
-  const handleWordClick = useCallback((word: string) => {
+  // Restore the deep dive of a deep link once the definition is on screen.
+  useEffect(() => {
+    if (!isDeepDiveRequested || file || isLoading || error || loadedTopicRef.current !== currentTopic) return;
+    setIsDeepDiveRequested(false);
+    if (!deepDiveContent && !isDeepDiveLoading) {
+      handleDeepDive();
+    }
+  }, [isDeepDiveRequested, currentTopic, file, isLoading, error, deepDiveContent, isDeepDiveLoading, handleDeepDive]);
+
+  // `sentence` is where the word was clicked in running text, so it can be defined in that sense.
+  const handleWordClick = useCallback((word: string, kind: LinkKind = 'word', sentence?: string) => {
     if (isLoading || file || !isApiConfigured) return;
     const newTopic = word.trim();
     if (newTopic && newTopic.toLowerCase() !== currentTopic.toLowerCase()) {
-      setCurrentTopic(newTopic);
+      navigateToTopic(newTopic, { from: currentTopic, kind, sentence });
     }
-  }, [currentTopic, isLoading, file, isApiConfigured]);
+  }, [currentTopic, isLoading, file, isApiConfigured, navigateToTopic]);
 
-  const handleSearch = useCallback(async (query: string) => {
-    if (isLoading || !isApiConfigured) return;
-    const trimmedQuery = query.trim();
-    if (!trimmedQuery) return;
+  const handleDefinitionWordClick = useCallback((word: string, sentence: string) => {
+    handleWordClick(word, 'word', sentence);
+  }, [handleWordClick]);
 
-    if (file) {
-      // File Q&A mode
-      setIsLoading(true);
-      setError(null);
-      setContent('');
-      setGenerationTime(null);
-      
-      const startTime = performance.now();
-      let accumulatedContent = '';
-      try {
-        for await (const chunk of streamDefinition(trimmedQuery, file)) {
-          if (chunk.startsWith('[SYSTEM:RETRY]')) {
-            setError(chunk.replace('[SYSTEM:RETRY]', ''));
-          } else {
-             if (error && error.startsWith('Rate limit')) {
-                setError(null);
-             }
-            accumulatedContent += chunk;
-            setContent(accumulatedContent);
-          }
+  // Drops the parent topic, so the current topic is defined in its general sense.
+  const handleGeneralSense = useCallback(() => {
+    if (isLoading) return;
+    const route = routeService.getCurrentRoute();
+    if (route) routeService.pushRoute(route, true);
+    setTopicContext({});
+  }, [isLoading]);
+
+  const handleMorphemeClick = useCallback((morpheme: string) => {
+    handleWordClick(morpheme, 'morpheme');
+  }, [handleWordClick]);
+
+  // Fetched only when the etymology section is opened; cached like the other content.
+  const handleEtymologyRequest = useCallback(async () => {
+    etymologyAbortRef.current?.abort();
+    const controller = new AbortController();
+    etymologyAbortRef.current = controller;
+    setIsEtymologyLoading(true);
+    setEtymologyError(null);
+    try {
+      const onEtymologyRetry = (attempt: number, delay: number) => {
+        setEtymologyError(getRetryMessage(delay));
+      };
+      setEtymology(await generateEtymology(currentTopic, onEtymologyRetry, controller.signal));
+      setEtymologyError(null);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setEtymologyError(e instanceof Error ? e.message : t('unknownError'));
+        console.error(e);
+      }
+    } finally {
+      if (etymologyAbortRef.current === controller) {
+        etymologyAbortRef.current = null;
+        setIsEtymologyLoading(false);
+      }
+    }
+  }, [currentTopic]);
+
+  /**
+   * Enters compare mode. Both topics join the session graph as jumps.
+   */
+  const startComparison = useCallback((topicA: string, topicB: string) => {
+    setSessionGraph(graph => recordVisit(recordVisit(graph, topicA), topicB));
+    closeSensePicker();
+    setBridgeTopics(null);
+    setIsReviewOpen(false);
+    setComparedTopics([topicA, topicB]);
+  }, [closeSensePicker]);
+
+  const startBridge = useCallback((start: string, target: string) => {
+    closeSensePicker();
+    setComparedTopics(null);
+    setIsReviewOpen(false);
+    setBridgeTopics([start, target]);
+  }, [closeSensePicker]);
+
+  const handleReviewOpen = useCallback(() => {
+    closeSensePicker();
+    setComparedTopics(null);
+    setBridgeTopics(null);
+    setStudyCards(studyService.getStudyCards());
+    setIsReviewOpen(true);
+  }, [closeSensePicker]);
+
+  const handleSenseChoose = useCallback((sense: TopicSense | null) => {
+    if (!senseChoice) return;
+    navigateToTopic(senseChoice.topic, undefined, sense ?? undefined);
+  }, [senseChoice, navigateToTopic]);
+
+  const handleReviewExit = useCallback(() => {
+    quizAbortRef.current?.abort();
+    setIsReviewOpen(false);
+  }, []);
+
+  const handleReviewTopicClick = useCallback((topic: string) => {
+    handleReviewExit();
+    if (topic.toLowerCase() !== currentTopic.toLowerCase()) {
+      navigateToTopic(topic);
+    }
+  }, [currentTopic, handleReviewExit, navigateToTopic]);
+
+  const handleGradeCard = useCallback((id: string, grade: Grade) => {
+    studyService.gradeStudyCard(id, grade);
+    setStudyCards(studyService.getStudyCards());
+  }, []);
+
+  // Writes multiple-choice cards for the topics that have none, a few topics per click.
+  const handleGenerateQuiz = useCallback(async () => {
+    quizAbortRef.current?.abort();
+    const controller = new AbortController();
+    quizAbortRef.current = controller;
+    setIsQuizLoading(true);
+    setQuizError(null);
+    try {
+      const onQuizRetry = (attempt: number, delay: number) => {
+        setQuizError(getRetryMessage(delay));
+      };
+      for (const { topic, definition } of studyService.getTopicsWithoutQuiz().slice(0, QUIZ_TOPICS_PER_BATCH)) {
+        const quiz = await generateQuiz(topic, definition, onQuizRetry, controller.signal);
+        studyService.addQuizCards(topic, quiz.questions);
+        setQuizError(null);
+        setStudyCards(studyService.getStudyCards());
+      }
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setQuizError(e instanceof Error ? e.message : t('unknownError'));
+        console.error(e);
+      }
+    } finally {
+      if (quizAbortRef.current === controller) {
+        quizAbortRef.current = null;
+        setIsQuizLoading(false);
+      }
+    }
+  }, []);
+
+  const handleAnkiExport = useCallback(() => {
+    downloadFile('lexicon-nexus-flashcards.tsv', studyService.exportAnkiTsv(studyService.getStudyCards()), 'text/tab-separated-values');
+  }, []);
+
+  const handleBridgeExit = useCallback(() => {
+    bridgeAbortRef.current?.abort();
+    setBridgeTopics(null);
+  }, []);
+
+  // Any topic on the bridge can be explored; it is a jump, since the bridge was never browsed.
+  const handleBridgeTopicClick = useCallback((topic: string) => {
+    handleBridgeExit();
+    if (topic.toLowerCase() !== currentTopic.toLowerCase()) {
+      navigateToTopic(topic);
+    }
+  }, [currentTopic, handleBridgeExit, navigateToTopic]);
+
+  const handleCompareExit = useCallback(() => {
+    comparisonAbortRef.current?.abort();
+    setComparedTopics(null);
+  }, []);
+
+  // A term in either column leaves compare mode for normal exploration, linked from its column's topic.
+  const handleCompareWordClick = useCallback((word: string, from: string, sentence?: string) => {
+    const newTopic = word.trim();
+    if (!newTopic) return;
+    handleCompareExit();
+    if (newTopic.toLowerCase() === from.toLowerCase()) {
+      if (newTopic.toLowerCase() !== currentTopic.toLowerCase()) {
+        navigateToTopic(newTopic);
+      }
+    } else {
+      navigateToTopic(newTopic, { from, kind: 'word', sentence });
+    }
+  }, [currentTopic, handleCompareExit, navigateToTopic]);
+
+  const handleKeywordClick = useCallback((keyword: string, sentence: string) => {
+    handleWordClick(keyword, 'keyword', sentence);
+  }, [handleWordClick]);
+
+  const handleHotspotClick = useCallback((concept: string) => {
+    handleWordClick(concept, 'hotspot');
+  }, [handleWordClick]);
+
+  // Re-entering a topic from the graph restores the link or sense it was first opened with,
+  // so the cached definition in that context is reused; the link's edge already exists.
+  const handleGraphNodeClick = useCallback((topic: string) => {
+    if (isLoading || file || !isApiConfigured) return;
+    if (topic.toLowerCase() === currentTopic.toLowerCase()) return;
+    const node = findNode(sessionGraph, topic);
+    const parent = node?.parentId ? sessionGraph.nodes.find(candidate => candidate.id === node.parentId) : undefined;
+    const edge = parent && sessionGraph.edges.find(candidate => candidate.from === parent.id && candidate.to === node.id);
+    navigateToTopic(
+      topic,
+      parent && edge ? { from: parent.label, kind: edge.kind, sentence: node.sentence } : undefined,
+      node?.sense
+    );
+  }, [currentTopic, isLoading, file, isApiConfigured, navigateToTopic, sessionGraph]);
+
+  /**
+   * Streams an answer about the uploaded file into the thread, sending the earlier turns as history.
+   * On failure the question stays in the thread so it can be regenerated, but it is not sent
+   * as history with later questions.
+   */
+  const streamFileAnswer = useCallback(async (question: string, history: ChatTurn[]) => {
+    if (!file) return;
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    setGenerationTime(null);
+
+    const questionTurn: ChatTurn = { role: 'user', text: question };
+    setChatTurns([...history, questionTurn, { role: 'model', text: '' }]);
+
+    const startTime = performance.now();
+    let accumulatedContent = '';
+    try {
+      for await (const chunk of streamDefinition(question, file, getAnsweredTurns(history), controller.signal)) {
+        if (chunk.startsWith('[SYSTEM:RETRY]')) {
+          // The retry starts the stream over.
+          accumulatedContent = '';
+          setChatTurns([...history, questionTurn, { role: 'model', text: '' }]);
+          setError(chunk.replace('[SYSTEM:RETRY]', ''));
+        } else {
+          setError(null);
+          accumulatedContent += chunk;
+          setChatTurns([...history, questionTurn, { role: 'model', text: accumulatedContent }]);
+        }
+      }
+    } catch (e: unknown) {
+      if (isAbortError(e)) {
+        // Keep whatever part of the answer had arrived.
+        if (chatAbortRef.current === controller) {
+          setError(null);
+          setChatTurns(accumulatedContent
+            ? [...history, questionTurn, { role: 'model', text: accumulatedContent }]
+            : [...history, questionTurn]);
         }
-      } catch (e: unknown) {
-        const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred';
+      } else {
+        const errorMessage = e instanceof Error ? e.message : t('unknownError');
         setError(errorMessage);
-        setContent('');
+        setChatTurns([...history, questionTurn]);
         console.error(e);
-      } finally {
+      }
+    } finally {
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
         setIsLoading(false);
         setGenerationTime(performance.now() - startTime);
       }
+    }
+  }, [file]);
+
+  // Cancels every request in flight: the topic definition and art, the deep dive and the file answer.
+  const handleAbort = useCallback(() => {
+    topicAbortRef.current?.abort();
+    deepDiveAbortRef.current?.abort();
+    chatAbortRef.current?.abort();
+    etymologyAbortRef.current?.abort();
+    comparisonAbortRef.current?.abort();
+    bridgeAbortRef.current?.abort();
+    quizAbortRef.current?.abort();
+    senseAbortRef.current?.abort();
+  }, []);
+
+  const handleRegenerateAnswer = useCallback(() => {
+    if (isLoading) return;
+    const lastQuestionIndex = chatTurns.map(turn => turn.role).lastIndexOf('user');
+    if (lastQuestionIndex === -1) return;
+    streamFileAnswer(chatTurns[lastQuestionIndex].text, chatTurns.slice(0, lastQuestionIndex));
+  }, [chatTurns, isLoading, streamFileAnswer]);
+
+  const handleClearThread = useCallback(() => {
+    setChatTurns([]);
+    setError(null);
+    setGenerationTime(null);
+  }, []);
+
+  const handleSearch = useCallback(async (query: string) => {
+    if (isLoading || !isApiConfigured) return;
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) return;
+
+    const comparisonQuery = file ? null : parseComparisonQuery(trimmedQuery);
+    const bridgeQuery = file ? null : parseBridgeQuery(trimmedQuery);
+    if (file) {
+      // File Q&A mode: each question continues the thread.
+      await streamFileAnswer(trimmedQuery, chatTurns);
+    } else if (comparisonQuery) {
+      // "A vs B" compares two topics.
+      startComparison(comparisonQuery.topicA, comparisonQuery.topicB);
+    } else if (bridgeQuery) {
+      // "A -> B" finds a chain of concepts from one topic to the other.
+      startBridge(bridgeQuery.start, bridgeQuery.target);
     } else {
       // Topic exploration mode
+      setComparedTopics(null);
+      setBridgeTopics(null);
+      setIsReviewOpen(false);
       if (trimmedQuery.toLowerCase() !== currentTopic.toLowerCase()) {
-        setCurrentTopic(trimmedQuery);
+        searchTopic(trimmedQuery);
       }
     }
-  }, [currentTopic, isLoading, file, error, isApiConfigured]);
+  }, [currentTopic, isLoading, file, isApiConfigured, searchTopic, streamFileAnswer, chatTurns, startComparison, startBridge]);
 
   const handleRandom = useCallback(() => {
     if (isLoading || file || !isApiConfigured) return;
+    setComparedTopics(null);
+    setBridgeTopics(null);
+    setIsReviewOpen(false);
     setIsLoading(true); // Disable UI immediately
     setError(null);
     setContent('');
@@ -277,10 +901,40 @@ const App: React.FC = () => {
       const nextIndex = (randomIndex + 1) % UNIQUE_WORDS.length;
       randomWord = UNIQUE_WORDS[nextIndex];
     }
-    setCurrentTopic(randomWord);
-  }, [currentTopic, isLoading, file, isApiConfigured]);
+    navigateToTopic(randomWord);
+  }, [currentTopic, isLoading, file, isApiConfigured, navigateToTopic]);
+
+  // Redefines the current topic in the new style; each style is cached separately.
+  const handleDefinitionStyleChange = useCallback((styleId: string) => {
+    settingsService.setSetting('definitionStyle', styleId);
+    setDefinitionStyleId(styleId);
+  }, []);
+
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    try {
+      const session = await collectSession(sessionGraph);
+      const { content: fileContent, extension, mimeType } = renderSession(session, format);
+      downloadFile(`lexicon-nexus-session.${extension}`, fileContent, mimeType);
+    } catch (e) {
+      console.error('Failed to export session:', e);
+      setError(t('sessionExportFailed'));
+    }
+  }, [sessionGraph]);
+
+  // Imported art replaces the current topic's art until the next navigation.
+  const handleArtImport = useCallback((imported: ImportedArt) => {
+    setAsciiArt(imported.artData);
+  }, []);
 
   const handleFileUpload = useCallback((uploadedFile: File) => {
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
+    comparisonAbortRef.current?.abort();
+    bridgeAbortRef.current?.abort();
+    closeSensePicker();
+    setComparedTopics(null);
+    setBridgeTopics(null);
+    setIsReviewOpen(false);
     setIsLoading(true);
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -292,6 +946,7 @@ const App: React.FC = () => {
       });
       setCurrentTopic(uploadedFile.name); // Use filename for display
       setContent(''); // Clear previous content
+      setChatTurns([]); // A new file starts a new thread
       setError(null);
       // Clear all topic-specific data
       setAsciiArt(null);
@@ -301,19 +956,151 @@ const App: React.FC = () => {
     };
     reader.onerror = (e) => {
       console.error("File reading error", e);
-      setError("Failed to read the uploaded file.");
+      setError(t('fileReadFailed'));
       setIsLoading(false);
     };
     reader.readAsDataURL(uploadedFile);
-  }, []);
+  }, [closeSensePicker]);
 
   const handleFileClear = useCallback(() => {
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
     setFile(null);
+    setChatTurns([]);
     setContent('');
     setError(null);
-    setCurrentTopic('Hypertext'); // Reset to a default topic
+    // Return to the topic in the URL, which file mode leaves untouched.
+    setCurrentTopic(routeService.getCurrentRoute()?.topic ?? DEFAULT_TOPIC);
   }, []);
 
+  const isGenerating = isApiConfigured && (isLoading || isAncillaryLoading || isDeepDiveLoading || isEtymologyLoading
+    || isComparisonLoading || isComparisonDefinitionLoading.includes(true) || isBridgeLoading || isQuizLoading || (senseChoice !== null && !senseChoice.senses));
+  const isPickingSense = Boolean(senseChoice?.senses);
+  // Neither a file, a comparison, a bridge, the review nor the sense picker is open, so the current topic is shown.
+  const isTopicMode = !file && !comparedTopics && !bridgeTopics && !isReviewOpen && !isPickingSense;
+  const dueCards = studyService.getDueCards(studyCards);
+  const definitionStyle = getDefinitionStyle(definitionStyleId);
+
+  /**
+   * Carries out a `:` command.
+   * @returns Lines of output for the command line.
+   * @throws CommandError if the command cannot be carried out right now.
+   */
+  const runCommand = useCallback((command: Command): string[] => {
+    const requireTopicMode = () => {
+      if (!isApiConfigured) throw new CommandError(t('commandNeedsProvider'));
+      if (file) throw new CommandError(t('commandNeedsNoFile'));
+    };
+    switch (command.name) {
+      case 'go':
+        requireTopicMode();
+        setComparedTopics(null);
+        setBridgeTopics(null);
+        setIsReviewOpen(false);
+        if (command.topic.toLowerCase() !== currentTopic.toLowerCase()) {
+          navigateToTopic(command.topic);
+        }
+        return [t('commandOpening', { name: command.topic })];
+      case 'back':
+        window.history.back();
+        return [];
+      case 'forward':
+        window.history.forward();
+        return [];
+      case 'deep':
+        requireTopicMode();
+        if (!isTopicMode) throw new CommandError(t('commandNeedsTopic'));
+        if (isLoading || error) throw new CommandError(t('commandWaitForDefinition'));
+        if (deepDiveContent || isDeepDiveLoading) return [t('commandDeepDiveOpen')];
+        handleDeepDive();
+        return [t('commandDeepDiveStarting', { name: currentTopic })];
+      case 'compare': {
+        requireTopicMode();
+        const topicA = command.topicA ?? currentTopic;
+        if (topicA.toLowerCase() === command.topicB.toLowerCase()) {
+          throw new CommandError(t('commandCompareSelf', { name: topicA }));
+        }
+        startComparison(topicA, command.topicB);
+        return [t('commandComparing', { a: topicA, b: command.topicB })];
+      }
+      case 'bridge': {
+        requireTopicMode();
+        const start = command.start ?? currentTopic;
+        if (start.toLowerCase() === command.target.toLowerCase()) {
+          throw new CommandError(t('commandBridgeSelf', { name: start }));
+        }
+        startBridge(start, command.target);
+        return [t('commandBridging', { start, target: command.target })];
+      }
+      case 'review':
+        requireTopicMode();
+        handleReviewOpen();
+        return [t('commandCardsDue', { due: dueCards.length, total: studyCards.length })];
+      case 'random':
+        requireTopicMode();
+        if (isLoading) throw new CommandError(t('commandWaitForTopic'));
+        handleRandom();
+        return [];
+      case 'abort':
+        handleAbort();
+        return [isGenerating ? t('commandAborted') : t('commandNothingToAbort')];
+      case 'export':
+        handleExport(command.format);
+        return [t('commandExporting', { format: command.format })];
+      case 'set': {
+        const message = applySetting(command.key, command.value);
+        checkApiKey(); // A provider change may need a key, and updates the footer.
+        return [message];
+      }
+      case 'help':
+        return [
+          ...getCommandHelp(),
+          '',
+          ...[...new Set(KEYBINDINGS.map(binding => binding.action))].map(action => {
+            const bindings = KEYBINDINGS.filter(binding => binding.action === action);
+            return `${bindings.map(binding => binding.key).join(' ').padEnd(26)}${t(bindings[0].description)}`;
+          }),
+          `${'Enter'.padEnd(26)}${t('keyOpenItem')}`,
+        ];
+    }
+  }, [currentTopic, file, isTopicMode, isApiConfigured, isLoading, error, deepDiveContent, isDeepDiveLoading, isGenerating,
+      dueCards.length, studyCards.length, navigateToTopic, startComparison, startBridge, handleReviewOpen, handleDeepDive, handleRandom, handleAbort, handleExport, checkApiKey]);
+
+  const handleCommandLine = useCallback((line: string) => runCommand(parseCommand(line)), [runCommand]);
+
+  const openCommandLine = useCallback((command: string | null) => {
+    setInitialCommand(command);
+    setIsCommandLineOpen(true);
+  }, []);
+
+  // The keyboard mode: vim-style keys move a cursor over clickable items and open the command line.
+  useEffect(() => {
+    if (isSettingsOpen || isQrModalOpen || isCommandLineOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || isTextEntryTarget(e.target)) return;
+      const binding = KEYBINDINGS.find(candidate => candidate.key === e.key);
+      if (!binding) return;
+      e.preventDefault();
+      switch (binding.action) {
+        case 'commandLine':
+          openCommandLine(null);
+          break;
+        case 'help':
+          openCommandLine('help');
+          break;
+        case 'search':
+          document.getElementById('search-input')?.focus();
+          break;
+        case 'clearCursor':
+          clearCursor();
+          break;
+        default:
+          moveCursor(binding.action);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSettingsOpen, isQrModalOpen, isCommandLineOpen, openCommandLine]);
 
   return (
     <div className="app-container">
@@ -330,7 +1117,11 @@ const App: React.FC = () => {
             onClearFile={handleFileClear}
             uploadedFile={file ? { name: file.name } : null}
             onSettingsClick={() => setIsSettingsOpen(true)}
+            onReviewClick={handleReviewOpen}
+            reviewDueCount={dueCards.length}
             isApiConfigured={isApiConfigured}
+            definitionStyleId={definitionStyleId}
+            onDefinitionStyleChange={handleDefinitionStyleChange}
             />
         </div>
       </header>
@@ -338,60 +1129,140 @@ const App: React.FC = () => {
       <main>
         {!isApiConfigured && (
           <div className="error-message">
-            <p>API Key Not Configured</p>
-            <p>Please add your Gemini API key in the settings panel (gear icon) to begin.</p>
+            <p>{t('apiKeyMissingTitle')}</p>
+            <p>{t('apiKeyMissingBody')}</p>
           </div>
         )}
 
         {isApiConfigured && file && (
           <h2 className="topic-title">
-            <span className="topic-title-prefix">// QUERYING FILE: </span>{currentTopic}
+            <span className="topic-title-prefix">{t('queryingFilePrefix')}</span>{currentTopic}
           </h2>
         )}
 
-        {isApiConfigured && !file && (
+        {isApiConfigured && comparedTopics && (
+          <CompareDisplay
+            topics={comparedTopics}
+            definitions={comparisonDefinitions}
+            isDefinitionLoading={isComparisonDefinitionLoading}
+            isLoading={isComparisonLoading}
+            error={comparisonError}
+            data={comparison}
+            onWordClick={handleCompareWordClick}
+            onExit={handleCompareExit}
+          />
+        )}
+
+        {isApiConfigured && bridgeTopics && (
+          <BridgeDisplay
+            start={bridgeTopics[0]}
+            target={bridgeTopics[1]}
+            hops={bridgeHops}
+            isLoading={isBridgeLoading}
+            error={bridgeError}
+            onTopicClick={handleBridgeTopicClick}
+            onExit={handleBridgeExit}
+          />
+        )}
+
+        {isApiConfigured && isReviewOpen && (
+          <ReviewDisplay
+            dueCards={dueCards}
+            totalCount={studyCards.length}
+            nextDueAt={studyService.getNextDueAt(studyCards)}
+            quizTopicCount={studyService.getTopicsWithoutQuiz().length}
+            isQuizLoading={isQuizLoading}
+            quizError={quizError}
+            onGrade={handleGradeCard}
+            onGenerateQuiz={handleGenerateQuiz}
+            onExport={handleAnkiExport}
+            onTopicClick={handleReviewTopicClick}
+            onExit={handleReviewExit}
+          />
+        )}
+
+        {isApiConfigured && senseChoice && (
+          senseChoice.senses ? (
+            <SensePicker topic={senseChoice.topic} senses={senseChoice.senses} onChoose={handleSenseChoose} onCancel={closeSensePicker} />
+          ) : (
+            <p className="sense-status">{t('checkingSenses', { name: senseChoice.topic })}</p>
+          )
+        )}
+
+        {isApiConfigured && isTopicMode && (
           <>
             {isAncillaryLoading ? (
                <pre className="ascii-art"><LoadingSkeleton /></pre>
             ) : (
-              <AsciiArtDisplay artData={asciiArt} topic={currentTopic} />
+              <AsciiArtDisplay
+                artData={asciiArt}
+                topic={currentTopic}
+                onImport={handleArtImport}
+                onHotspotClick={handleHotspotClick}
+              />
             )}
             <h2 className="topic-title">
-              <span className="topic-title-prefix">// DEFINITION FOR: </span>{currentTopic}
+              <span className="topic-title-prefix">{t('definitionForPrefix')}</span>{currentTopic}
+              {topicContext.sense && <span className="topic-sense"> ({topicContext.sense.label})</span>}
+              {definitionStyle.tag && <span className="definition-style-tag">[{definitionStyle.tag}]</span>}
             </h2>
+            {isDefinitionInContext(topicContext) && (
+              <p className="topic-context">
+                {t('inContextOf', { name: topicContext.parentTopic })}
+                <button className="etymology-action" onClick={handleGeneralSense} disabled={isLoading}>{t('generalSense')}</button>
+              </p>
+            )}
           </>
         )}
 
-        {isApiConfigured && error && (
+        {isApiConfigured && !comparedTopics && !bridgeTopics && !isReviewOpen && !isPickingSense && error && (
           <div className="error-message">
-            <p>{error.includes('Occurred') ? 'An Error Occurred' : 'System Message'}</p>
+            <p>{error.includes('Occurred') ? t('errorTitle') : t('systemMessageTitle')}</p>
             <p>{error}</p>
           </div>
         )}
         
-        {isApiConfigured && isLoading && content.length === 0 && !error && (
+        {isApiConfigured && isTopicMode && isLoading && content.length === 0 && !error && (
           <LoadingSkeleton />
         )}
 
-        {isApiConfigured && content.length > 0 && (
+        {isApiConfigured && file && (
+          <ChatThread
+            turns={chatTurns}
+            isLoading={isLoading}
+            onRegenerate={handleRegenerateAnswer}
+            onClear={handleClearThread}
+          />
+        )}
+
+        {isApiConfigured && isTopicMode && content.length > 0 && (
             <ContentDisplay 
               content={content} 
               isLoading={isLoading} 
-              onWordClick={handleWordClick} 
+              onWordClick={handleDefinitionWordClick} 
             />
         )}
 
-        {isApiConfigured && !isLoading && !error && content.length === 0 && !file && (
+        {isApiConfigured && !isLoading && !error && content.length === 0 && isTopicMode && (
           <div>
-            <p>Content could not be generated.</p>
+            <p>{t('contentUnavailable')}</p>
           </div>
         )}
         
         {/* Topic-only sections */}
-        {isApiConfigured && !file && (content.length > 0 || !isLoading) && !error && (
+        {isApiConfigured && isTopicMode && (content.length > 0 || !isLoading) && !error && (
           <>
+            <EtymologyDisplay
+              key={currentTopic}
+              topic={currentTopic}
+              isLoading={isEtymologyLoading}
+              error={etymologyError}
+              data={etymology}
+              onRequest={handleEtymologyRequest}
+              onMorphemeClick={handleMorphemeClick}
+            />
             <div className="related-concepts-container">
-              <h3 className="related-concepts-heading">// RELATED CONCEPTS</h3>
+              <h3 className="related-concepts-heading">{t('relatedConceptsHeading')}</h3>
               {isAncillaryLoading && <div className="skeleton-bar" style={{width: '80%', height: '44px'}}></div>}
               {ancillaryError && <p className="error-message-inline">{ancillaryError}</p>}
               {!isAncillaryLoading && relatedConcepts.length > 0 && (
@@ -400,8 +1271,9 @@ const App: React.FC = () => {
                           <button
                               key={index}
                               className="related-concept-item"
-                              onClick={() => handleWordClick(concept)}
+                              onClick={() => handleWordClick(concept, 'related')}
                               disabled={isLoading || isAncillaryLoading}
+                              {...navTarget('related')}
                           >
                               {concept}
                           </button>
@@ -418,35 +1290,64 @@ const App: React.FC = () => {
                   disabled={isDeepDiveLoading}
                 >
                   <ChevronsDown size={16} />
-                  <span>[Initiate Deep Dive]</span>
+                  <span>{t('initiateDeepDive')}</span>
                 </button>
               </div>
             )}
 
             <DeepDiveDisplay 
-              isLoading={isDeepDiveLoading}
+              isLoading={isDeepDiveLoading && !deepDiveContent}
+              isStreaming={isDeepDiveLoading}
               error={deepDiveError}
               data={deepDiveContent}
-              onWordClick={handleWordClick}
+              onWordClick={handleKeywordClick}
             />
           </>
         )}
+
+        {isApiConfigured && isTopicMode && (
+          <ConceptGraphDisplay
+            graph={sessionGraph}
+            currentTopic={currentTopic}
+            onNodeClick={handleGraphNodeClick}
+          />
+        )}
       </main>
 
       <footer className="sticky-footer">
+        <CommandLine
+          isOpen={isCommandLineOpen}
+          initialCommand={initialCommand}
+          onClose={() => setIsCommandLineOpen(false)}
+          onExecute={handleCommandLine}
+        />
         <div className="footer-text">
-          <span className="footer-status-ok">[STATUS: OK]</span>
+          {isGenerating ? (
+            <>
+              <span className="footer-status-busy">{t('statusGenerating')}</span>
+              <button onClick={handleAbort} className="abort-button" aria-label={t('abortLabel')}>{t('abort')}</button>
+            </>
+          ) : (
+            <span className="footer-status-ok">{t('statusOk')}</span>
+          )}
           <span>[USER: <a href="https://github.com/ccipher-bill" target="_blank" rel="noopener noreferrer">ccipher-bill</a>
             <button 
               onClick={() => setIsQrModalOpen(true)} 
               className="qr-code-button" 
-              aria-label="Show QR code for developer's GitHub profile"
+              aria-label={t('qrOpenLabel')}
             >
               <QrCode size={16} />
             </button>]
           </span>
-          <span>[SRC: Gemini]</span>
+          <span>[SRC: {PROVIDERS.find(provider => provider.id === providerId)?.name ?? providerId}]</span>
           {generationTime && <span>[LATENCY: {Math.round(generationTime)}ms]</span>}
+          <UsageIndicator />
+          <QueueIndicator />
+          <span>[{t('exportLabel')}:
+            <button onClick={() => handleExport('markdown')} className="footer-action-button" aria-label={t('exportSessionLabel', { format: 'Markdown' })}>MD</button>
+            <button onClick={() => handleExport('json')} className="footer-action-button" aria-label={t('exportSessionLabel', { format: 'JSON' })}>JSON</button>
+            <button onClick={() => handleExport('html')} className="footer-action-button" aria-label={t('exportSessionLabel', { format: 'HTML' })}>HTML</button>]
+          </span>
         </div>
       </footer>
 
@@ -456,13 +1357,14 @@ const App: React.FC = () => {
         onClose={() => setIsQrModalOpen(false)}
       />
 
-      <SettingsModal 
+      {/* Mounted only while open, so it shows settings changed with :set. */}
+      {isSettingsOpen && <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => {
             setIsSettingsOpen(false);
             checkApiKey();
         }}
-      />
+      />}
     </div>
   );
 };
@@ -2,14 +2,24 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import type { AsciiArtData } from '../services/geminiService';
+import * as settingsService from '../services/settingsService';
+import { DEFAULT_ART_FPS } from '../config/artPalette';
+import { getArtFileName, ImportedArt, parseArtJson, toArtJson, toArtPng, toArtSvg, toArtText } from '../services/artExportService';
+import { downloadFile } from '../services/downloadService';
+import { navTarget } from '../services/keyboardNavigation';
+import { t } from '../services/i18n';
 
 interface AsciiArtDisplayProps {
   artData: AsciiArtData | null;
   topic: string;
+  onImport: (imported: ImportedArt) => void;
+  onHotspotClick: (concept: string) => void;
 }
 
+type ArtAction = 'copy' | 'svg' | 'png' | 'json' | 'import';
+
 interface TooltipState {
   visible: boolean;
   content: string;
@@ -17,14 +27,22 @@ interface TooltipState {
   y: number;
 }
 
-const AsciiArtDisplay: React.FC<AsciiArtDisplayProps> = ({ artData, topic }) => {
+const AsciiArtDisplay: React.FC<AsciiArtDisplayProps> = ({ artData, topic, onImport, onHotspotClick }) => {
   const [visibleContent, setVisibleContent] = useState<string>('*');
   const [isStreaming, setIsStreaming] = useState<boolean>(false);
   const [tooltip, setTooltip] = useState<TooltipState | null>(null);
+  const [actionStatus, setActionStatus] = useState<{ action: ArtAction; message: string } | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const frames = artData?.frames?.length > 1 ? artData.frames : null;
+  // Read with each new art, so a changed setting applies from the next topic.
+  const fps = useMemo(() => settingsService.getSetting<number>('animatedArtFps', DEFAULT_ART_FPS), [artData]);
 
   useEffect(() => {
     let intervalId: number;
     setTooltip(null); // Hide tooltip on new art
+    setFrameIndex(0);
 
     if (artData) {
       setVisibleContent('');
@@ -51,6 +69,15 @@ const AsciiArtDisplay: React.FC<AsciiArtDisplayProps> = ({ artData, topic }) =>
     return () => window.clearInterval(intervalId);
   }, [artData]);
 
+  // Plays animated art in a loop once it has been typed out. Hotspots keep their cells on every frame.
+  useEffect(() => {
+    if (!frames || isStreaming || isPaused) return;
+    const intervalId = window.setInterval(() => {
+      setFrameIndex(index => (index + 1) % frames.length);
+    }, 1000 / Math.max(1, fps));
+    return () => window.clearInterval(intervalId);
+  }, [frames, isStreaming, isPaused, fps]);
+
   const hotspotMap = useMemo(() => {
     if (!artData?.hotspots) return new Map();
     const map = new Map<string, string>();
@@ -74,10 +101,77 @@ const AsciiArtDisplay: React.FC<AsciiArtDisplayProps> = ({ artData, topic }) =>
     setTooltip(null);
   };
 
+  // The keyboard cursor shows the same tooltip, anchored above the focused character.
+  const handleFocus = (e: React.FocusEvent<HTMLSpanElement>, concept: string) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setTooltip({
+      visible: true,
+      content: concept,
+      x: rect.left + rect.width / 2,
+      y: rect.top,
+    });
+  };
+
+  const handleHotspotKeyDown = (e: React.KeyboardEvent<HTMLSpanElement>, concept: string) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onHotspotClick(concept);
+    }
+  };
+
+  const showStatus = (action: ArtAction, message: string) => {
+    setActionStatus({ action, message });
+    setTimeout(() => setActionStatus(current => current?.action === action ? null : current), 2000);
+  };
+
+  const handleExport = async (action: Exclude<ArtAction, 'import'>) => {
+    if (!artData) return;
+    const fileName = getArtFileName(topic);
+    try {
+      switch (action) {
+        case 'copy':
+          await navigator.clipboard.writeText(toArtText(artData));
+          showStatus(action, t('artCopied'));
+          break;
+        case 'svg':
+          downloadFile(`${fileName}.svg`, toArtSvg(artData, topic), 'image/svg+xml');
+          break;
+        case 'png':
+          downloadFile(`${fileName}.png`, await toArtPng(artData, topic), 'image/png');
+          break;
+        case 'json':
+          downloadFile(`${fileName}.json`, toArtJson(artData, topic), 'application/json');
+          break;
+      }
+    } catch (error) {
+      console.error(`Failed to export the art as ${action}:`, error);
+      showStatus(action, t('artFailed'));
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    e.target.value = ''; // Lets the same file be chosen again.
+    if (!selectedFile) return;
+    try {
+      onImport(parseArtJson(await selectedFile.text()));
+    } catch (error) {
+      console.error('Failed to import the art:', error);
+      showStatus('import', t('artFailed'));
+    }
+  };
+
+  const renderActionButton = (action: ArtAction, label: string, description: string, onClick: () => void) => (
+    <button className="footer-action-button" onClick={onClick} aria-label={description} title={description}>
+      {actionStatus?.action === action ? actionStatus.message : label}
+    </button>
+  );
+
   const renderInteractiveArt = () => {
     if (!artData) return null;
 
-    return artData.art.split('\n').map((line, y) => (
+    const frameText = frames ? frames[frameIndex % frames.length] : artData.art;
+    return frameText.split('\n').map((line, y) => (
       <React.Fragment key={y}>
         {(() => {
           const lineElements: React.ReactNode[] = [];
@@ -99,8 +193,16 @@ const AsciiArtDisplay: React.FC<AsciiArtDisplayProps> = ({ artData, topic }) =>
                 <span
                   key={`hotspot-${key}`}
                   className="interactive-char"
+                  role="button"
+                  tabIndex={0}
+                  aria-label={t('learnMoreAbout', { name: concept })}
                   onMouseOver={(e) => handleMouseOver(e, concept)}
                   onMouseOut={handleMouseOut}
+                  onFocus={(e) => handleFocus(e, concept)}
+                  onBlur={handleMouseOut}
+                  onClick={() => onHotspotClick(concept)}
+                  onKeyDown={(e) => handleHotspotKeyDown(e, concept)}
+                  {...navTarget('art')}
                 >
                   {char}
                 </span>
@@ -121,7 +223,7 @@ const AsciiArtDisplay: React.FC<AsciiArtDisplayProps> = ({ artData, topic }) =>
     ));
 };
 
-  const accessibilityLabel = `ASCII art for ${topic}`;
+  const accessibilityLabel = t(frames ? 'animatedArtLabel' : 'artLabel', { name: topic });
 
   return (
     <>
@@ -136,7 +238,12 @@ const AsciiArtDisplay: React.FC<AsciiArtDisplayProps> = ({ artData, topic }) =>
           {tooltip.content}
         </div>
       )}
-      <pre className="ascii-art" aria-label={accessibilityLabel}>
+      <pre
+        className="ascii-art"
+        aria-label={accessibilityLabel}
+        onMouseEnter={() => setIsPaused(true)}
+        onMouseLeave={() => setIsPaused(false)}
+      >
         {isStreaming ? (
           <>
             {visibleContent}
@@ -146,6 +253,39 @@ const AsciiArtDisplay: React.FC<AsciiArtDisplayProps> = ({ artData, topic }) =>
           renderInteractiveArt()
         )}
       </pre>
+      {artData && !isStreaming && (
+        <div className="ascii-art-actions">
+          {artData.corrections?.length > 0 && (
+            <span className="ascii-art-corrections" title={artData.corrections.join('\n')}>
+              {artData.corrections.length === 1 ? t('artNormalizedOne') : t('artNormalized', { count: artData.corrections.length })}
+            </span>
+          )}
+          {frames && (
+            <span className={isPaused ? 'ascii-art-playback-paused' : undefined}>
+              {t('artPlayback', {
+                state: isPaused ? t('artPaused') : t('artFps', { fps }),
+                frame: frameIndex % frames.length + 1,
+                count: frames.length,
+              })}
+            </span>
+          )}
+          <span>
+            {t('artActionsPrefix')}
+            {renderActionButton('copy', t('artCopy'), t('artCopyLabel'), () => handleExport('copy'))}
+            {renderActionButton('svg', 'SVG', t('artSvgLabel'), () => handleExport('svg'))}
+            {renderActionButton('png', 'PNG', t('artPngLabel'), () => handleExport('png'))}
+            {renderActionButton('json', 'JSON', t('artJsonLabel'), () => handleExport('json'))}
+            {renderActionButton('import', t('artImport'), t('artImportLabel'), () => importInputRef.current?.click())}]
+          </span>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportFile}
+            style={{ display: 'none' }}
+          />
+        </div>
+      )}
     </>
   );
 };
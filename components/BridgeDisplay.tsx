@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { BridgeHop } from '../services/geminiService';
+import { renderBridgeDiagram } from '../services/bridgeService';
+import { t } from '../services/i18n';
+import LoadingSkeleton from './LoadingSkeleton';
+
+interface BridgeDisplayProps {
+  start: string;
+  target: string;
+  hops: BridgeHop[];
+  isLoading: boolean;
+  error: string | null;
+  /** Leaves bridge mode and explores a topic on the bridge. */
+  onTopicClick: (topic: string) => void;
+  onExit: () => void;
+}
+
+/**
+ * A bridge between two topics as a clickable breadcrumb and a vertical ASCII chain.
+ * Hops appear as they are found.
+ */
+const BridgeDisplay: React.FC<BridgeDisplayProps> = ({ start, target, hops, isLoading, error, onTopicClick, onExit }) => {
+  const isComplete = hops.length > 0 && hops[hops.length - 1].to.toLowerCase() === target.toLowerCase();
+  const topics = [start, ...hops.map(hop => hop.to)];
+
+  return (
+    <section className="bridge-container">
+      <h2 className="topic-title">
+        <span className="topic-title-prefix">{t('bridgePrefix')}</span>{start} → {target}
+        {isComplete && <span className="definition-style-tag">[{t('bridgeHopsTag', { count: hops.length })}]</span>}
+      </h2>
+      <nav className="bridge-breadcrumb" aria-label={t('bridgeBreadcrumbLabel')}>
+        {topics.map((topic, index) => (
+          <React.Fragment key={index}>
+            {index > 0 && <span className="bridge-separator"> › </span>}
+            <button className="interactive-word" onClick={() => onTopicClick(topic)}>{topic}</button>
+          </React.Fragment>
+        ))}
+        {!isComplete && (
+          <>
+            <span className="bridge-separator"> ⋯ </span>
+            <button className="interactive-word" onClick={() => onTopicClick(target)}>{target}</button>
+          </>
+        )}
+      </nav>
+      <pre className="ascii-art">{renderBridgeDiagram(start, hops)}</pre>
+      {isLoading && <LoadingSkeleton />}
+      {error && (
+        <div className="error-message">
+          <p>{t('bridgeFailed')}</p>
+          <p>{error}</p>
+        </div>
+      )}
+      <button className="etymology-action mode-exit" onClick={onExit}>{t('exitBridge')}</button>
+    </section>
+  );
+};
+
+export default BridgeDisplay;
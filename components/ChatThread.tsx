@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import type { ChatTurn } from '../services/geminiService';
+import { t } from '../services/i18n';
+
+interface ChatThreadProps {
+  turns: ChatTurn[];
+  isLoading: boolean;
+  onRegenerate: () => void;
+  onClear: () => void;
+}
+
+const ChatThread: React.FC<ChatThreadProps> = ({ turns, isLoading, onRegenerate, onClear }) => {
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  const handleCopy = async (text: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(current => current === index ? null : current), 2000);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  if (turns.length === 0) {
+    return (
+      <p className="chat-thread-empty">{t('chatEmpty')}</p>
+    );
+  }
+
+  return (
+    <div className="chat-thread">
+      {turns.map((turn, index) => {
+        const isStreaming = isLoading && index === turns.length - 1 && turn.role === 'model';
+        return (
+          <div key={index} className={`chat-turn chat-turn-${turn.role}`}>
+            <div className="chat-turn-header">
+              <span className="chat-turn-prefix">{turn.role === 'user' ? t('chatQueryPrefix') : t('chatResponsePrefix')}</span>
+              {!isStreaming && turn.text && (
+                <button
+                  className="chat-turn-copy"
+                  onClick={() => handleCopy(turn.text, index)}
+                  aria-label={turn.role === 'user' ? t('copyQuestionLabel') : t('copyAnswerLabel')}
+                >
+                  {copiedIndex === index ? t('copied') : t('copy')}
+                </button>
+              )}
+            </div>
+            <p className="chat-turn-text">
+              {turn.text}
+              {isStreaming && <span className="blinking-cursor">█</span>}
+            </p>
+          </div>
+        );
+      })}
+
+      <div className="chat-thread-controls">
+        <button className="deep-dive-trigger" onClick={onRegenerate} disabled={isLoading}>
+          <RotateCcw size={16} />
+          <span>{t('regenerateAnswer')}</span>
+        </button>
+        <button className="deep-dive-trigger" onClick={onClear} disabled={isLoading}>
+          <Trash2 size={16} />
+          <span>{t('clearThread')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChatThread;
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { CommandError } from '../services/commandService';
+import { t } from '../services/i18n';
+
+interface CommandLineProps {
+  isOpen: boolean;
+  /** Text to run as soon as the line opens, e.g. "help" for the ? key. */
+  initialCommand: string | null;
+  onClose: () => void;
+  /** Runs a command line. @returns Lines of output. @throws CommandError to report a mistake. */
+  onExecute: (line: string) => string[];
+}
+
+interface CommandOutput {
+  lines: string[];
+  isError: boolean;
+}
+
+/**
+ * A vim-style `:` command line in the footer. Up and down recall earlier commands,
+ * Escape closes it, and the output of the last command stays until Escape is pressed again.
+ */
+const CommandLine: React.FC<CommandLineProps> = ({ isOpen, initialCommand, onClose, onExecute }) => {
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [output, setOutput] = useState<CommandOutput | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const execute = (line: string) => {
+    try {
+      setOutput({ lines: onExecute(line), isError: false });
+    } catch (error) {
+      if (!(error instanceof CommandError)) {
+        console.error(`Command "${line}" failed:`, error);
+      }
+      setOutput({ lines: [error instanceof Error ? error.message : t('commandFailed')], isError: true });
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setInput('');
+    setHistoryIndex(null);
+    if (initialCommand) {
+      execute(initialCommand);
+      onClose();
+    } else {
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  // Dismisses the output of the last command once the line is closed.
+  useEffect(() => {
+    if (isOpen || !output) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOutput(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, output]);
+
+  const recall = (step: number) => {
+    if (history.length === 0) return;
+    const from = historyIndex ?? history.length;
+    const index = Math.min(Math.max(from + step, 0), history.length);
+    setHistoryIndex(index === history.length ? null : index);
+    setInput(index === history.length ? '' : history[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'Enter': {
+        e.preventDefault();
+        const line = input.trim();
+        if (line) {
+          setHistory(previous => [...previous.filter(entry => entry !== line), line]);
+          execute(line);
+        }
+        onClose();
+        break;
+      }
+      case 'Escape':
+        e.preventDefault();
+        e.stopPropagation();
+        onClose();
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        recall(-1);
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        recall(1);
+        break;
+      case 'Backspace':
+        // As in vim, deleting past the start closes the line.
+        if (input === '') {
+          e.preventDefault();
+          onClose();
+        }
+        break;
+    }
+  };
+
+  if (!isOpen && !output) {
+    return null;
+  }
+
+  return (
+    <div className="command-line">
+      {!isOpen && output && (
+        <div className={`command-line-output ${output.isError ? 'command-line-error' : ''}`} role="status">
+          {output.lines.map((line, index) => <div key={index}>{line}</div>)}
+        </div>
+      )}
+      {isOpen && (
+        <label className="command-line-prompt">
+          :
+          <input
+            ref={inputRef}
+            className="command-line-input"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={onClose}
+            spellCheck={false}
+            autoComplete="off"
+            aria-label={t('commandLabel')}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default CommandLine;
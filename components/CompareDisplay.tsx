@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { ComparisonData } from '../services/geminiService';
+import { t } from '../services/i18n';
+import ContentDisplay from './ContentDisplay';
+import LoadingSkeleton from './LoadingSkeleton';
+
+interface CompareDisplayProps {
+  topics: [string, string];
+  definitions: [string, string];
+  isDefinitionLoading: [boolean, boolean];
+  isLoading: boolean; // Whether the comparison itself is loading.
+  error: string | null;
+  data: ComparisonData | null;
+  /** Leaves compare mode and explores a term from either column, or one of the compared topics. */
+  onWordClick: (word: string, from: string, sentence?: string) => void;
+  onExit: () => void;
+}
+
+/**
+ * Two definitions side by side, with the combined diagram above them and a table of
+ * shared traits and differences below.
+ */
+const CompareDisplay: React.FC<CompareDisplayProps> = ({ topics, definitions, isDefinitionLoading, isLoading, error, data, onWordClick, onExit }) => {
+  const [topicA, topicB] = topics;
+
+  let comparison: React.ReactNode = null;
+  if (data) {
+    comparison = (
+      <>
+        {data.shared.length > 0 && (
+          <>
+            <h3 className="compare-heading">{t('sharedTraitsHeading')}</h3>
+            <ul className="compare-shared">
+              {data.shared.map((trait, index) => <li key={index}>{trait}</li>)}
+            </ul>
+          </>
+        )}
+        <h3 className="compare-heading">{t('differencesHeading')}</h3>
+        <table className="compare-table">
+          <thead>
+            <tr>
+              <th scope="col">{t('aspectColumn')}</th>
+              <th scope="col">{topicA}</th>
+              <th scope="col">{topicB}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.differences.map((difference, index) => (
+              <tr key={index}>
+                <th scope="row">{difference.aspect}</th>
+                <td>{difference.a}</td>
+                <td>{difference.b}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </>
+    );
+  } else if (isLoading) {
+    comparison = <LoadingSkeleton />;
+  }
+
+  return (
+    <section className="compare-container">
+      <h2 className="topic-title">
+        <span className="topic-title-prefix">{t('comparingPrefix')}</span>{topicA} ⇄ {topicB}
+        {data && <span className="definition-style-tag">[{t('relationshipLabel')}: {data.relationship}]</span>}
+      </h2>
+      {data?.diagram && <pre className="ascii-art">{data.diagram}</pre>}
+      {error && (
+        <div className="error-message">
+          <p>{t('comparisonFailed')}</p>
+          <p>{error}</p>
+        </div>
+      )}
+      <div className="compare-columns">
+        {topics.map((topic, index) => (
+          <div key={index} className="compare-column">
+            <h3 className="compare-heading">
+              <button className="interactive-word" onClick={() => onWordClick(topic, topic)}>{`// ${topic}`}</button>
+            </h3>
+            {definitions[index] ? (
+              <ContentDisplay
+                content={definitions[index]}
+                isLoading={isDefinitionLoading[index]}
+                onWordClick={(word, sentence) => onWordClick(word, topic, sentence)}
+              />
+            ) : isDefinitionLoading[index] ? (
+              <LoadingSkeleton />
+            ) : (
+              <p>{t('contentUnavailable')}</p>
+            )}
+          </div>
+        ))}
+      </div>
+      {comparison}
+      <button className="etymology-action mode-exit" onClick={onExit}>{t('exitCompare')}</button>
+    </section>
+  );
+};
+
+export default CompareDisplay;
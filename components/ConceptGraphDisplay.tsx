@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useRef, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { t } from '../services/i18n';
+import { getCrossLinks, getNodeId, GraphNode, SessionGraph } from '../services/sessionGraph';
+
+interface ConceptGraphDisplayProps {
+  graph: SessionGraph;
+  currentTopic: string;
+  onNodeClick: (topic: string) => void;
+}
+
+// A rendered row of the graph: runs of box-drawing text interleaved with clickable nodes.
+type GraphSegment = { text: string } | { node: GraphNode };
+type GraphLine = GraphSegment[];
+
+/**
+ * Lays out one first-visit tree horizontally, children stacked to the right of their parent:
+ *
+ *   [Hypertext]─┬─[HTML]
+ *               ├─[Hyperlink]───[Anchor]
+ *               └─[Memex]
+ */
+const layoutSubtree = (node: GraphNode, childrenOf: Map<string, GraphNode[]>): GraphLine[] => {
+  const children = childrenOf.get(node.id) ?? [];
+  if (children.length === 0) {
+    return [[{ node }]];
+  }
+
+  const padding = ' '.repeat(node.label.length + 2); // Width of "[label]".
+  const lines: GraphLine[] = [];
+  children.forEach((child, i) => {
+    const isFirst = i === 0;
+    const isLast = i === children.length - 1;
+    layoutSubtree(child, childrenOf).forEach((childLine, j) => {
+      let connector: string;
+      if (j === 0) {
+        connector = isFirst ? (isLast ? '───' : '─┬─') : (isLast ? ' └─' : ' ├─');
+      } else {
+        connector = isLast ? '   ' : ' │ ';
+      }
+      const lead: GraphSegment = isFirst && j === 0 ? { node } : { text: padding };
+      lines.push([lead, { text: connector }, ...childLine]);
+    });
+  });
+  return lines;
+};
+
+const ConceptGraphDisplay: React.FC<ConceptGraphDisplayProps> = ({ graph, currentTopic, onNodeClick }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const panStart = useRef<{ x: number; y: number; scrollLeft: number; scrollTop: number } | null>(null);
+
+  const { lines, crossLinks, labels } = useMemo(() => {
+    const childrenOf = new Map<string, GraphNode[]>();
+    for (const node of graph.nodes) {
+      if (node.parentId) {
+        childrenOf.set(node.parentId, [...(childrenOf.get(node.parentId) ?? []), node]);
+      }
+    }
+    const roots = graph.nodes.filter(node => !node.parentId);
+    const treeLines = roots.flatMap((root, i) => [
+      ...(i > 0 ? [[{ text: '' }]] : []), // Blank row between separate trees.
+      ...layoutSubtree(root, childrenOf),
+    ]);
+    return {
+      lines: treeLines,
+      crossLinks: getCrossLinks(graph),
+      labels: new Map(graph.nodes.map(node => [node.id, node.label])),
+    };
+  }, [graph]);
+
+  const currentId = getNodeId(currentTopic);
+
+  // Drag anywhere on the background to pan; clicks on nodes are left alone.
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const viewport = viewportRef.current;
+    if (!viewport || (e.target as HTMLElement).closest('button')) return;
+    panStart.current = { x: e.clientX, y: e.clientY, scrollLeft: viewport.scrollLeft, scrollTop: viewport.scrollTop };
+    viewport.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const viewport = viewportRef.current;
+    if (!viewport || !panStart.current) return;
+    viewport.scrollLeft = panStart.current.scrollLeft - (e.clientX - panStart.current.x);
+    viewport.scrollTop = panStart.current.scrollTop - (e.clientY - panStart.current.y);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    panStart.current = null;
+    viewportRef.current?.releasePointerCapture(e.pointerId);
+  };
+
+  const renderNode = (node: GraphNode, key: string) => (
+    <button
+      key={key}
+      className={`graph-node ${node.id === currentId ? 'current' : ''}`}
+      onClick={() => onNodeClick(node.label)}
+      disabled={node.id === currentId}
+      aria-label={t('returnToTopicLabel', { name: node.label })}
+      title={node.visitCount > 1 ? `Visited ${node.visitCount} times` : undefined}
+    >
+      [{node.label}]
+    </button>
+  );
+
+  if (graph.nodes.length < 2) {
+    return null;
+  }
+
+  return (
+    <section className="concept-graph-container">
+      <button
+        className={`deep-dive-heading ${!isOpen ? 'collapsed' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        <ChevronDown size={16} className="deep-dive-heading-indicator" />
+        {t('sessionGraphHeading')}
+      </button>
+      <div className={`deep-dive-section-content ${!isOpen ? 'collapsed' : ''}`}>
+        <div
+          ref={viewportRef}
+          className="concept-graph-viewport"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <pre className="concept-graph" aria-label={t('sessionGraphLabel')}>
+            {lines.map((line, y) => (
+              <React.Fragment key={y}>
+                {line.map((segment, x) =>
+                  'node' in segment
+                    ? renderNode(segment.node, `${y}-${x}`)
+                    : <React.Fragment key={`${y}-${x}`}>{segment.text}</React.Fragment>
+                )}
+                {'\n'}
+              </React.Fragment>
+            ))}
+            {crossLinks.length > 0 && (
+              <>
+                {`\n${t('crossLinksHeading')}\n`}
+                {crossLinks.map((link, i) => (
+                  <React.Fragment key={`cross-${i}`}>
+                    {`[${labels.get(link.from)}] ${link.followed ? '──►' : '···'} [${labels.get(link.to)}]\n`}
+                  </React.Fragment>
+                ))}
+              </>
+            )}
+          </pre>
+        </div>
+        <p className="concept-graph-legend">{t('graphLegend')}</p>
+      </div>
+    </section>
+  );
+};
+
+export default ConceptGraphDisplay;
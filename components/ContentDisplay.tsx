@@ -3,32 +3,60 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { navTarget } from '../services/keyboardNavigation';
+import { getOutputLanguage } from '../services/settingsService';
+import { findSentence } from '../services/sentences';
+import { t } from '../services/i18n';
 
 interface ContentDisplayProps {
   content: string;
   isLoading: boolean;
-  onWordClick: (word: string) => void;
+  /** Called with the clicked word and the sentence it appears in. */
+  onWordClick: (word: string, sentence: string) => void;
+}
+
+/**
+ * Splits text into words and the whitespace or punctuation between them. Languages written
+ * without spaces between words are segmented by the browser's dictionary instead.
+ * @param content The text.
+ * @returns The pieces, in order, which join back into the text.
+ */
+function splitWords(content: string): string[] {
+  const language = getOutputLanguage();
+  if (!language.hasNoWordSpaces) {
+    return content.split(/(\s+)/).filter(Boolean); // Keep whitespace for spacing
+  }
+  const segmenter = new Intl.Segmenter(language.code, { granularity: 'word' });
+  return [...segmenter.segment(content)].map(piece => piece.segment);
 }
 
 const InteractiveContent: React.FC<{
   content: string;
-  onWordClick: (word: string) => void;
+  onWordClick: (word: string, sentence: string) => void;
 }> = ({ content, onWordClick }) => {
-  const words = content.split(/(\s+)/).filter(Boolean); // Keep whitespace for spacing
+  const words = splitWords(content);
+  // Where each piece starts in the text, to find the sentence around a clicked word.
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const word of words) {
+    offsets.push(offset);
+    offset += word.length;
+  }
 
   return (
     <p style={{ margin: 0 }}>
       {words.map((word, index) => {
         // Only make non-whitespace words clickable
         if (/\S/.test(word)) {
-          const cleanWord = word.replace(/[.,!?;:()"']/g, '');
+          const cleanWord = word.replace(/[.,!?;:()"'。、，！？；：（）「」『』]/g, '');
           if (cleanWord) {
             return (
               <button
                 key={index}
-                onClick={() => onWordClick(cleanWord)}
+                onClick={() => onWordClick(cleanWord, findSentence(content, offsets[index], getOutputLanguage().code))}
                 className="interactive-word"
-                aria-label={`Learn more about ${cleanWord}`}
+                aria-label={t('learnMoreAbout', { name: cleanWord })}
+                {...navTarget('definition')}
               >
                 {word}
               </button>
@@ -2,70 +2,63 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import type { DeepDiveData } from '../services/geminiService';
+import { navTarget } from '../services/keyboardNavigation';
+import { t } from '../services/i18n';
+import { getOutputLanguage } from '../services/settingsService';
+import { findSentence } from '../services/sentences';
 import LoadingSkeleton from './LoadingSkeleton';
 import { ChevronDown } from 'lucide-react';
 
 interface DeepDiveDisplayProps {
   isLoading: boolean;
+  isStreaming: boolean;
   error: string | null;
   data: DeepDiveData | null;
-  onWordClick: (word: string) => void;
+  /** Called with the clicked keyword and the sentence of the summary it appears in. */
+  onWordClick: (word: string, sentence: string) => void;
 }
 
-const DeepDiveDisplay: React.FC<DeepDiveDisplayProps> = ({ isLoading, error, data, onWordClick }) => {
-  const [revealedContent, setRevealedContent] = useState<React.ReactNode[]>([]);
-  const [isRevealingComplete, setIsRevealingComplete] = useState(false);
+const DeepDiveDisplay: React.FC<DeepDiveDisplayProps> = ({ isLoading, isStreaming, error, data, onWordClick }) => {
   const [isAnalysisOpen, setIsAnalysisOpen] = useState(true);
   const [isResourcesOpen, setIsResourcesOpen] = useState(true);
 
   // Parse the summary into an array of words and interactive keywords
   const summaryParts = useMemo(() => {
     if (!data?.summary) return [];
+    let summary = data.summary;
+    // While streaming, hold back a keyword whose closing brackets have not arrived yet.
+    const openKeywordIndex = summary.lastIndexOf('[[');
+    if (isStreaming && openKeywordIndex !== -1 && !summary.includes(']]', openKeywordIndex)) {
+      summary = summary.slice(0, openKeywordIndex);
+    }
     // Split by our keyword markers and also by whitespace, keeping all parts.
-    return data.summary.split(/(\[\[.*?\]\]|\s+|\n+)/g).filter(Boolean);
-  }, [data]);
-
-
-  useEffect(() => {
-    if (summaryParts.length > 0) {
-      setIsRevealingComplete(false);
-      setRevealedContent([]);
-      let index = 0;
-
-      const intervalId = setInterval(() => {
-        if (index < summaryParts.length) {
-          const part = summaryParts[index];
-          const isKeyword = part.startsWith('[[') && part.endsWith(']]');
-          
-          let node: React.ReactNode;
-          if (isKeyword) {
-            const keyword = part.slice(2, -2);
-            node = (
-              <button key={index} className="interactive-word" onClick={() => onWordClick(keyword)}>
-                {keyword}
-              </button>
-            );
-          } else if (part.includes('\n')) {
-             // Handle newlines as paragraphs
-            node = <p key={index}></p>
-          } else {
-            node = <span key={index}>{part}</span>;
-          }
+    return summary.split(/(\[\[.*?\]\]|\s+|\n+)/g).filter(Boolean);
+  }, [data, isStreaming]);
 
-          setRevealedContent(prev => [...prev, node]);
-          index++;
-        } else {
-          clearInterval(intervalId);
-          setIsRevealingComplete(true);
-        }
-      }, 25); // Adjust word reveal speed here
+  // The keyword's sentence, without the brackets around keywords.
+  const getKeywordSentence = (index: number) => {
+    const offset = summaryParts.slice(0, index).join('').length;
+    return findSentence(summaryParts.join(''), offset, getOutputLanguage().code).replace(/\[\[(.*?)\]\]/g, '$1');
+  };
 
-      return () => clearInterval(intervalId);
+  const summaryContent = summaryParts.map((part, index) => {
+    const isKeyword = part.startsWith('[[') && part.endsWith(']]');
+    if (isKeyword) {
+      const keyword = part.slice(2, -2);
+      return (
+        <button key={index} className="interactive-word" onClick={() => onWordClick(keyword, getKeywordSentence(index))} {...navTarget('deepDive')}>
+          {keyword}
+        </button>
+      );
     }
-  }, [summaryParts, onWordClick]);
-
+    if (part.includes('\n')) {
+      // Handle newlines as paragraphs
+      return <p key={index}></p>;
+    }
+    return <span key={index}>{part}</span>;
+  });
 
   if (isLoading) {
     return (
@@ -79,7 +72,7 @@ const DeepDiveDisplay: React.FC<DeepDiveDisplayProps> = ({ isLoading, error, dat
     return (
       <div className="deep-dive-container">
         <div className="error-message">
-          <p>Deep Dive Failed</p>
+          <p>{t('deepDiveFailed')}</p>
           <p>{error}</p>
         </div>
       </div>
@@ -99,26 +92,26 @@ const DeepDiveDisplay: React.FC<DeepDiveDisplayProps> = ({ isLoading, error, dat
           aria-expanded={isAnalysisOpen}
         >
           <ChevronDown size={16} className="deep-dive-heading-indicator" />
-          // COMPREHENSIVE ANALYSIS
+          {t('analysisHeading')}
         </button>
         <div className={`deep-dive-section-content ${!isAnalysisOpen ? 'collapsed' : ''}`}>
           <div className="deep-dive-summary">
             <p>
-              {revealedContent}
-              {!isRevealingComplete && <span className="blinking-cursor">█</span>}
+              {summaryContent}
+              {isStreaming && <span className="blinking-cursor">█</span>}
             </p>
           </div>
         </div>
       </section>
 
-      <section className={`resource-section ${isRevealingComplete ? 'visible' : ''}`} style={{ marginTop: '2rem' }}>
+      <section className={`resource-section ${data.resources.length > 0 ? 'visible' : ''}`} style={{ marginTop: '2rem' }}>
         <button 
           className={`deep-dive-heading ${!isResourcesOpen ? 'collapsed' : ''}`}
           onClick={() => setIsResourcesOpen(!isResourcesOpen)}
           aria-expanded={isResourcesOpen}
         >
           <ChevronDown size={16} className="deep-dive-heading-indicator" />
-           // RECOMMENDED RESOURCES
+          {t('resourcesHeading')}
         </button>
         <div className={`deep-dive-section-content ${!isResourcesOpen ? 'collapsed' : ''}`}>
           <ul className="resource-list" style={{ marginTop: '1rem' }}>
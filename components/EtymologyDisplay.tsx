@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import type { EtymologyData } from '../services/geminiService';
+import { navTarget } from '../services/keyboardNavigation';
+import { t } from '../services/i18n';
+import LoadingSkeleton from './LoadingSkeleton';
+
+interface EtymologyDisplayProps {
+  topic: string;
+  isLoading: boolean;
+  error: string | null;
+  data: EtymologyData | null;
+  /** Requests the etymology; called the first time the section is opened, and to retry. */
+  onRequest: () => void;
+  onMorphemeClick: (morpheme: string) => void;
+}
+
+const canSpeak = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * A collapsible section with the origin and pronunciation of the topic. It starts closed
+ * and only asks for the etymology when opened, since most topics are read without it.
+ */
+const EtymologyDisplay: React.FC<EtymologyDisplayProps> = ({ topic, isLoading, error, data, onRequest, onMorphemeClick }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleToggle = () => {
+    if (!isOpen && !data && !isLoading && !error) {
+      onRequest();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSpeak = () => {
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(topic);
+    utterance.lang = document.documentElement.lang;
+    window.speechSynthesis.speak(utterance);
+  };
+
+  let body: React.ReactNode = null;
+  if (isLoading) {
+    body = <LoadingSkeleton />;
+  } else if (error) {
+    body = (
+      <div className="error-message">
+        <p>{t('etymologyFailed')}</p>
+        <p>{error}</p>
+        <button className="etymology-action" onClick={onRequest}>{t('retry')}</button>
+      </div>
+    );
+  } else if (data) {
+    body = (
+      <div className="etymology">
+        <p className="etymology-pronunciation">
+          {data.ipa && <span className="etymology-ipa">/{data.ipa}/</span>}
+          {canSpeak && (
+            <button className="etymology-action" onClick={handleSpeak} aria-label={t('speakLabel', { name: topic })}>
+              {t('speak')}
+            </button>
+          )}
+        </p>
+        <dl className="etymology-facts">
+          <dt>{t('rootLanguageLabel')}</dt>
+          <dd>{data.rootLanguage}</dd>
+          {data.firstAttested && (
+            <>
+              <dt>{t('firstAttestedLabel')}</dt>
+              <dd>{data.firstAttested}</dd>
+            </>
+          )}
+          {data.morphemes.length > 0 && (
+            <>
+              <dt>{t('morphemesLabel')}</dt>
+              <dd>
+                {data.morphemes.map((morpheme, index) => (
+                  <React.Fragment key={index}>
+                    {index > 0 && ' + '}
+                    <button className="interactive-word" onClick={() => onMorphemeClick(morpheme.form)} {...navTarget('etymology')}>
+                      {morpheme.form}
+                    </button>
+                    {morpheme.meaning && <span className="etymology-gloss"> "{morpheme.meaning}"</span>}
+                    {morpheme.language && <span className="etymology-language"> ({morpheme.language})</span>}
+                  </React.Fragment>
+                ))}
+              </dd>
+            </>
+          )}
+          {data.cognates.length > 0 && (
+            <>
+              <dt>{t('cognatesLabel')}</dt>
+              <dd>
+                {data.cognates.map(cognate => cognate.language ? `${cognate.word} (${cognate.language})` : cognate.word).join(', ')}
+              </dd>
+            </>
+          )}
+        </dl>
+        {data.history && <p className="etymology-history">{data.history}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <section className="etymology-container">
+      <button
+        className={`deep-dive-heading ${!isOpen ? 'collapsed' : ''}`}
+        onClick={handleToggle}
+        aria-expanded={isOpen}
+      >
+        <ChevronDown size={16} className="deep-dive-heading-indicator" />
+        {t('etymologyHeading')}
+      </button>
+      <div className={`deep-dive-section-content ${!isOpen ? 'collapsed' : ''}`}>
+        {body}
+      </div>
+    </section>
+  );
+};
+
+export default EtymologyDisplay;
@@ -3,10 +3,11 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { t } from '../services/i18n';
 
 const LoadingSkeleton: React.FC = () => {
   return (
-    <div aria-label="Loading content..." role="progressbar" className="skeleton-container">
+    <div aria-label={t('loadingLabel')} role="progressbar" className="skeleton-container">
       <div className="skeleton-bar"></div>
       <div className="skeleton-bar"></div>
       <div className="skeleton-bar"></div>
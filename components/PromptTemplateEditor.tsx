@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import * as promptTemplates from '../services/promptTemplates';
+import { downloadFile } from '../services/downloadService';
+import { t } from '../services/i18n';
+import { getPromptTemplateSpec, PROMPT_TEMPLATES, PROMPT_VARIABLES, PromptTemplateId } from '../config/promptTemplates';
+
+/**
+ * The prompt templates section of the settings. Edits are kept as a draft until saved;
+ * saving or resetting a template takes effect from the next request.
+ */
+const PromptTemplateEditor: React.FC = () => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('definition');
+  const [draft, setDraft] = useState(() => promptTemplates.getPromptTemplate('definition'));
+  const [version, setVersion] = useState(() => promptTemplates.getPromptTemplateVersion('definition'));
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const spec = getPromptTemplateSpec(selectedId);
+  const isDirty = draft !== promptTemplates.getPromptTemplate(selectedId);
+  const unknownVariables = promptTemplates.findUnknownVariables(selectedId, draft);
+
+  const load = (id: PromptTemplateId) => {
+    setSelectedId(id);
+    setDraft(promptTemplates.getPromptTemplate(id));
+    setVersion(promptTemplates.getPromptTemplateVersion(id));
+  };
+
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setMessage(null);
+    load(e.target.value as PromptTemplateId);
+  };
+
+  const handleSave = () => {
+    if (!draft.trim()) {
+      setMessage({ text: t('promptEmpty'), isError: true });
+      return;
+    }
+    promptTemplates.savePromptTemplate(selectedId, draft);
+    load(selectedId);
+    setMessage({ text: t('promptSaved', { name: spec.name }), isError: false });
+  };
+
+  const handleReset = () => {
+    promptTemplates.resetPromptTemplate(selectedId);
+    load(selectedId);
+    setMessage({ text: t('promptRestored', { name: spec.name }), isError: false });
+  };
+
+  const handleExport = () => {
+    downloadFile('lexicon-nexus-prompts.json', promptTemplates.exportPromptTemplates(), 'application/json');
+  };
+
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const importFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!importFile) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const imported = promptTemplates.importPromptTemplates(reader.result as string);
+        load(selectedId);
+        setMessage({
+          text: imported.length > 0
+            ? t('promptsImported', { names: imported.map(id => getPromptTemplateSpec(id).name).join(', ') })
+            : t('promptsNoneImported'),
+          isError: false,
+        });
+      } catch (error) {
+        setMessage({ text: error instanceof Error ? error.message : t('promptFileUnreadable'), isError: true });
+      }
+    };
+    reader.readAsText(importFile);
+  };
+
+  return (
+    <div className="settings-section">
+      <h3 className="settings-section-title">{t('promptTemplatesSection')}</h3>
+      <div className="setting-item">
+        <label htmlFor="prompt-template-select" className="setting-label">
+          {t('promptLabel')}
+          <span className="setting-description">
+            {spec.description} {version > 0 ? t('promptEdited', { version }) : t('promptDefault')}
+          </span>
+        </label>
+        <select
+          id="prompt-template-select"
+          className="settings-select"
+          value={selectedId}
+          onChange={handleSelect}
+        >
+          {PROMPT_TEMPLATES.map(template => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        className="prompt-template-textarea"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        spellCheck={false}
+        rows={10}
+        aria-label={t('promptTemplateLabel', { name: spec.name })}
+      />
+      <ul className="prompt-template-variables">
+        {spec.variables.map(variable => (
+          <li key={variable}><code>{`{{${variable}}}`}</code> {PROMPT_VARIABLES[variable]}</li>
+        ))}
+      </ul>
+      {unknownVariables.length > 0 && (
+        <p className="error-message-inline">
+          {t('promptUnknownVariables', { names: unknownVariables.map(name => `{{${name}}}`).join(', ') })}
+        </p>
+      )}
+      <div className="setting-item">
+        <div className="settings-button-group">
+          <button className="settings-button" onClick={handleSave} disabled={!isDirty}>
+              {t('promptSave')}
+          </button>
+          <button className="settings-button" onClick={handleReset} disabled={version === 0}>
+              {t('promptReset')}
+          </button>
+        </div>
+        <div className="settings-button-group">
+          <input
+            type="file"
+            ref={importInputRef}
+            onChange={handleImportFileChange}
+            style={{ display: 'none' }}
+            accept=".json,application/json"
+          />
+          <button className="settings-button" onClick={() => importInputRef.current?.click()}>
+              {t('promptImport')}
+          </button>
+          <button className="settings-button" onClick={handleExport}>
+              {t('promptExport')}
+          </button>
+        </div>
+      </div>
+      {message && (
+        <p className={message.isError ? 'error-message-inline' : 'setting-description'}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
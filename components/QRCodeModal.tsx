@@ -5,6 +5,7 @@
 import React, { useEffect, useRef } from 'react';
 import QRCode from 'qrcode';
 import { X } from 'lucide-react';
+import { t } from '../services/i18n';
 
 interface QRCodeModalProps {
   url: string;
@@ -37,11 +38,11 @@ const QRCodeModal: React.FC<QRCodeModalProps> = ({ url, isOpen, onClose }) => {
   return (
     <div className="qr-modal-overlay" onClick={onClose} role="dialog" aria-modal="true">
       <div className="qr-modal-content" onClick={(e) => e.stopPropagation()}>
-        <button onClick={onClose} className="qr-modal-close-button" aria-label="Close QR code modal">
+        <button onClick={onClose} className="qr-modal-close-button" aria-label={t('qrCloseLabel')}>
           <X size={24} />
         </button>
         <canvas ref={canvasRef}></canvas>
-        <p className="qr-modal-text">Scan to visit on GitHub</p>
+        <p className="qr-modal-text">{t('qrScanText')}</p>
       </div>
     </div>
   );
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { getSchedulerState, SchedulerState, subscribeToScheduler } from '../services/requestScheduler';
+import { t } from '../services/i18n';
+
+/**
+ * A live footer readout of the request scheduler: requests in flight, requests waiting,
+ * and the countdown while a rate limit holds the queue. Hidden while the queue is idle.
+ */
+const QueueIndicator: React.FC = () => {
+  const [state, setState] = useState<SchedulerState>(() => getSchedulerState());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => subscribeToScheduler(setState), []);
+
+  // Tick once a second while paused so the countdown stays current.
+  useEffect(() => {
+    if (!state.pausedUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      setState(getSchedulerState());
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [state.pausedUntil]);
+
+  if (state.active === 0 && state.queued === 0 && !state.pausedUntil) {
+    return null;
+  }
+
+  const secondsLeft = state.pausedUntil ? Math.max(0, Math.ceil((state.pausedUntil - now) / 1000)) : 0;
+  return (
+    <span className="queue-indicator" aria-live="polite">
+      [{t('queueStatus', { active: state.active, queued: state.queued })}
+      {secondsLeft > 0 && <span className="queue-indicator-paused"> · {t('queuePaused', { seconds: secondsLeft })}</span>}]
+    </span>
+  );
+};
+
+export default QueueIndicator;
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { Grade } from '../services/spacedRepetition';
+import type { StudyCard } from '../services/studyService';
+import { t } from '../services/i18n';
+import type { MessageKey } from '../config/messages';
+
+interface ReviewDisplayProps {
+  dueCards: StudyCard[];
+  totalCount: number;
+  nextDueAt: number | null;
+  quizTopicCount: number; // Topics without multiple-choice cards yet.
+  isQuizLoading: boolean;
+  quizError: string | null;
+  onGrade: (id: string, grade: Grade) => void;
+  onGenerateQuiz: () => void;
+  onExport: () => void;
+  /** Leaves review mode and explores a card's topic. */
+  onTopicClick: (topic: string) => void;
+  onExit: () => void;
+}
+
+const CARD_KIND_LABELS: Record<StudyCard['kind'], MessageKey> = {
+  termToDefinition: 'cardKindTermToDefinition',
+  definitionToTerm: 'cardKindDefinitionToTerm',
+  multipleChoice: 'cardKindMultipleChoice',
+};
+
+const GRADES: { grade: Grade; label: MessageKey }[] = [
+  { grade: 1, label: 'gradeAgain' },
+  { grade: 3, label: 'gradeHard' },
+  { grade: 4, label: 'gradeGood' },
+  { grade: 5, label: 'gradeEasy' },
+];
+
+/**
+ * One card under review. Flashcards are graded by hand once the answer is shown;
+ * multiple-choice cards grade themselves, Good if the right option was picked and Again if not.
+ */
+const ReviewCard: React.FC<{
+  card: StudyCard;
+  onGrade: (grade: Grade) => void;
+  onTopicClick: (topic: string) => void;
+}> = ({ card, onGrade, onTopicClick }) => {
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [chosenOption, setChosenOption] = useState<string | null>(null);
+  const isCorrect = chosenOption === card.back;
+
+  const handleChoose = (option: string) => {
+    setChosenOption(option);
+    setIsRevealed(true);
+  };
+
+  return (
+    <div className="review-card">
+      <p className="review-card-kind">[{t(CARD_KIND_LABELS[card.kind])}]</p>
+      <p className="review-card-front">{card.front}</p>
+      {card.options && (
+        <div className="review-options">
+          {card.options.map((option, index) => (
+            <button
+              key={index}
+              className={`related-concept-item review-option ${isRevealed && option === card.back ? 'correct' : ''} ${option === chosenOption && !isCorrect ? 'incorrect' : ''}`}
+              onClick={() => handleChoose(option)}
+              disabled={isRevealed}
+            >
+              {String.fromCharCode(65 + index)}. {option}
+            </button>
+          ))}
+        </div>
+      )}
+      {isRevealed ? (
+        <>
+          {card.options ? (
+            <p>{isCorrect ? t('answerCorrect') : t('answerIncorrect', { answer: card.back })}</p>
+          ) : (
+            <p className="review-card-back">{card.back}</p>
+          )}
+          <div className="review-actions">
+            {card.options ? (
+              <button className="etymology-action" onClick={() => onGrade(isCorrect ? 4 : 1)}>{t('nextCard')}</button>
+            ) : (
+              GRADES.map(({ grade, label }) => (
+                <button key={grade} className="etymology-action" onClick={() => onGrade(grade)}>{t(label)}</button>
+              ))
+            )}
+            <button className="interactive-word" onClick={() => onTopicClick(card.topic)}>{t('exploreTopic', { name: card.topic })}</button>
+          </div>
+        </>
+      ) : !card.options && (
+        <div className="review-actions">
+          <button className="etymology-action" onClick={() => setIsRevealed(true)}>{t('showAnswer')}</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The review mode: the due cards one at a time, with the deck's tools below.
+ */
+const ReviewDisplay: React.FC<ReviewDisplayProps> = ({
+  dueCards,
+  totalCount,
+  nextDueAt,
+  quizTopicCount,
+  isQuizLoading,
+  quizError,
+  onGrade,
+  onGenerateQuiz,
+  onExport,
+  onTopicClick,
+  onExit,
+}) => {
+  const card = dueCards[0];
+
+  let body: React.ReactNode;
+  if (card) {
+    body = <ReviewCard key={card.id} card={card} onGrade={grade => onGrade(card.id, grade)} onTopicClick={onTopicClick} />;
+  } else if (totalCount === 0) {
+    body = <p>{t('reviewEmpty')}</p>;
+  } else {
+    body = <p>{nextDueAt ? t('reviewDone', { date: new Date(nextDueAt).toLocaleString() }) : t('reviewEmpty')}</p>;
+  }
+
+  return (
+    <section className="review-container">
+      <h2 className="topic-title">
+        <span className="topic-title-prefix">{t('reviewHeading')}</span>
+        <span className="definition-style-tag">[{t('reviewCounts', { due: dueCards.length, total: totalCount })}]</span>
+      </h2>
+      {body}
+      {quizError && <p className="error-message-inline">{quizError}</p>}
+      <div className="review-tools">
+        <button className="etymology-action" onClick={onGenerateQuiz} disabled={isQuizLoading || quizTopicCount === 0}>
+          {isQuizLoading ? t('generatingQuiz') : t('generateQuiz', { count: quizTopicCount })}
+        </button>
+        <button className="etymology-action" onClick={onExport} disabled={totalCount === 0}>{t('exportAnki')}</button>
+        <button className="etymology-action" onClick={onExit}>{t('exitReview')}</button>
+      </div>
+    </section>
+  );
+};
+
+export default ReviewDisplay;
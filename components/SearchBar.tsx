@@ -3,7 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useRef } from 'react';
-import { Search, Shuffle, FileUp, X, Settings } from 'lucide-react';
+import { Search, Shuffle, FileUp, X, Settings, GraduationCap } from 'lucide-react';
+import { t } from '../services/i18n';
+import { DEFINITION_STYLES } from '../config/definitionStyles';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
@@ -13,7 +15,11 @@ interface SearchBarProps {
   onClearFile: () => void;
   uploadedFile: { name: string } | null;
   onSettingsClick: () => void;
+  onReviewClick: () => void;
+  reviewDueCount: number;
   isApiConfigured: boolean;
+  definitionStyleId: string;
+  onDefinitionStyleChange: (styleId: string) => void;
 }
 
 const SearchBar: React.FC<SearchBarProps> = ({ 
@@ -24,7 +30,11 @@ const SearchBar: React.FC<SearchBarProps> = ({
   onClearFile, 
   uploadedFile,
   onSettingsClick,
+  onReviewClick,
+  reviewDueCount,
   isApiConfigured,
+  definitionStyleId,
+  onDefinitionStyleChange,
 }) => {
   const [query, setQuery] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -59,7 +69,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
       {uploadedFile && (
         <div className="file-display-container">
           <span>{uploadedFile.name}</span>
-          <button onClick={onClearFile} aria-label={`Remove file ${uploadedFile.name}`}>
+          <button onClick={onClearFile} aria-label={t('removeFileLabel', { name: uploadedFile.name })}>
             <X size={16} />
           </button>
         </div>
@@ -78,22 +88,38 @@ const SearchBar: React.FC<SearchBarProps> = ({
             type="text"
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            placeholder={!isApiConfigured ? "API Key required..." : (uploadedFile ? `Ask about ${uploadedFile.name}...` : "Enter a concept...")}
+            placeholder={!isApiConfigured ? t('searchPlaceholderNoKey') : (uploadedFile ? t('searchPlaceholderFile', { name: uploadedFile.name }) : t('searchPlaceholder'))}
+            id="search-input"
             className="search-input"
-            aria-label="Search for a topic or ask a question about the uploaded file"
+            aria-label={t('searchInputLabel')}
             disabled={isUiDisabled}
           />
-          <button type="submit" className="search-submit-button" aria-label="Search" disabled={isUiDisabled}>
+          <button type="submit" className="search-submit-button" aria-label={t('searchLabel')} disabled={isUiDisabled}>
             <Search size={20} />
           </button>
         </form>
-        <button onClick={onSettingsClick} className="upload-button" disabled={isLoading} aria-label="Open settings">
+        <select
+          className="definition-style-select"
+          value={definitionStyleId}
+          onChange={(e) => onDefinitionStyleChange(e.target.value)}
+          disabled={isUiDisabled || !!uploadedFile}
+          aria-label={t('definitionStyleLabel')}
+        >
+          {DEFINITION_STYLES.map(style => (
+            <option key={style.id} value={style.id}>{style.name}</option>
+          ))}
+        </select>
+        <button onClick={onSettingsClick} className="upload-button" disabled={isLoading} aria-label={t('openSettingsLabel')}>
           <Settings size={20} />
         </button>
-        <button onClick={handleUploadClick} className="upload-button" disabled={isUiDisabled} aria-label="Upload a file">
+        <button onClick={onReviewClick} className="upload-button review-button" disabled={!isApiConfigured} aria-label={t('openReviewLabel')}>
+          <GraduationCap size={20} />
+          {reviewDueCount > 0 && <span className="review-due-count">{reviewDueCount}</span>}
+        </button>
+        <button onClick={handleUploadClick} className="upload-button" disabled={isUiDisabled} aria-label={t('uploadFileLabel')}>
           <FileUp size={20} />
         </button>
-        <button onClick={onRandom} className="random-button" disabled={isUiDisabled || !!uploadedFile} aria-label="Get a random topic">
+        <button onClick={onRandom} className="random-button" disabled={isUiDisabled || !!uploadedFile} aria-label={t('randomTopicLabel')}>
           <Shuffle size={20} />
         </button>
       </div>
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { TopicSense } from '../services/geminiService';
+import { t } from '../services/i18n';
+
+interface SensePickerProps {
+  topic: string;
+  senses: TopicSense[];
+  /** Opens the topic in the chosen sense, or in its general sense for null. */
+  onChoose: (sense: TopicSense | null) => void;
+  onCancel: () => void;
+}
+
+/**
+ * A numbered list of the senses of an ambiguous search. The number keys pick a sense.
+ */
+const SensePicker: React.FC<SensePickerProps> = ({ topic, senses, onChoose, onCancel }) => {
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const index = Number(event.key) - 1;
+    if (Number.isInteger(index) && senses[index]) {
+      event.preventDefault();
+      onChoose(senses[index]);
+    }
+  };
+
+  return (
+    <section className="sense-picker" onKeyDown={handleKeyDown}>
+      <h2 className="topic-title">
+        <span className="topic-title-prefix">{t('whichSensePrefix')}</span>{topic}
+      </h2>
+      <ol className="sense-list">
+        {senses.map((sense, index) => (
+          <li key={index}>
+            <button className="sense-option" onClick={() => onChoose(sense)} autoFocus={index === 0}>
+              <span className="sense-number">[{index + 1}]</span>
+              <span className="sense-label">{sense.label}</span>
+              <span className="sense-gloss">{sense.gloss}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+      <div className="sense-actions">
+        <button className="etymology-action" onClick={() => onChoose(null)}>{t('anySense')}</button>
+        <button className="etymology-action" onClick={onCancel}>{t('cancelSearch')}</button>
+      </div>
+    </section>
+  );
+};
+
+export default SensePicker;
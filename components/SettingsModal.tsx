@@ -2,11 +2,28 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { X } from 'lucide-react';
 import * as settingsService from '../services/settingsService';
 import * as cacheService from '../services/cacheService';
-import { MODELS, DEFAULT_MODEL_ID } from '../config/models';
+import * as requestScheduler from '../services/requestScheduler';
+import * as usageService from '../services/usageService';
+import { downloadFile } from '../services/downloadService';
+import { t } from '../services/i18n';
+import { countFixtureEntries, isReplayFixture } from '../services/providers/fixture';
+import { clearRecordedFixture, getRecordedFixture } from '../services/providers/fixtureRecorder';
+import { getLoadedFixture, setLoadedFixture } from '../services/providers/fixtureStore';
+import { PROVIDERS, getDefaultModelId, getModelsForProvider } from '../config/models';
+import { DEFAULT_ART_FPS } from '../config/artPalette';
+import { LANGUAGES } from '../config/languages';
+import { DEFINITION_LENGTHS, DEFINITION_STYLES } from '../config/definitionStyles';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import type { TokenUsage } from '../services/types';
+
+// Budget choices in US dollars; zero disables the budget.
+const BUDGET_OPTIONS = [0, 0.05, 0.1, 0.5, 1, 5];
+
+const totalTokens = (usage: TokenUsage) => usage.promptTokens + usage.outputTokens + usage.thinkingTokens;
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -17,8 +34,26 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
   const [isHighQualityArt, setIsHighQualityArt] = useState(() => 
     settingsService.getSetting<boolean>('highQualityArt', true)
   );
+  const [isAnimatedArt, setIsAnimatedArt] = useState(() =>
+    settingsService.isAnimatedArtEnabled()
+  );
+  const [artFps, setArtFps] = useState(() =>
+    settingsService.getSetting<number>('animatedArtFps', DEFAULT_ART_FPS)
+  );
+  const [outputLanguage, setOutputLanguage] = useState(() =>
+    settingsService.getOutputLanguage().code
+  );
+  const [definitionStyle, setDefinitionStyle] = useState(() =>
+    settingsService.getActiveDefinitionStyle().id
+  );
+  const [definitionLength, setDefinitionLength] = useState(() =>
+    settingsService.getActiveDefinitionLength().id
+  );
+  const [selectedProvider, setSelectedProvider] = useState(() =>
+    settingsService.getActiveProviderId()
+  );
   const [selectedModel, setSelectedModel] = useState(() =>
-    settingsService.getSetting<string>('apiModel', DEFAULT_MODEL_ID)
+    settingsService.getSetting<string>('apiModel', getDefaultModelId(settingsService.getActiveProviderId()))
   );
   const [customModelName, setCustomModelName] = useState(() =>
     settingsService.getSetting<string>('customApiModel', '')
@@ -26,45 +61,240 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
   const [customApiKey, setCustomApiKey] = useState(() =>
     settingsService.getSetting<string>('customApiKey', '')
   );
-  const [clearCacheText, setClearCacheText] = useState('Clear Session Cache');
+  const [openAiBaseUrl, setOpenAiBaseUrl] = useState(() =>
+    settingsService.getSetting<string>('openAiBaseUrl', '')
+  );
+  const [openAiApiKey, setOpenAiApiKey] = useState(() =>
+    settingsService.getSetting<string>('openAiApiKey', '')
+  );
+  const [isCacheCleared, setIsCacheCleared] = useState(false);
+  const [cacheStats, setCacheStats] = useState(() => cacheService.getStats());
+  const [cacheBudgetMb, setCacheBudgetMb] = useState(() =>
+    settingsService.getSetting<number>('cacheBudgetMb', cacheService.DEFAULT_BUDGET_MB)
+  );
+  const [cacheTtlDays, setCacheTtlDays] = useState(() =>
+    settingsService.getSetting<number>('cacheTtlDays', cacheService.DEFAULT_TTL_DAYS)
+  );
+  const [requestsPerMinute, setRequestsPerMinute] = useState(() =>
+    settingsService.getSetting<number>('requestsPerMinute', requestScheduler.DEFAULT_REQUESTS_PER_MINUTE)
+  );
+  const [maxConcurrentRequests, setMaxConcurrentRequests] = useState(() =>
+    settingsService.getSetting<number>('maxConcurrentRequests', requestScheduler.DEFAULT_MAX_CONCURRENT_REQUESTS)
+  );
+  const [sessionUsage, setSessionUsage] = useState(() => usageService.getSessionUsage());
+  const [softBudgetUsd, setSoftBudgetUsd] = useState(() => usageService.getBudgets().softUsd);
+  const [hardBudgetUsd, setHardBudgetUsd] = useState(() => usageService.getBudgets().hardUsd);
+  const [isRecording, setIsRecording] = useState(() =>
+    settingsService.getSetting<boolean>('recordFixtures', false)
+  );
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [loadedFixtureCount, setLoadedFixtureCount] = useState<number | null>(() => {
+    const loaded = getLoadedFixture();
+    return loaded ? countFixtureEntries(loaded) : null;
+  });
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+  const [rateLimitRate, setRateLimitRate] = useState(() =>
+    settingsService.getSetting<number>('replayRateLimitRate', 0)
+  );
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setRecordedCount(countFixtureEntries(getRecordedFixture()));
+      setCacheStats(cacheService.getStats());
+      setSessionUsage(usageService.getSessionUsage());
+    }
+  }, [isOpen]);
 
   const handleToggleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const isChecked = e.target.checked;
     setIsHighQualityArt(isChecked);
     settingsService.setSetting('highQualityArt', isChecked);
   };
+
+  const handleAnimatedArtToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const isChecked = e.target.checked;
+    setIsAnimatedArt(isChecked);
+    settingsService.setSetting('animatedArt', isChecked);
+  };
+
+  const handleArtFpsChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newFps = Number(e.target.value);
+    setArtFps(newFps);
+    settingsService.setSetting('animatedArtFps', newFps);
+  };
   
+  // Cached content stays valid: cache keys include the language.
+  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newLanguage = e.target.value;
+    setOutputLanguage(newLanguage);
+    settingsService.setSetting('outputLanguage', newLanguage);
+  };
+
+  const handleDefinitionStyleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newStyle = e.target.value;
+    setDefinitionStyle(newStyle);
+    settingsService.setSetting('definitionStyle', newStyle);
+  };
+
+  const handleDefinitionLengthChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newLength = e.target.value;
+    setDefinitionLength(newLength);
+    settingsService.setSetting('definitionLength', newLength);
+  };
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newProviderId = e.target.value;
+    const newModelId = getDefaultModelId(newProviderId);
+    setSelectedProvider(newProviderId);
+    setSelectedModel(newModelId);
+    settingsService.setSetting('apiProvider', newProviderId);
+    settingsService.setSetting('apiModel', newModelId);
+  };
+
+  const handleOpenAiBaseUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newUrl = e.target.value;
+    setOpenAiBaseUrl(newUrl);
+    settingsService.setSetting('openAiBaseUrl', newUrl);
+  };
+
+  const handleOpenAiApiKeyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newKey = e.target.value;
+    setOpenAiApiKey(newKey);
+    settingsService.setSetting('openAiApiKey', newKey);
+  };
+
   const handleModelChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newModelId = e.target.value;
     setSelectedModel(newModelId);
     settingsService.setSetting('apiModel', newModelId);
-    cacheService.clearAll();
   };
 
   const handleCustomModelNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newName = e.target.value;
     setCustomModelName(newName);
     settingsService.setSetting('customApiModel', newName);
-    if (newName.trim()) {
-        cacheService.clearAll();
-    }
   };
 
   const handleApiKeyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newKey = e.target.value;
     setCustomApiKey(newKey);
     settingsService.setSetting('customApiKey', newKey);
-    // Clear the cache as the new key might have different access or produce different results.
+  };
+
+  const handleRecordingToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const isChecked = e.target.checked;
+    setIsRecording(isChecked);
+    settingsService.setSetting('recordFixtures', isChecked);
+    // Cached responses would bypass the provider and never be recorded.
+    if (isChecked) {
+      cacheService.clearAll();
+    }
+  };
+
+  const handleDownloadRecording = () => {
+    downloadFile('lexicon-nexus-fixture.json', JSON.stringify(getRecordedFixture(), null, 2), 'application/json');
+  };
+
+  const handleClearRecording = () => {
+    clearRecordedFixture();
+    setRecordedCount(0);
+  };
+
+  const handleFixtureFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fixtureFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!fixtureFile) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const parsed: unknown = JSON.parse(reader.result as string);
+        if (!isReplayFixture(parsed)) {
+          throw new Error(t('fixtureInvalid'));
+        }
+        setLoadedFixture(parsed).catch(error => {
+          console.error('Error saving the replay fixture:', error);
+        });
+        setLoadedFixtureCount(countFixtureEntries(parsed));
+        setFixtureError(null);
+        cacheService.clearAll();
+      } catch (error) {
+        setFixtureError(error instanceof Error ? error.message : t('fixtureUnreadable'));
+      }
+    };
+    reader.readAsText(fixtureFile);
+  };
+
+  const handleResetFixture = () => {
+    setLoadedFixture(null).catch(error => {
+      console.error('Error removing the replay fixture:', error);
+    });
+    setLoadedFixtureCount(null);
+    setFixtureError(null);
     cacheService.clearAll();
   };
 
+  const handleRateLimitRateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newRate = Number(e.target.value);
+    setRateLimitRate(newRate);
+    settingsService.setSetting('replayRateLimitRate', newRate);
+  };
+
+  const handleRequestsPerMinuteChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newLimit = Number(e.target.value);
+    setRequestsPerMinute(newLimit);
+    settingsService.setSetting('requestsPerMinute', newLimit);
+  };
+
+  const handleMaxConcurrentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newLimit = Number(e.target.value);
+    setMaxConcurrentRequests(newLimit);
+    settingsService.setSetting('maxConcurrentRequests', newLimit);
+  };
+
+  const handleSoftBudgetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newBudget = Number(e.target.value);
+    setSoftBudgetUsd(newBudget);
+    settingsService.setSetting('softBudgetUsd', newBudget);
+  };
+
+  const handleHardBudgetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newBudget = Number(e.target.value);
+    setHardBudgetUsd(newBudget);
+    settingsService.setSetting('hardBudgetUsd', newBudget);
+  };
+
+  const handleResetUsage = () => {
+    usageService.resetSessionUsage();
+    setSessionUsage(usageService.getSessionUsage());
+  };
+
+  const handleCacheBudgetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newBudget = Number(e.target.value);
+    setCacheBudgetMb(newBudget);
+    settingsService.setSetting('cacheBudgetMb', newBudget);
+    cacheService.enforceBudget();
+    setCacheStats(cacheService.getStats());
+  };
+
+  const handleCacheTtlChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newTtl = Number(e.target.value);
+    setCacheTtlDays(newTtl);
+    settingsService.setSetting('cacheTtlDays', newTtl);
+  };
+
   const handleClearCache = () => {
     cacheService.clearAll();
-    setClearCacheText('Cache Cleared!');
+    setCacheStats(cacheService.getStats());
+    setIsCacheCleared(true);
     setTimeout(() => {
-      setClearCacheText('Clear Session Cache');
+      setIsCacheCleared(false);
     }, 2000);
   };
+
+  const lookups = cacheStats.hits + cacheStats.misses;
+  const hitRate = lookups > 0 ? Math.round((cacheStats.hits / lookups) * 100) : 0;
   
   if (!isOpen) {
     return null;
@@ -73,17 +303,40 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
   return (
     <div className="settings-modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="settings-title">
       <div className="settings-modal-content" onClick={(e) => e.stopPropagation()}>
-        <button onClick={onClose} className="settings-modal-close-button" aria-label="Close settings modal">
+        <button onClick={onClose} className="settings-modal-close-button" aria-label={t('settingsCloseLabel')}>
           <X size={24} />
         </button>
-        <h2 id="settings-title" className="settings-title">// SYSTEM_SETTINGS</h2>
+        <h2 id="settings-title" className="settings-title">{t('settingsTitle')}</h2>
 
         <div className="settings-section">
-            <h3 className="settings-section-title">// API Key</h3>
+            <h3 className="settings-section-title">{t('providerSection')}</h3>
+            <div className="radio-group" role="radiogroup">
+              {PROVIDERS.map((provider) => (
+                <label key={provider.id} className="radio-item">
+                  <input
+                    type="radio"
+                    name="api-provider"
+                    value={provider.id}
+                    checked={selectedProvider === provider.id}
+                    onChange={handleProviderChange}
+                  />
+                   <span className="radio-custom" aria-hidden="true"></span>
+                   <div className="setting-label">
+                     {provider.name}
+                     <span className="setting-description">{provider.description}</span>
+                   </div>
+                </label>
+              ))}
+            </div>
+        </div>
+
+        {selectedProvider === 'gemini' && (
+        <div className="settings-section">
+            <h3 className="settings-section-title">{t('apiKeySection')}</h3>
             <div className="setting-item">
                 <label htmlFor="api-key-input" className="setting-label">
-                Custom Gemini API Key
-                <span className="setting-description">Overrides the default key. Stored in your browser.</span>
+                {t('geminiKeyLabel')}
+                <span className="setting-description">{t('geminiKeyDescription')}</span>
                 </label>
             </div>
             <div className="api-key-input-container">
@@ -91,18 +344,59 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                     id="api-key-input"
                     type="password"
                     className="api-key-input"
-                    placeholder="Enter optional Gemini API key..."
+                    placeholder={t('geminiKeyPlaceholder')}
                     value={customApiKey}
                     onChange={handleApiKeyChange}
-                    aria-label="Custom Gemini API Key"
+                    aria-label={t('geminiKeyLabel')}
+                />
+            </div>
+        </div>
+        )}
+
+        {selectedProvider === 'openai' && (
+        <div className="settings-section">
+            <h3 className="settings-section-title">{t('endpointSection')}</h3>
+            <div className="setting-item">
+                <label htmlFor="openai-base-url-input" className="setting-label">
+                {t('baseUrlLabel')}
+                <span className="setting-description">{t('baseUrlDescription')}</span>
+                </label>
+            </div>
+            <div className="api-key-input-container">
+                <input
+                    id="openai-base-url-input"
+                    type="text"
+                    className="api-key-input"
+                    placeholder="http://localhost:11434/v1"
+                    value={openAiBaseUrl}
+                    onChange={handleOpenAiBaseUrlChange}
+                    aria-label={t('baseUrlInputLabel')}
+                />
+            </div>
+            <div className="setting-item" style={{ marginTop: '1rem' }}>
+                <label htmlFor="openai-api-key-input" className="setting-label">
+                {t('openAiKeyLabel')}
+                <span className="setting-description">{t('openAiKeyDescription')}</span>
+                </label>
+            </div>
+            <div className="api-key-input-container">
+                <input
+                    id="openai-api-key-input"
+                    type="password"
+                    className="api-key-input"
+                    placeholder={t('openAiKeyPlaceholder')}
+                    value={openAiApiKey}
+                    onChange={handleOpenAiApiKeyChange}
+                    aria-label={t('openAiKeyInputLabel')}
                 />
             </div>
         </div>
-        
+        )}
+
         <div className="settings-section">
-            <h3 className="settings-section-title">// AI Model</h3>
+            <h3 className="settings-section-title">{t('modelSection')}</h3>
             <div className="radio-group" role="radiogroup">
-              {MODELS.map((model) => (
+              {getModelsForProvider(selectedProvider).map((model) => (
                 <label key={model.id} className="radio-item">
                   <input
                     type="radio"
@@ -121,10 +415,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                        <input
                          type="text"
                          className="custom-model-input"
-                         placeholder="e.g., gemini-2.5-pro-preview-09-2025"
+                         placeholder={t('customModelPlaceholder', { example: selectedProvider === 'gemini' ? 'gemini-2.5-pro-preview-09-2025' : 'qwen2.5:7b' })}
                          value={customModelName}
                          onChange={handleCustomModelNameChange}
-                         aria-label="Custom model name"
+                         aria-label={t('customModelLabel')}
                        />
                      </div>
                    )}
@@ -134,11 +428,67 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
         </div>
 
         <div className="settings-section">
-          <h3 className="settings-section-title">// Generation</h3>
+          <h3 className="settings-section-title">{t('languageSection')}</h3>
+          <div className="setting-item">
+            <label htmlFor="output-language-select" className="setting-label">
+              {t('languageLabel')}
+              <span className="setting-description">{t('languageDescription')}</span>
+            </label>
+            <select
+              id="output-language-select"
+              className="settings-select"
+              value={outputLanguage}
+              onChange={handleLanguageChange}
+            >
+              {LANGUAGES.map(language => (
+                <option key={language.code} value={language.code} lang={language.code}>{language.nativeName}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="settings-section">
+          <h3 className="settings-section-title">{t('definitionsSection')}</h3>
+          <div className="setting-item">
+            <label htmlFor="definition-style-select" className="setting-label">
+              {t('definitionStyleSetting')}
+              <span className="setting-description">{t('definitionStyleDescription')}</span>
+            </label>
+            <select
+              id="definition-style-select"
+              className="settings-select"
+              value={definitionStyle}
+              onChange={handleDefinitionStyleChange}
+            >
+              {DEFINITION_STYLES.map(style => (
+                <option key={style.id} value={style.id}>{style.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="setting-item">
+            <label htmlFor="definition-length-select" className="setting-label">
+              {t('definitionLengthSetting')}
+              <span className="setting-description">{t('definitionLengthDescription')}</span>
+            </label>
+            <select
+              id="definition-length-select"
+              className="settings-select"
+              value={definitionLength}
+              onChange={handleDefinitionLengthChange}
+            >
+              {DEFINITION_LENGTHS.map(length => (
+                <option key={length.id} value={length.id}>{length.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="settings-section">
+          <h3 className="settings-section-title">{t('generationSection')}</h3>
           <div className="setting-item">
             <label htmlFor="hq-art-toggle" className="setting-label">
-              High-Quality ASCII Art (Slower)
-              <span className="setting-description">Allows the AI to "think" for more creative results.</span>
+              {t('hqArtLabel')}
+              <span className="setting-description">{t('hqArtDescription')}</span>
             </label>
             <label className="toggle-switch">
               <input 
@@ -150,19 +500,276 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
               <span className="slider"></span>
             </label>
           </div>
+          <div className="setting-item">
+            <label htmlFor="animated-art-toggle" className="setting-label">
+              {t('animatedArtSetting')}
+              <span className="setting-description">{t('animatedArtDescription')}</span>
+            </label>
+            <label className="toggle-switch">
+              <input
+                id="animated-art-toggle"
+                type="checkbox"
+                checked={isAnimatedArt}
+                onChange={handleAnimatedArtToggle}
+              />
+              <span className="slider"></span>
+            </label>
+          </div>
+          {isAnimatedArt && (
+            <div className="setting-item">
+              <label htmlFor="art-fps-select" className="setting-label">
+                {t('artSpeedLabel')}
+                <span className="setting-description">{t('artSpeedDescription')}</span>
+              </label>
+              <select
+                id="art-fps-select"
+                className="settings-select"
+                value={artFps}
+                onChange={handleArtFpsChange}
+              >
+                <option value={2}>{t('artFps', { fps: 2 })}</option>
+                <option value={4}>{t('artFps', { fps: 4 })}</option>
+                <option value={8}>{t('artFps', { fps: 8 })}</option>
+                <option value={12}>{t('artFps', { fps: 12 })}</option>
+              </select>
+            </div>
+          )}
+        </div>
+
+        <PromptTemplateEditor />
+
+        <div className="settings-section">
+          <h3 className="settings-section-title">{t('rateLimitsSection')}</h3>
+          <div className="setting-item">
+            <label htmlFor="rpm-select" className="setting-label">
+              {t('rpmLabel')}
+              <span className="setting-description">{t('rpmDescription')}</span>
+            </label>
+            <select
+              id="rpm-select"
+              className="settings-select"
+              value={requestsPerMinute}
+              onChange={handleRequestsPerMinuteChange}
+            >
+              <option value={5}>5</option>
+              <option value={10}>10</option>
+              <option value={15}>15</option>
+              <option value={30}>30</option>
+              <option value={60}>60</option>
+              <option value={1000}>{t('unlimited')}</option>
+            </select>
+          </div>
+          <div className="setting-item">
+            <label htmlFor="concurrency-select" className="setting-label">
+              {t('concurrencyLabel')}
+              <span className="setting-description">{t('concurrencyDescription')}</span>
+            </label>
+            <select
+              id="concurrency-select"
+              className="settings-select"
+              value={maxConcurrentRequests}
+              onChange={handleMaxConcurrentChange}
+            >
+              <option value={1}>1</option>
+              <option value={2}>2</option>
+              <option value={3}>3</option>
+              <option value={5}>5</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="settings-section">
+          <h3 className="settings-section-title">{t('usageSection')}</h3>
+          <div className="setting-item">
+            <label className="setting-label">
+              {t(sessionUsage.hasUnpricedUsage ? 'sessionCostAtLeast' : 'sessionCost', { cost: usageService.formatCost(sessionUsage.costUsd) })}
+              <span className="setting-description">
+                {t('sessionUsageBreakdown', {
+                  requests: sessionUsage.requestCount,
+                  definition: totalTokens(sessionUsage.byKind.definition).toLocaleString(),
+                  ancillary: totalTokens(sessionUsage.byKind.ancillary).toLocaleString(),
+                  deepDive: totalTokens(sessionUsage.byKind.deepDive).toLocaleString(),
+                  etymology: totalTokens(sessionUsage.byKind.etymology).toLocaleString(),
+                  comparison: totalTokens(sessionUsage.byKind.comparison).toLocaleString(),
+                  bridge: totalTokens(sessionUsage.byKind.bridge).toLocaleString(),
+                  quiz: totalTokens(sessionUsage.byKind.quiz).toLocaleString(),
+                  senses: totalTokens(sessionUsage.byKind.senses).toLocaleString(),
+                })}
+              </span>
+            </label>
+            <button className="settings-button" onClick={handleResetUsage} disabled={sessionUsage.requestCount === 0}>
+                {t('resetUsage')}
+            </button>
+          </div>
+          <div className="setting-item">
+            <label htmlFor="soft-budget-select" className="setting-label">
+              {t('softBudgetLabel')}
+              <span className="setting-description">{t('softBudgetDescription')}</span>
+            </label>
+            <select
+              id="soft-budget-select"
+              className="settings-select"
+              value={softBudgetUsd}
+              onChange={handleSoftBudgetChange}
+            >
+              {BUDGET_OPTIONS.map(option => <option key={option} value={option}>{option ? usageService.formatCost(option) : t('noBudget')}</option>)}
+            </select>
+          </div>
+          <div className="setting-item">
+            <label htmlFor="hard-budget-select" className="setting-label">
+              {t('hardBudgetLabel')}
+              <span className="setting-description">{t('hardBudgetDescription')}</span>
+            </label>
+            <select
+              id="hard-budget-select"
+              className="settings-select"
+              value={hardBudgetUsd}
+              onChange={handleHardBudgetChange}
+            >
+              {BUDGET_OPTIONS.map(option => <option key={option} value={option}>{option ? usageService.formatCost(option) : t('noBudget')}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {selectedProvider === 'replay' ? (
+        <div className="settings-section">
+          <h3 className="settings-section-title">{t('replaySection')}</h3>
+          <div className="setting-item">
+            <label className="setting-label">
+              {t('fixtureLabel')}
+              <span className="setting-description">
+                {loadedFixtureCount === null ? t('fixtureDemo') : t('fixtureLoaded', { count: loadedFixtureCount })}
+              </span>
+            </label>
+            <input
+              type="file"
+              ref={fixtureInputRef}
+              onChange={handleFixtureFileChange}
+              style={{ display: 'none' }}
+              accept=".json,application/json"
+            />
+            <button className="settings-button" onClick={() => fixtureInputRef.current?.click()}>
+                {t('loadFixture')}
+            </button>
+          </div>
+          {loadedFixtureCount !== null && (
+            <div className="setting-item">
+              <label className="setting-label">
+                <span className="setting-description">{t('useDemoDescription')}</span>
+              </label>
+              <button className="settings-button" onClick={handleResetFixture}>
+                  {t('useDemo')}
+              </button>
+            </div>
+          )}
+          {fixtureError && <p className="error-message-inline">{fixtureError}</p>}
+          <div className="setting-item">
+            <label htmlFor="rate-limit-select" className="setting-label">
+              {t('injectRateLimitsLabel')}
+              <span className="setting-description">{t('injectRateLimitsDescription')}</span>
+            </label>
+            <select
+              id="rate-limit-select"
+              className="settings-select"
+              value={rateLimitRate}
+              onChange={handleRateLimitRateChange}
+            >
+              <option value={0}>{t('optionOff')}</option>
+              <option value={0.25}>25%</option>
+              <option value={0.5}>50%</option>
+              <option value={1}>{t('optionAlways')}</option>
+            </select>
+          </div>
+        </div>
+        ) : (
+        <div className="settings-section">
+          <h3 className="settings-section-title">{t('recordingSection')}</h3>
+          <div className="setting-item">
+            <label htmlFor="record-toggle" className="setting-label">
+              {t('recordLabel')}
+              <span className="setting-description">{t('recordDescription')}</span>
+            </label>
+            <label className="toggle-switch">
+              <input 
+                id="record-toggle"
+                type="checkbox"
+                checked={isRecording}
+                onChange={handleRecordingToggle}
+              />
+              <span className="slider"></span>
+            </label>
+          </div>
+          <div className="setting-item">
+            <label className="setting-label">
+              {t('recordedCount', { count: recordedCount })}
+              <span className="setting-description">{t('recordedDescription')}</span>
+            </label>
+            <div className="settings-button-group">
+              <button className="settings-button" onClick={handleDownloadRecording} disabled={recordedCount === 0}>
+                  {t('downloadRecording')}
+              </button>
+              <button className="settings-button" onClick={handleClearRecording} disabled={recordedCount === 0}>
+                  {t('clearRecording')}
+              </button>
+            </div>
+          </div>
         </div>
+        )}
 
         <div className="settings-section">
-          <h3 className="settings-section-title">// Cache</h3>
+          <h3 className="settings-section-title">{t('cacheSection')}</h3>
           <div className="setting-item">
             <label className="setting-label">
-              Session Cache
-              <span className="setting-description">Clears stored definitions for the current session.</span>
+              {t('cacheLabel')}
+              <span className="setting-description">
+                {t('cacheStats', {
+                  entries: cacheStats.entryCount,
+                  used: (cacheStats.totalBytes / (1024 * 1024)).toFixed(2),
+                  budget: Math.round(cacheStats.budgetBytes / (1024 * 1024)),
+                  rate: hitRate,
+                  hits: cacheStats.hits,
+                  lookups,
+                })}
+              </span>
             </label>
             <button className="settings-button" onClick={handleClearCache}>
-                {clearCacheText}
+                {isCacheCleared ? t('cacheCleared') : t('clearCache')}
             </button>
           </div>
+          <div className="setting-item">
+            <label htmlFor="cache-budget-select" className="setting-label">
+              {t('cacheBudgetLabel')}
+              <span className="setting-description">{t('cacheBudgetDescription')}</span>
+            </label>
+            <select
+              id="cache-budget-select"
+              className="settings-select"
+              value={cacheBudgetMb}
+              onChange={handleCacheBudgetChange}
+            >
+              <option value={10}>10 MB</option>
+              <option value={25}>25 MB</option>
+              <option value={50}>50 MB</option>
+              <option value={100}>100 MB</option>
+            </select>
+          </div>
+          <div className="setting-item">
+            <label htmlFor="cache-ttl-select" className="setting-label">
+              {t('cacheTtlLabel')}
+              <span className="setting-description">{t('cacheTtlDescription')}</span>
+            </label>
+            <select
+              id="cache-ttl-select"
+              className="settings-select"
+              value={cacheTtlDays}
+              onChange={handleCacheTtlChange}
+            >
+              <option value={1}>{t('ttlOneDay')}</option>
+              <option value={7}>{t('ttlDays', { count: 7 })}</option>
+              <option value={30}>{t('ttlDays', { count: 30 })}</option>
+              <option value={0}>{t('ttlNever')}</option>
+            </select>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { formatCost, getBudgetStatus, getSessionUsage, SessionUsage, subscribeToUsage } from '../services/usageService';
+import { t } from '../services/i18n';
+
+/**
+ * A footer readout of the tokens and estimated cost of this session,
+ * highlighted once the soft or hard budget is reached. Hidden until the first request.
+ */
+const UsageIndicator: React.FC = () => {
+  const [usage, setUsage] = useState<SessionUsage>(() => getSessionUsage());
+
+  useEffect(() => subscribeToUsage(setUsage), []);
+
+  if (usage.requestCount === 0) {
+    return null;
+  }
+
+  const { promptTokens, outputTokens, thinkingTokens } = usage.total;
+  const totalTokens = promptTokens + outputTokens + thinkingTokens;
+  const status = getBudgetStatus();
+  const breakdown = t('usageBreakdown', {
+    prompt: promptTokens.toLocaleString(),
+    output: outputTokens.toLocaleString(),
+    thinking: thinkingTokens.toLocaleString(),
+    requests: usage.requestCount,
+  }) + (usage.hasUnpricedUsage ? ` ${t('usageUnpriced')}` : '');
+
+  return (
+    <span className={`usage-indicator usage-indicator-${status}`} title={breakdown}>
+      [{t('usageTokens', { count: totalTokens.toLocaleString() })} · {usage.hasUnpricedUsage ? '≥' : '~'}{formatCost(usage.costUsd)}
+      {status === 'soft' && ` · ${t('usageOverSoftBudget')}`}
+      {status === 'hard' && ` · ${t('usageBudgetSpent')}`}]
+    </span>
+  );
+};
+
+export default UsageIndicator;
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The characters the art prompt asks models to draw with, besides printable ASCII.
+ */
+export const ART_PALETTE = '│─┌┐└┘├┤┬┴┼►◄▲▼○●◐◑░▒▓█▀▄■□▪▫★☆♦♠♣♥⟨⟩/\\_|';
+
+/**
+ * The character substituted for anything outside the palette that has no close look-alike.
+ */
+export const ART_FALLBACK_CHAR = '*';
+
+/**
+ * Look-alikes for characters models commonly use instead of the palette:
+ * double and heavy box drawing, rounded corners, arrows and typographic punctuation.
+ */
+export const ART_CHAR_SUBSTITUTES: Record<string, string> = {
+  '═': '─', '━': '─', '—': '─', '–': '-', '║': '│', '┃': '│',
+  '╔': '┌', '╗': '┐', '╚': '└', '╝': '┘', '┏': '┌', '┓': '┐', '┗': '└', '┛': '┘',
+  '╭': '┌', '╮': '┐', '╰': '└', '╯': '┘',
+  '╠': '├', '╣': '┤', '╦': '┬', '╩': '┴', '╬': '┼', '┣': '├', '┫': '┤', '┳': '┬', '┻': '┴', '╋': '┼',
+  '→': '►', '←': '◄', '↑': '▲', '↓': '▼', '▶': '►', '◀': '◄', '▸': '►', '◂': '◄', '▴': '▲', '▾': '▼',
+  '◆': '♦', '◇': '♦', '•': '●', '◯': '○', '⚪': '○', '⚫': '●', '▬': '■', '▮': '█',
+  '·': '.', '…': '.', '“': '"', '”': '"', '‘': "'", '’': "'", '\u00a0': ' ', '\u3000': ' ',
+};
+
+/**
+ * The largest art, in character cells, that fits the display without wrapping.
+ */
+export const MAX_ART_WIDTH = 80;
+export const MAX_ART_HEIGHT = 40;
+
+/**
+ * The most frames kept from animated art, and the default playback speed in frames per second.
+ */
+export const MAX_ART_FRAMES = 8;
+export const DEFAULT_ART_FPS = 4;
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Defines a way of writing a topic's definition.
+ */
+export interface DefinitionStyle {
+  id: string;
+  name: string;        // Shown in the settings and the search bar.
+  tag: string;         // Shown beside the topic title; empty for the default style.
+  instruction: string; // Completes "Provide a <length> ..."; {topic} is replaced with the topic.
+}
+
+/**
+ * Defines how long a definition should be. Every length is a single paragraph.
+ */
+export interface DefinitionLength {
+  id: string;
+  name: string;
+  instruction: string; // The words between "Provide a" and the style's instruction.
+}
+
+export const DEFAULT_DEFINITION_STYLE_ID = 'encyclopedic';
+export const DEFAULT_DEFINITION_LENGTH_ID = 'concise';
+
+export const DEFINITION_STYLES: DefinitionStyle[] = [
+  {
+    id: 'encyclopedic',
+    name: 'Encyclopedic',
+    tag: '',
+    instruction: 'encyclopedia-style definition for the term: "{topic}". Be informative and neutral.',
+  },
+  {
+    id: 'eli5',
+    name: 'Explain Like I\'m Five',
+    tag: 'ELI5',
+    instruction: 'explanation of the term: "{topic}", written for a curious five-year-old. Use short sentences, everyday words and one familiar comparison, and avoid jargon entirely.',
+  },
+  {
+    id: 'academic',
+    name: 'Academic',
+    tag: 'ACADEMIC',
+    instruction: 'scholarly definition of the term: "{topic}". Note competing interpretations, disputed boundaries and how the meaning differs across disciplines, in a precise, measured register.',
+  },
+  {
+    id: 'technical',
+    name: 'Technical',
+    tag: 'TECHNICAL',
+    instruction: 'technical definition of the term: "{topic}", written for engineers. Favor mechanisms, constraints, quantities and trade-offs over history or context, and use the field\'s standard terminology.',
+  },
+  {
+    id: 'etymological',
+    name: 'Etymology First',
+    tag: 'ETYMOLOGY',
+    instruction: 'definition of the term: "{topic}" that starts from its etymology: the roots it comes from, the languages it passed through and how its meaning shifted, before arriving at what it means today.',
+  },
+];
+
+export const DEFINITION_LENGTHS: DefinitionLength[] = [
+  { id: 'brief', name: 'Brief', instruction: 'very short, one- or two-sentence' },
+  { id: 'concise', name: 'Concise', instruction: 'concise, single-paragraph' },
+  { id: 'detailed', name: 'Detailed', instruction: 'detailed, single-paragraph (roughly 150 to 200 words)' },
+];
+
+/**
+ * Looks up a definition style by ID.
+ * @param id The style ID.
+ * @returns The style, or the encyclopedia style if the ID is unknown.
+ */
+export function getDefinitionStyle(id: string): DefinitionStyle {
+  return DEFINITION_STYLES.find(style => style.id === id) ?? DEFINITION_STYLES[0];
+}
+
+/**
+ * Looks up a definition length by ID.
+ * @param id The length ID.
+ * @returns The length, or the concise length if the ID is unknown.
+ */
+export function getDefinitionLength(id: string): DefinitionLength {
+  return DEFINITION_LENGTHS.find(length => length.id === id) ?? DEFINITION_LENGTHS[1];
+}
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ReplayFixture } from '../services/providers/fixture';
+
+/**
+ * Splits a text into word-sized chunks with a steady delay, approximating a live stream.
+ * @param text The full text.
+ * @param delayMs The delay before each chunk.
+ * @returns The recorded chunks.
+ */
+const toChunks = (text: string, delayMs: number) =>
+  text.split(/(?<=\s)/).map(word => ({ text: word, delayMs }));
+
+/**
+ * The fixture replayed when no recording has been loaded in the settings.
+ * "Hypertext" has every response recorded; "Hyperlink" only has a definition,
+ * which exercises the fallback art path. The two can be compared with "hypertext vs hyperlink"
+ * and bridged with "hypertext -> hyperlink".
+ */
+export const DEMO_FIXTURE: ReplayFixture = {
+  version: 1,
+  definitions: {
+    'hypertext': toChunks(
+      'Hypertext is text displayed on a computer or other electronic device that contains references, called hyperlinks, to other text the reader can immediately access. Coined by Ted Nelson in 1963 and anticipated by Vannevar Bush\'s Memex, hypertext allows non-linear reading and is the organizing principle of the World Wide Web, where documents written in HTML are connected by links.',
+      40
+    ),
+    'hyperlink': toChunks(
+      'A hyperlink is a reference in a digital document that the reader can follow, by clicking or tapping, to another document or to a specific part of the same one. Hyperlinks are the fundamental connective element of hypertext systems and the web.',
+      40
+    ),
+  },
+  ancillary: {
+    'hypertext': {
+      latencyMs: 900,
+      data: {
+        concepts: ['HTML', 'Vannevar Bush', 'Ted Nelson', 'Non-linear', 'World Wide Web', 'Hyperlink'],
+        artData: {
+          art: [
+            '┌──────┐      ┌──────┐',
+            '│ TEXT ├─────►│ TEXT │',
+            '└──┬───┘      └───┬──┘',
+            '   │    ○──●──○   │   ',
+            '   ▼              ▼   ',
+            '┌──────┐      ┌──────┐',
+            '│ TEXT │◄─────┤ TEXT │',
+            '└──────┘      └──────┘',
+          ].join('\n'),
+          hotspots: [
+            { char: '►', x: 12, y: 1, concept: 'Hyperlink' },
+            { char: '●', x: 10, y: 3, concept: 'Node' },
+            { char: '◄', x: 7, y: 6, concept: 'Backlink' },
+          ],
+        },
+      },
+    },
+  },
+  deepDives: {
+    'hypertext': {
+      latencyMs: 1800,
+      data: {
+        summary: 'Hypertext describes text that branches. Instead of a single linear sequence, a [[hypertext]] document offers the reader choices, letting them follow [[hyperlinks]] to related material and return again.\n\nThe idea predates computers. In 1945 [[Vannevar Bush]] imagined the [[Memex]], a desk that would store and associatively link a scholar\'s records. [[Ted Nelson]] coined the term in the 1960s for [[Project Xanadu]], and [[Douglas Engelbart]] demonstrated working links in 1968.\n\nThe most successful hypertext system is the [[World Wide Web]], built by [[Tim Berners-Lee]] on [[HTML]] and [[HTTP]], which traded Nelson\'s two-way links for simple, scalable one-way references.',
+        resources: [
+          { title: 'As We May Think', url: 'https://en.wikipedia.org/wiki/As_We_May_Think', description: 'Vannevar Bush\'s 1945 essay introducing the Memex.' },
+          { title: 'Hypertext', url: 'https://en.wikipedia.org/wiki/Hypertext', description: 'An overview of the history and theory of hypertext.' },
+          { title: 'Computer Lib/Dream Machines', url: 'https://en.wikipedia.org/wiki/Computer_Lib/Dream_Machines', description: 'Ted Nelson\'s manifesto on personal computing and hypertext.' },
+        ],
+      },
+    },
+  },
+  etymologies: {
+    'hypertext': {
+      latencyMs: 700,
+      data: {
+        ipa: 'ˈhaɪpərˌtɛkst',
+        rootLanguage: 'Ancient Greek and Latin',
+        morphemes: [
+          { form: 'hyper', meaning: 'over, beyond', language: 'Ancient Greek' },
+          { form: 'text', meaning: 'woven thing, fabric', language: 'Latin' },
+        ],
+        firstAttested: '1965, English',
+        cognates: [
+          { word: 'Hypertext', language: 'German' },
+          { word: 'hypertexte', language: 'French' },
+          { word: 'ipertesto', language: 'Italian' },
+        ],
+        history: 'Ted Nelson coined the word for text that branches beyond the linear page; "text" itself comes from Latin textus, a woven thing, by way of the idea of woven words.',
+      },
+    },
+  },
+  comparisons: {
+    'hypertext vs hyperlink': {
+      latencyMs: 1200,
+      data: {
+        relationship: 'whole and part',
+        shared: ['Non-linear reading', 'Coined in the 1960s', 'Foundations of the World Wide Web'],
+        differences: [
+          { aspect: 'Kind', a: 'A body of linked text', b: 'A single reference' },
+          { aspect: 'Scale', a: 'Documents and whole systems', b: 'One word or phrase' },
+          { aspect: 'Role', a: 'The medium', b: 'The mechanism' },
+          { aspect: 'Direction', a: 'Branches in many ways', b: 'Points one way' },
+        ],
+        diagram: [
+          '+-------------------+',
+          '| HYPERTEXT         |',
+          '|  ...text [link]---+---->  HYPERLINK',
+          '|  ...text [link]---+---->  HYPERLINK',
+          '+-------------------+',
+        ].join('\n'),
+      },
+    },
+  },
+  bridgeHops: {
+    'hypertext -> hyperlink': {
+      latencyMs: 600,
+      data: { next: 'Hyperlink', reason: 'Hyperlinks are the references that make text into hypertext.' },
+    },
+  },
+  quizzes: {
+    'hypertext': {
+      latencyMs: 800,
+      data: {
+        questions: [
+          {
+            question: 'What sets hypertext apart from ordinary text?',
+            options: ['It is stored in a database', 'It contains links the reader can follow', 'It is written in a markup language', 'It can only be read online'],
+            answerIndex: 1,
+          },
+          {
+            question: 'Who coined the word "hypertext"?',
+            options: ['Vannevar Bush', 'Tim Berners-Lee', 'Douglas Engelbart', 'Ted Nelson'],
+            answerIndex: 3,
+          },
+          {
+            question: 'Which system is the most widespread use of hypertext?',
+            options: ['The World Wide Web', 'Email', 'The Memex', 'Project Xanadu'],
+            answerIndex: 0,
+          },
+        ],
+      },
+    },
+  },
+};
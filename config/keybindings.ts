@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { MessageKey } from './messages';
+
+/**
+ * What a key does outside text fields. Enter is not listed: it opens the item under the
+ * cursor the way it activates any focused button.
+ */
+export type KeyAction =
+  | 'next'          // Move the cursor to the next clickable item.
+  | 'previous'      // Move it to the previous one.
+  | 'nextGroup'     // Jump to the first item of the next group, e.g. from the definition to the related concepts.
+  | 'previousGroup' // Jump to the first item of the previous group.
+  | 'first'
+  | 'last'
+  | 'clearCursor'
+  | 'commandLine'   // Open the `:` command line.
+  | 'search'        // Focus the search box.
+  | 'help';         // Open the command line showing :help.
+
+export interface Keybinding {
+  key: string; // A `KeyboardEvent.key` value.
+  action: KeyAction;
+  description: MessageKey;
+}
+
+/**
+ * The keys of the keyboard mode, modelled on vim.
+ */
+export const KEYBINDINGS: Keybinding[] = [
+  { key: 'w', action: 'next', description: 'keyNext' },
+  { key: 'l', action: 'next', description: 'keyNext' },
+  { key: 'b', action: 'previous', description: 'keyPrevious' },
+  { key: 'h', action: 'previous', description: 'keyPrevious' },
+  { key: 'j', action: 'nextGroup', description: 'keyNextGroup' },
+  { key: 'k', action: 'previousGroup', description: 'keyPreviousGroup' },
+  { key: 'g', action: 'first', description: 'keyFirst' },
+  { key: 'G', action: 'last', description: 'keyLast' },
+  { key: 'Escape', action: 'clearCursor', description: 'keyClearCursor' },
+  { key: ':', action: 'commandLine', description: 'keyCommandLine' },
+  { key: '/', action: 'search', description: 'keySearch' },
+  { key: '?', action: 'help', description: 'keyHelp' },
+];
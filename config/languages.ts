@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Defines a language that definitions, art concepts and deep dives can be written in.
+ */
+export interface Language {
+  code: string;       // A BCP 47 tag, used for the page's `lang` attribute and in cache keys.
+  name: string;       // The English name, as given to the model.
+  nativeName: string; // The name shown in the settings.
+  isRtl?: boolean;    // Written right to left.
+  hasNoWordSpaces?: boolean; // Words are not separated by spaces, so they must be segmented to be clickable.
+}
+
+export const DEFAULT_LANGUAGE_CODE = 'en';
+
+/**
+ * The languages offered in the settings. Models write all of them; the interface itself
+ * is translated where `config/messages.ts` has a catalog and falls back to English elsewhere.
+ */
+export const LANGUAGES: Language[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', isRtl: true },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'zh', name: 'Simplified Chinese', nativeName: '简体中文', hasNoWordSpaces: true },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', hasNoWordSpaces: true },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+];
+
+/**
+ * Looks up a language by code.
+ * @param code The language code.
+ * @returns The language, or English if the code is unknown.
+ */
+export function getLanguage(code: string): Language {
+  return LANGUAGES.find(language => language.code === code) ?? LANGUAGES[0];
+}
@@ -0,0 +1,1506 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The interface's own text, by language. English is complete and is the fallback for any
+ * message a catalog lacks. Placeholders such as `{name}` are filled in by `t()` in `services/i18n.ts`.
+ */
+
+const EN = {
+  apiKeyMissingTitle: 'API Key Not Configured',
+  apiKeyMissingBody: 'Please add your Gemini API key in the settings panel (gear icon) to begin.',
+  queryingFilePrefix: '// QUERYING FILE: ',
+  definitionForPrefix: '// DEFINITION FOR: ',
+  inContextOf: '// IN CONTEXT OF: {name}',
+  generalSense: '[GENERAL SENSE]',
+  whichSensePrefix: '// WHICH SENSE OF: ',
+  anySense: '[ANY SENSE]',
+  cancelSearch: '[CANCEL]',
+  checkingSenses: 'Checking the senses of "{name}"…',
+  errorTitle: 'An Error Occurred',
+  systemMessageTitle: 'System Message',
+  contentUnavailable: 'Content could not be generated.',
+  relatedConceptsHeading: '// RELATED CONCEPTS',
+  initiateDeepDive: '[Initiate Deep Dive]',
+  statusGenerating: '[STATUS: GENERATING]',
+  statusOk: '[STATUS: OK]',
+  abort: '[ABORT]',
+  abortLabel: 'Abort generation',
+  exportLabel: 'EXPORT',
+  deepDiveFailed: 'Deep Dive Failed',
+  analysisHeading: '// COMPREHENSIVE ANALYSIS',
+  resourcesHeading: '// RECOMMENDED RESOURCES',
+  etymologyHeading: '// ETYMOLOGY & PRONUNCIATION',
+  etymologyFailed: 'Etymology Unavailable',
+  retry: '[RETRY]',
+  speak: '[SPEAK]',
+  speakLabel: 'Speak {name} aloud',
+  rootLanguageLabel: 'ROOT',
+  firstAttestedLabel: 'FIRST ATTESTED',
+  morphemesLabel: 'MORPHEMES',
+  cognatesLabel: 'COGNATES',
+  comparingPrefix: '// COMPARING: ',
+  relationshipLabel: 'RELATIONSHIP',
+  sharedTraitsHeading: '// SHARED TRAITS',
+  differencesHeading: '// DIFFERENCES',
+  aspectColumn: 'ASPECT',
+  comparisonFailed: 'Comparison Failed',
+  exitCompare: '[EXIT COMPARE]',
+  bridgePrefix: '// BRIDGE: ',
+  bridgeHopsTag: '{count} HOPS',
+  bridgeBreadcrumbLabel: 'Bridge path',
+  bridgeFailed: 'No Bridge Found',
+  exitBridge: '[EXIT BRIDGE]',
+  reviewHeading: '// REVIEW',
+  reviewCounts: '{due} DUE · {total} CARDS',
+  reviewEmpty: 'No cards yet. Every topic you explore becomes a flashcard.',
+  reviewDone: 'Nothing due. The next card is due {date}.',
+  cardKindTermToDefinition: 'DEFINE THE TERM',
+  cardKindDefinitionToTerm: 'NAME THE TERM',
+  cardKindMultipleChoice: 'QUIZ',
+  showAnswer: '[SHOW ANSWER]',
+  gradeAgain: '[AGAIN]',
+  gradeHard: '[HARD]',
+  gradeGood: '[GOOD]',
+  gradeEasy: '[EASY]',
+  nextCard: '[NEXT]',
+  answerCorrect: 'Correct.',
+  answerIncorrect: 'Incorrect. The answer is: {answer}',
+  exploreTopic: '[EXPLORE {name}]',
+  generateQuiz: '[GENERATE QUIZ QUESTIONS: {count} TOPICS]',
+  generatingQuiz: '[GENERATING QUIZ QUESTIONS...]',
+  exportAnki: '[EXPORT ANKI TSV]',
+  exitReview: '[EXIT REVIEW]',
+  openReviewLabel: 'Review flashcards',
+  searchPlaceholder: 'Enter a concept, or "A vs B"...',
+  searchPlaceholderNoKey: 'API Key required...',
+  searchPlaceholderFile: 'Ask about {name}...',
+  searchInputLabel: 'Search for a topic or ask a question about the uploaded file',
+  searchLabel: 'Search',
+  openSettingsLabel: 'Open settings',
+  uploadFileLabel: 'Upload a file',
+  randomTopicLabel: 'Get a random topic',
+  definitionStyleLabel: 'Definition style',
+  removeFileLabel: 'Remove file {name}',
+  chatEmpty: 'Ask a question about the document to start a thread.',
+  chatQueryPrefix: '> QUERY',
+  chatResponsePrefix: '// RESPONSE',
+  copy: '[COPY]',
+  copied: '[COPIED]',
+  regenerateAnswer: '[Regenerate Last Answer]',
+  clearThread: '[Clear Thread]',
+  sessionGraphHeading: '// SESSION GRAPH',
+  crossLinksHeading: '// CROSS-LINKS',
+  graphLegend: 'Drag to pan. ──► followed link · ··· related concept',
+  settingsTitle: '// SYSTEM_SETTINGS',
+  languageSection: '// Language',
+  languageLabel: 'Output Language',
+  languageDescription: 'Definitions, art concepts and deep dives are written in this language. The interface follows where it is translated.',
+  learnMoreAbout: 'Learn more about {name}',
+  artLabel: 'ASCII art for {name}',
+  animatedArtLabel: 'Animated ASCII art for {name}',
+  artNormalizedOne: '[ART NORMALIZED: 1 fix]',
+  artNormalized: '[ART NORMALIZED: {count} fixes]',
+  artPaused: 'PAUSED',
+  artFps: '{fps} FPS',
+  artPlayback: '[{state} · FRAME {frame}/{count}]',
+  artActionsPrefix: '[ART:',
+  artCopy: 'COPY',
+  artImport: 'IMPORT',
+  artCopied: 'COPIED',
+  artFailed: 'FAILED',
+  artCopyLabel: 'Copy the art as plain text',
+  artSvgLabel: 'Download the art as SVG',
+  artPngLabel: 'Download the art as PNG',
+  artJsonLabel: 'Download the art and its hotspots as JSON',
+  artImportLabel: 'Import art from a JSON export',
+  queueStatus: 'QUEUE: {active} active · {queued} waiting',
+  queuePaused: 'rate limited, resuming in {seconds}s',
+  usageTokens: 'TOKENS: {count}',
+  usageOverSoftBudget: 'OVER SOFT BUDGET',
+  usageBudgetSpent: 'BUDGET SPENT',
+  usageBreakdown: '{prompt} prompt, {output} output, {thinking} thinking tokens over {requests} requests.',
+  usageUnpriced: 'Some models have no known pricing, so the cost is a lower bound.',
+  exportSessionLabel: 'Export session as {format}',
+  commandLabel: 'Command',
+  commandFailed: 'The command failed.',
+  commandNeedsProvider: 'Configure a provider in the settings first.',
+  commandNeedsNoFile: 'Not available while a file is loaded. Remove the file first.',
+  commandNeedsTopic: 'Not available in compare, bridge or review mode. Open a topic first.',
+  commandWaitForDefinition: 'Wait for the definition to load first.',
+  commandWaitForTopic: 'Wait for the current topic to load, or :abort it.',
+  commandOpening: 'Opening "{name}".',
+  commandDeepDiveOpen: 'The deep dive is already open.',
+  commandDeepDiveStarting: 'Starting the deep dive of "{name}".',
+  commandCompareSelf: 'Cannot compare "{name}" with itself.',
+  commandComparing: 'Comparing "{a}" and "{b}".',
+  commandBridgeSelf: '"{name}" is already the target.',
+  commandBridging: 'Searching for a bridge from "{start}" to "{target}".',
+  commandCardsDue: '{due} of {total} cards are due.',
+  commandAborted: 'Aborted.',
+  commandNothingToAbort: 'Nothing to abort.',
+  commandExporting: 'Exporting the session as {format}.',
+  rateLimitRetrying: 'Rate limit reached. Retrying in {seconds}s...',
+  unknownError: 'An unknown error occurred.',
+  artLoadFailed: 'Could not load art and concepts.',
+  sessionExportFailed: 'Failed to export the session.',
+  fileReadFailed: 'Failed to read the uploaded file.',
+  definitionsSection: '// Definitions',
+  definitionStyleSetting: 'Style',
+  definitionStyleDescription: 'How definitions are written. Each style is cached separately.',
+  definitionLengthSetting: 'Length',
+  definitionLengthDescription: 'Every length is a single paragraph.',
+  promptTemplatesSection: '// Prompt Templates',
+  promptLabel: 'Prompt',
+  promptEdited: 'Edited, version {version}.',
+  promptDefault: 'Default wording.',
+  promptTemplateLabel: '{name} prompt template',
+  promptUnknownVariables: 'Not provided to this prompt, so sent as written: {names}',
+  promptSave: 'Save',
+  promptReset: 'Reset to Default',
+  promptImport: 'Import',
+  promptExport: 'Export',
+  promptEmpty: 'A prompt cannot be empty.',
+  promptSaved: 'Saved the {name} prompt. It applies from the next request.',
+  promptRestored: 'Restored the default {name} prompt.',
+  promptsImported: 'Imported {names}.',
+  promptsNoneImported: 'The file has no edited prompts.',
+  promptFileUnreadable: 'Could not read the prompt file.',
+  settingsCloseLabel: 'Close settings',
+  providerSection: '// AI Provider',
+  apiKeySection: '// API Key',
+  geminiKeyLabel: 'Custom Gemini API Key',
+  geminiKeyDescription: 'Overrides the default key. Stored in your browser.',
+  geminiKeyPlaceholder: 'Enter optional Gemini API key...',
+  endpointSection: '// Endpoint',
+  baseUrlLabel: 'Base URL',
+  baseUrlDescription: 'An OpenAI-compatible API root, e.g. a local Ollama server.',
+  baseUrlInputLabel: 'OpenAI-compatible base URL',
+  openAiKeyLabel: 'API Key (Optional)',
+  openAiKeyDescription: 'Sent as a Bearer token. Not needed for local servers.',
+  openAiKeyPlaceholder: 'Enter optional API key...',
+  openAiKeyInputLabel: 'OpenAI-compatible API Key',
+  modelSection: '// AI Model',
+  customModelPlaceholder: 'e.g., {example}',
+  customModelLabel: 'Custom model name',
+  generationSection: '// Generation',
+  hqArtLabel: 'High-Quality ASCII Art (Slower)',
+  hqArtDescription: 'Allows the AI to "think" for more creative results.',
+  animatedArtSetting: 'Animated ASCII Art (More Tokens)',
+  animatedArtDescription: 'Draws the art as a short loop of frames, at several times the output cost.',
+  artSpeedLabel: 'Animation Speed',
+  artSpeedDescription: 'Frames per second. Hovering over the art pauses it.',
+  rateLimitsSection: '// Rate Limits',
+  rpmLabel: 'Requests per Minute',
+  rpmDescription: 'Requests beyond this wait in the queue shown in the footer.',
+  unlimited: 'Unlimited',
+  concurrencyLabel: 'Concurrent Requests',
+  concurrencyDescription: 'Streams hold their slot until they finish.',
+  usageSection: '// Usage & Budget',
+  sessionCost: 'This Session: {cost}',
+  sessionCostAtLeast: 'This Session: {cost} or more',
+  sessionUsageBreakdown: '{requests} requests. Definitions {definition}, art {ancillary}, deep dives {deepDive}, etymologies {etymology}, comparisons {comparison}, bridges {bridge}, quizzes {quiz}, sense checks {senses} tokens.',
+  resetUsage: 'Reset',
+  softBudgetLabel: 'Soft Budget',
+  softBudgetDescription: 'Highlights the footer total once reached.',
+  noBudget: 'None',
+  hardBudgetLabel: 'Hard Budget',
+  hardBudgetDescription: 'Pauses generation once reached. Cached topics still load.',
+  replaySection: '// Replay',
+  fixtureLabel: 'Fixture',
+  fixtureDemo: 'Using the bundled demo fixture.',
+  fixtureLoaded: 'Loaded fixture with {count} recorded responses.',
+  loadFixture: 'Load Fixture',
+  useDemoDescription: 'Discard the loaded fixture and replay the demo.',
+  useDemo: 'Use Demo',
+  fixtureInvalid: 'The file is not a Lexicon Nexus replay fixture.',
+  fixtureUnreadable: 'Could not read the fixture file.',
+  injectRateLimitsLabel: 'Inject Rate Limits',
+  injectRateLimitsDescription: 'Fails requests at random to exercise the retry banners.',
+  optionOff: 'Off',
+  optionAlways: 'Always',
+  recordingSection: '// Recording',
+  recordLabel: 'Record Responses',
+  recordDescription: 'Captures live responses into a fixture for the Offline Replay provider.',
+  recordedCount: 'Recorded: {count}',
+  recordedDescription: 'Kept until the page is reloaded.',
+  downloadRecording: 'Download',
+  clearRecording: 'Clear',
+  cacheSection: '// Cache',
+  cacheLabel: 'Persistent Cache',
+  cacheStats: '{entries} entries, {used} of {budget} MB. Hit rate {rate}% ({hits}/{lookups}).',
+  clearCache: 'Clear Cache',
+  cacheCleared: 'Cache Cleared!',
+  cacheBudgetLabel: 'Size Budget',
+  cacheBudgetDescription: 'Least recently used entries are evicted beyond this.',
+  cacheTtlLabel: 'Expiry',
+  cacheTtlDescription: 'Applies to newly cached entries.',
+  ttlOneDay: '1 day',
+  ttlDays: '{count} days',
+  ttlNever: 'Never',
+  qrOpenLabel: 'Show QR code for developer\'s GitHub profile',
+  qrCloseLabel: 'Close QR code',
+  qrScanText: 'Scan to visit on GitHub',
+  loadingLabel: 'Loading content...',
+  sessionGraphLabel: 'Graph of topics explored in this session',
+  returnToTopicLabel: 'Return to {name}',
+  copyQuestionLabel: 'Copy question',
+  copyAnswerLabel: 'Copy answer',
+  keyNext: 'Next word, concept or hotspot',
+  keyPrevious: 'Previous word, concept or hotspot',
+  keyNextGroup: 'Next group: art, definition, etymology, related concepts, deep dive',
+  keyPreviousGroup: 'Previous group',
+  keyFirst: 'First item',
+  keyLast: 'Last item',
+  keyClearCursor: 'Hide the cursor',
+  keyCommandLine: 'Open the command line',
+  keySearch: 'Search for a topic',
+  keyHelp: 'Show commands and keys',
+  keyOpenItem: 'Open the item under the cursor',
+  cmdGo: 'Open a topic.',
+  cmdCompare: 'Compare topic a with b, or the current topic with b.',
+  cmdBridge: 'Find a chain of concepts from a, or the current topic, to b.',
+  cmdReview: 'Review the flashcards that are due.',
+  cmdBack: 'Return to the previous topic.',
+  cmdForward: 'Go forward again after :back.',
+  cmdDeep: 'Start the deep dive of the current topic.',
+  cmdRandom: 'Open a random topic.',
+  cmdAbort: 'Cancel every request in flight.',
+  cmdExport: 'Download the session, as Markdown by default.',
+  cmdSet: 'Change an option, or list them all.',
+  cmdHelp: 'List commands, options and keys.',
+  optProvider: 'The AI provider: {values}.',
+  optModel: 'A model of the active provider, by ID; any other name is used as a custom model.',
+  optLanguage: 'The output language, by code, such as en, es or ja.',
+  optStyle: 'The definition style: {values}.',
+  optLength: 'The definition length: {values}.',
+  optRpm: 'Requests per minute before requests queue.',
+  optConcurrency: 'Requests in flight at once.',
+  optHq: 'High-quality ASCII art, on or off.',
+  optAnimated: 'Animated ASCII art, on or off.',
+  optFps: 'Frames per second of animated art.',
+  expectedToggle: 'Expected on or off, not "{value}".',
+  expectedNumber: 'Expected a whole number from {min} to {max}, not "{value}".',
+  unknownProvider: 'Unknown provider "{value}". Choose one of {values}.',
+  unknownModel: 'Unknown model "{value}". Choose one of {values}.',
+  unknownLanguage: 'Unknown language "{value}". Choose one of {values}.',
+  unknownStyle: 'Unknown style "{value}". Choose one of {values}.',
+  unknownLength: 'Unknown length "{value}". Choose one of {values}.',
+  unknownOption: 'Unknown option "{value}". Options: {values}.',
+  setProvider: 'Switched to {name} with its default model.',
+  setModel: 'Using the model {name}.',
+  setLanguage: 'Writing in {name}.',
+  setStyle: 'Writing definitions in the {name} style.',
+  setLength: 'Writing {name} definitions.',
+  setRpm: 'Limited requests to {value} per minute.',
+  setConcurrency: 'Allowing {value} requests at once.',
+  setHqOn: 'High-quality art is on.',
+  setHqOff: 'High-quality art is off.',
+  setAnimatedOn: 'Animated art is on from the next topic.',
+  setAnimatedOff: 'Animated art is off from the next topic.',
+  setFps: 'Animated art plays at {value} frames per second from the next topic.',
+  notACommand: 'Not a command: {word}. Type :help for a list.',
+  typeHelp: 'Type :help for a list of commands.',
+  commandUsage: 'Usage: {usage}',
+  commandTakesNoArguments: '{usage} takes no arguments.',
+};
+
+export type MessageKey = keyof typeof EN;
+
+export const MESSAGES: Record<string, Partial<Record<MessageKey, string>>> = {
+  en: EN,
+  es: {
+    apiKeyMissingTitle: 'Clave de API no configurada',
+    apiKeyMissingBody: 'Añade tu clave de API de Gemini en el panel de ajustes (icono del engranaje) para empezar.',
+    queryingFilePrefix: '// CONSULTANDO ARCHIVO: ',
+    definitionForPrefix: '// DEFINICIÓN DE: ',
+    inContextOf: '// EN EL CONTEXTO DE: {name}',
+    generalSense: '[SENTIDO GENERAL]',
+    whichSensePrefix: '// QUÉ SENTIDO DE: ',
+    anySense: '[CUALQUIER SENTIDO]',
+    cancelSearch: '[CANCELAR]',
+    checkingSenses: 'Comprobando los sentidos de «{name}»…',
+    errorTitle: 'Se produjo un error',
+    systemMessageTitle: 'Mensaje del sistema',
+    contentUnavailable: 'No se pudo generar el contenido.',
+    relatedConceptsHeading: '// CONCEPTOS RELACIONADOS',
+    initiateDeepDive: '[Iniciar inmersión profunda]',
+    statusGenerating: '[ESTADO: GENERANDO]',
+    statusOk: '[ESTADO: OK]',
+    abort: '[CANCELAR]',
+    abortLabel: 'Cancelar la generación',
+    exportLabel: 'EXPORTAR',
+    deepDiveFailed: 'La inmersión profunda falló',
+    analysisHeading: '// ANÁLISIS COMPLETO',
+    resourcesHeading: '// RECURSOS RECOMENDADOS',
+    etymologyHeading: '// ETIMOLOGÍA Y PRONUNCIACIÓN',
+    etymologyFailed: 'Etimología no disponible',
+    retry: '[REINTENTAR]',
+    speak: '[ESCUCHAR]',
+    speakLabel: 'Pronunciar {name} en voz alta',
+    rootLanguageLabel: 'RAÍZ',
+    firstAttestedLabel: 'PRIMER REGISTRO',
+    morphemesLabel: 'MORFEMAS',
+    cognatesLabel: 'COGNADOS',
+    comparingPrefix: '// COMPARANDO: ',
+    relationshipLabel: 'RELACIÓN',
+    sharedTraitsHeading: '// RASGOS COMUNES',
+    differencesHeading: '// DIFERENCIAS',
+    aspectColumn: 'ASPECTO',
+    comparisonFailed: 'Comparación fallida',
+    exitCompare: '[SALIR DE LA COMPARACIÓN]',
+    bridgePrefix: '// PUENTE: ',
+    bridgeHopsTag: '{count} SALTOS',
+    bridgeBreadcrumbLabel: 'Camino del puente',
+    bridgeFailed: 'No se encontró un puente',
+    exitBridge: '[SALIR DEL PUENTE]',
+    reviewHeading: '// REPASO',
+    reviewCounts: '{due} PENDIENTES · {total} TARJETAS',
+    reviewEmpty: 'Aún no hay tarjetas. Cada tema que explores se convierte en una.',
+    reviewDone: 'Nada pendiente. La próxima tarjeta vence el {date}.',
+    cardKindTermToDefinition: 'DEFINE EL TÉRMINO',
+    cardKindDefinitionToTerm: 'NOMBRA EL TÉRMINO',
+    cardKindMultipleChoice: 'TEST',
+    showAnswer: '[MOSTRAR RESPUESTA]',
+    gradeAgain: '[OTRA VEZ]',
+    gradeHard: '[DIFÍCIL]',
+    gradeGood: '[BIEN]',
+    gradeEasy: '[FÁCIL]',
+    nextCard: '[SIGUIENTE]',
+    answerCorrect: 'Correcto.',
+    answerIncorrect: 'Incorrecto. La respuesta es: {answer}',
+    exploreTopic: '[EXPLORAR {name}]',
+    generateQuiz: '[GENERAR PREGUNTAS: {count} TEMAS]',
+    generatingQuiz: '[GENERANDO PREGUNTAS...]',
+    exportAnki: '[EXPORTAR TSV DE ANKI]',
+    exitReview: '[SALIR DEL REPASO]',
+    openReviewLabel: 'Repasar tarjetas',
+    searchPlaceholder: 'Escribe un concepto, o "A vs B"...',
+    searchPlaceholderNoKey: 'Se necesita una clave de API...',
+    searchPlaceholderFile: 'Pregunta sobre {name}...',
+    searchInputLabel: 'Busca un tema o haz una pregunta sobre el archivo subido',
+    searchLabel: 'Buscar',
+    openSettingsLabel: 'Abrir ajustes',
+    uploadFileLabel: 'Subir un archivo',
+    randomTopicLabel: 'Tema aleatorio',
+    definitionStyleLabel: 'Estilo de la definición',
+    removeFileLabel: 'Quitar el archivo {name}',
+    chatEmpty: 'Haz una pregunta sobre el documento para empezar una conversación.',
+    chatQueryPrefix: '> PREGUNTA',
+    chatResponsePrefix: '// RESPUESTA',
+    copy: '[COPIAR]',
+    copied: '[COPIADO]',
+    regenerateAnswer: '[Regenerar la última respuesta]',
+    clearThread: '[Borrar conversación]',
+    sessionGraphHeading: '// GRAFO DE LA SESIÓN',
+    crossLinksHeading: '// ENLACES CRUZADOS',
+    graphLegend: 'Arrastra para desplazarte. ──► enlace seguido · ··· concepto relacionado',
+    settingsTitle: '// AJUSTES_DEL_SISTEMA',
+    languageSection: '// Idioma',
+    languageLabel: 'Idioma de salida',
+    languageDescription: 'Las definiciones, los conceptos del arte y las inmersiones se escriben en este idioma. La interfaz lo sigue donde está traducida.',
+    learnMoreAbout: 'Más información sobre {name}',
+    artLabel: 'Arte ASCII de {name}',
+    animatedArtLabel: 'Arte ASCII animado de {name}',
+    artNormalizedOne: '[ARTE NORMALIZADO: 1 corrección]',
+    artNormalized: '[ARTE NORMALIZADO: {count} correcciones]',
+    artPaused: 'EN PAUSA',
+    artFps: '{fps} FPS',
+    artPlayback: '[{state} · FOTOGRAMA {frame}/{count}]',
+    artActionsPrefix: '[ARTE:',
+    artCopy: 'COPIAR',
+    artImport: 'IMPORTAR',
+    artCopied: 'COPIADO',
+    artFailed: 'ERROR',
+    artCopyLabel: 'Copiar el arte como texto plano',
+    artSvgLabel: 'Descargar el arte como SVG',
+    artPngLabel: 'Descargar el arte como PNG',
+    artJsonLabel: 'Descargar el arte y sus zonas activas como JSON',
+    artImportLabel: 'Importar arte de una exportación JSON',
+    queueStatus: 'COLA: {active} activas · {queued} en espera',
+    queuePaused: 'límite de solicitudes, se reanuda en {seconds} s',
+    usageTokens: 'TOKENS: {count}',
+    usageOverSoftBudget: 'PRESUPUESTO ORIENTATIVO SUPERADO',
+    usageBudgetSpent: 'PRESUPUESTO AGOTADO',
+    usageBreakdown: '{prompt} tokens de prompt, {output} de salida y {thinking} de razonamiento en {requests} solicitudes.',
+    usageUnpriced: 'Algunos modelos no tienen precio conocido, así que el coste es un mínimo.',
+    exportSessionLabel: 'Exportar la sesión como {format}',
+    commandLabel: 'Comando',
+    commandFailed: 'El comando ha fallado.',
+    commandNeedsProvider: 'Configura primero un proveedor en los ajustes.',
+    commandNeedsNoFile: 'No disponible con un archivo cargado. Quita primero el archivo.',
+    commandNeedsTopic: 'No disponible en los modos de comparación, puente o repaso. Abre primero un tema.',
+    commandWaitForDefinition: 'Espera a que se cargue la definición.',
+    commandWaitForTopic: 'Espera a que se cargue el tema actual o cancélalo con :abort.',
+    commandOpening: 'Abriendo «{name}».',
+    commandDeepDiveOpen: 'La inmersión ya está abierta.',
+    commandDeepDiveStarting: 'Iniciando la inmersión en «{name}».',
+    commandCompareSelf: 'No se puede comparar «{name}» consigo mismo.',
+    commandComparing: 'Comparando «{a}» y «{b}».',
+    commandBridgeSelf: '«{name}» ya es el destino.',
+    commandBridging: 'Buscando un puente de «{start}» a «{target}».',
+    commandCardsDue: '{due} de {total} tarjetas pendientes.',
+    commandAborted: 'Cancelado.',
+    commandNothingToAbort: 'No hay nada que cancelar.',
+    commandExporting: 'Exportando la sesión como {format}.',
+    rateLimitRetrying: 'Límite de solicitudes alcanzado. Reintentando en {seconds} s...',
+    unknownError: 'Se ha producido un error desconocido.',
+    artLoadFailed: 'No se pudieron cargar el arte y los conceptos.',
+    sessionExportFailed: 'No se pudo exportar la sesión.',
+    fileReadFailed: 'No se pudo leer el archivo subido.',
+    definitionsSection: '// Definiciones',
+    definitionStyleSetting: 'Estilo',
+    definitionStyleDescription: 'Cómo se escriben las definiciones. Cada estilo se guarda en caché por separado.',
+    definitionLengthSetting: 'Longitud',
+    definitionLengthDescription: 'Todas las longitudes son un solo párrafo.',
+    promptTemplatesSection: '// Plantillas de prompts',
+    promptLabel: 'Prompt',
+    promptEdited: 'Editado, versión {version}.',
+    promptDefault: 'Texto predeterminado.',
+    promptTemplateLabel: 'Plantilla del prompt {name}',
+    promptUnknownVariables: 'No se proporcionan a este prompt, así que se envían tal cual: {names}',
+    promptSave: 'Guardar',
+    promptReset: 'Restablecer',
+    promptImport: 'Importar',
+    promptExport: 'Exportar',
+    promptEmpty: 'Un prompt no puede estar vacío.',
+    promptSaved: 'Prompt {name} guardado. Se aplica desde la próxima solicitud.',
+    promptRestored: 'Se ha restablecido el prompt {name} predeterminado.',
+    promptsImported: 'Importado: {names}.',
+    promptsNoneImported: 'El archivo no tiene prompts editados.',
+    promptFileUnreadable: 'No se pudo leer el archivo de prompts.',
+    settingsCloseLabel: 'Cerrar ajustes',
+    providerSection: '// Proveedor de IA',
+    apiKeySection: '// Clave de API',
+    geminiKeyLabel: 'Clave de API de Gemini propia',
+    geminiKeyDescription: 'Sustituye a la clave predeterminada. Se guarda en tu navegador.',
+    geminiKeyPlaceholder: 'Clave de API de Gemini opcional...',
+    endpointSection: '// Endpoint',
+    baseUrlLabel: 'URL base',
+    baseUrlDescription: 'La raíz de una API compatible con OpenAI, p. ej. un servidor local de Ollama.',
+    baseUrlInputLabel: 'URL base compatible con OpenAI',
+    openAiKeyLabel: 'Clave de API (opcional)',
+    openAiKeyDescription: 'Se envía como token Bearer. No hace falta en servidores locales.',
+    openAiKeyPlaceholder: 'Clave de API opcional...',
+    openAiKeyInputLabel: 'Clave de API compatible con OpenAI',
+    modelSection: '// Modelo de IA',
+    customModelPlaceholder: 'p. ej., {example}',
+    customModelLabel: 'Nombre del modelo propio',
+    generationSection: '// Generación',
+    hqArtLabel: 'Arte ASCII de alta calidad (más lento)',
+    hqArtDescription: 'Permite a la IA «pensar» para obtener resultados más creativos.',
+    animatedArtSetting: 'Arte ASCII animado (más tokens)',
+    animatedArtDescription: 'Dibuja el arte como un bucle corto de fotogramas, a varias veces el coste de salida.',
+    artSpeedLabel: 'Velocidad de la animación',
+    artSpeedDescription: 'Fotogramas por segundo. Al pasar el cursor por encima se pausa.',
+    rateLimitsSection: '// Límites de solicitudes',
+    rpmLabel: 'Solicitudes por minuto',
+    rpmDescription: 'Las solicitudes que lo superan esperan en la cola que se muestra en el pie.',
+    unlimited: 'Sin límite',
+    concurrencyLabel: 'Solicitudes simultáneas',
+    concurrencyDescription: 'Los streams ocupan su plaza hasta terminar.',
+    usageSection: '// Uso y presupuesto',
+    sessionCost: 'Esta sesión: {cost}',
+    sessionCostAtLeast: 'Esta sesión: {cost} o más',
+    sessionUsageBreakdown: '{requests} solicitudes. Tokens: definiciones {definition}, arte {ancillary}, inmersiones {deepDive}, etimologías {etymology}, comparaciones {comparison}, puentes {bridge}, cuestionarios {quiz}, comprobaciones de sentido {senses}.',
+    resetUsage: 'Restablecer',
+    softBudgetLabel: 'Presupuesto orientativo',
+    softBudgetDescription: 'Resalta el total del pie al alcanzarlo.',
+    noBudget: 'Ninguno',
+    hardBudgetLabel: 'Presupuesto máximo',
+    hardBudgetDescription: 'Detiene la generación al alcanzarlo. Los temas en caché siguen cargándose.',
+    replaySection: '// Reproducción',
+    fixtureLabel: 'Grabación',
+    fixtureDemo: 'Se usa la grabación de demostración incluida.',
+    fixtureLoaded: 'Grabación cargada con {count} respuestas.',
+    loadFixture: 'Cargar grabación',
+    useDemoDescription: 'Descarta la grabación cargada y reproduce la demostración.',
+    useDemo: 'Usar la demostración',
+    fixtureInvalid: 'El archivo no es una grabación de Lexicon Nexus.',
+    fixtureUnreadable: 'No se pudo leer el archivo de grabación.',
+    injectRateLimitsLabel: 'Simular límites de solicitudes',
+    injectRateLimitsDescription: 'Hace fallar solicitudes al azar para probar los avisos de reintento.',
+    optionOff: 'Desactivado',
+    optionAlways: 'Siempre',
+    recordingSection: '// Grabación',
+    recordLabel: 'Grabar respuestas',
+    recordDescription: 'Guarda las respuestas reales en una grabación para el proveedor de reproducción sin conexión.',
+    recordedCount: 'Grabadas: {count}',
+    recordedDescription: 'Se conservan hasta recargar la página.',
+    downloadRecording: 'Descargar',
+    clearRecording: 'Borrar',
+    cacheSection: '// Caché',
+    cacheLabel: 'Caché persistente',
+    cacheStats: '{entries} entradas, {used} de {budget} MB. Tasa de aciertos {rate} % ({hits}/{lookups}).',
+    clearCache: 'Vaciar la caché',
+    cacheCleared: '¡Caché vaciada!',
+    cacheBudgetLabel: 'Tamaño máximo',
+    cacheBudgetDescription: 'Por encima, se descartan las entradas usadas hace más tiempo.',
+    cacheTtlLabel: 'Caducidad',
+    cacheTtlDescription: 'Se aplica a las entradas nuevas.',
+    ttlOneDay: '1 día',
+    ttlDays: '{count} días',
+    ttlNever: 'Nunca',
+    qrOpenLabel: 'Mostrar el código QR del perfil de GitHub del desarrollador',
+    qrCloseLabel: 'Cerrar el código QR',
+    qrScanText: 'Escanéalo para visitarlo en GitHub',
+    loadingLabel: 'Cargando contenido...',
+    sessionGraphLabel: 'Grafo de los temas explorados en esta sesión',
+    returnToTopicLabel: 'Volver a {name}',
+    copyQuestionLabel: 'Copiar la pregunta',
+    copyAnswerLabel: 'Copiar la respuesta',
+    keyNext: 'Siguiente palabra, concepto o zona activa',
+    keyPrevious: 'Palabra, concepto o zona activa anterior',
+    keyNextGroup: 'Siguiente grupo: arte, definición, etimología, conceptos relacionados, inmersión',
+    keyPreviousGroup: 'Grupo anterior',
+    keyFirst: 'Primer elemento',
+    keyLast: 'Último elemento',
+    keyClearCursor: 'Ocultar el cursor',
+    keyCommandLine: 'Abrir la línea de comandos',
+    keySearch: 'Buscar un tema',
+    keyHelp: 'Mostrar comandos y teclas',
+    keyOpenItem: 'Abrir el elemento bajo el cursor',
+    cmdGo: 'Abre un tema.',
+    cmdCompare: 'Compara el tema a con b, o el tema actual con b.',
+    cmdBridge: 'Busca una cadena de conceptos de a, o del tema actual, a b.',
+    cmdReview: 'Repasa las tarjetas pendientes.',
+    cmdBack: 'Vuelve al tema anterior.',
+    cmdForward: 'Avanza de nuevo tras :back.',
+    cmdDeep: 'Inicia la inmersión en el tema actual.',
+    cmdRandom: 'Abre un tema al azar.',
+    cmdAbort: 'Cancela todas las solicitudes en curso.',
+    cmdExport: 'Descarga la sesión, en Markdown por defecto.',
+    cmdSet: 'Cambia una opción o las muestra todas.',
+    cmdHelp: 'Muestra los comandos, opciones y teclas.',
+    optProvider: 'El proveedor de IA: {values}.',
+    optModel: 'Un modelo del proveedor activo, por ID; cualquier otro nombre se usa como modelo propio.',
+    optLanguage: 'El idioma de salida, por código, como en, es o ja.',
+    optStyle: 'El estilo de las definiciones: {values}.',
+    optLength: 'La longitud de las definiciones: {values}.',
+    optRpm: 'Solicitudes por minuto antes de que esperen en cola.',
+    optConcurrency: 'Solicitudes en curso a la vez.',
+    optHq: 'Arte ASCII de alta calidad, on u off.',
+    optAnimated: 'Arte ASCII animado, on u off.',
+    optFps: 'Fotogramas por segundo del arte animado.',
+    expectedToggle: 'Se esperaba on u off, no «{value}».',
+    expectedNumber: 'Se esperaba un número entero de {min} a {max}, no «{value}».',
+    unknownProvider: 'Proveedor desconocido «{value}». Elige uno de {values}.',
+    unknownModel: 'Modelo desconocido «{value}». Elige uno de {values}.',
+    unknownLanguage: 'Idioma desconocido «{value}». Elige uno de {values}.',
+    unknownStyle: 'Estilo desconocido «{value}». Elige uno de {values}.',
+    unknownLength: 'Longitud desconocida «{value}». Elige una de {values}.',
+    unknownOption: 'Opción desconocida «{value}». Opciones: {values}.',
+    setProvider: 'Cambiado a {name} con su modelo predeterminado.',
+    setModel: 'Se usa el modelo {name}.',
+    setLanguage: 'Se escribe en {name}.',
+    setStyle: 'Las definiciones se escriben con el estilo {name}.',
+    setLength: 'Longitud de las definiciones: {name}.',
+    setRpm: 'Solicitudes limitadas a {value} por minuto.',
+    setConcurrency: 'Se permiten {value} solicitudes a la vez.',
+    setHqOn: 'El arte de alta calidad está activado.',
+    setHqOff: 'El arte de alta calidad está desactivado.',
+    setAnimatedOn: 'El arte animado se activa desde el próximo tema.',
+    setAnimatedOff: 'El arte animado se desactiva desde el próximo tema.',
+    setFps: 'El arte animado se reproduce a {value} fotogramas por segundo desde el próximo tema.',
+    notACommand: 'No es un comando: {word}. Escribe :help para ver la lista.',
+    typeHelp: 'Escribe :help para ver la lista de comandos.',
+    commandUsage: 'Uso: {usage}',
+    commandTakesNoArguments: '{usage} no admite argumentos.',
+  },
+  fr: {
+    apiKeyMissingTitle: 'Clé d’API non configurée',
+    apiKeyMissingBody: 'Ajoutez votre clé d’API Gemini dans le panneau des réglages (icône d’engrenage) pour commencer.',
+    queryingFilePrefix: '// INTERROGATION DU FICHIER : ',
+    definitionForPrefix: '// DÉFINITION DE : ',
+    inContextOf: '// DANS LE CONTEXTE DE : {name}',
+    generalSense: '[SENS GÉNÉRAL]',
+    whichSensePrefix: '// QUEL SENS DE : ',
+    anySense: '[N\'IMPORTE QUEL SENS]',
+    cancelSearch: '[ANNULER]',
+    checkingSenses: 'Recherche des sens de « {name} »…',
+    errorTitle: 'Une erreur s’est produite',
+    systemMessageTitle: 'Message système',
+    contentUnavailable: 'Le contenu n’a pas pu être généré.',
+    relatedConceptsHeading: '// CONCEPTS ASSOCIÉS',
+    initiateDeepDive: '[Lancer l’analyse approfondie]',
+    statusGenerating: '[ÉTAT : GÉNÉRATION]',
+    statusOk: '[ÉTAT : OK]',
+    abort: '[ANNULER]',
+    abortLabel: 'Annuler la génération',
+    exportLabel: 'EXPORTER',
+    deepDiveFailed: 'Échec de l’analyse approfondie',
+    analysisHeading: '// ANALYSE COMPLÈTE',
+    resourcesHeading: '// RESSOURCES RECOMMANDÉES',
+    etymologyHeading: '// ÉTYMOLOGIE ET PRONONCIATION',
+    etymologyFailed: 'Étymologie indisponible',
+    retry: '[RÉESSAYER]',
+    speak: '[ÉCOUTER]',
+    speakLabel: 'Prononcer {name} à voix haute',
+    rootLanguageLabel: 'RACINE',
+    firstAttestedLabel: 'PREMIÈRE ATTESTATION',
+    morphemesLabel: 'MORPHÈMES',
+    cognatesLabel: 'APPARENTÉS',
+    comparingPrefix: '// COMPARAISON : ',
+    relationshipLabel: 'RELATION',
+    sharedTraitsHeading: '// TRAITS COMMUNS',
+    differencesHeading: '// DIFFÉRENCES',
+    aspectColumn: 'ASPECT',
+    comparisonFailed: 'Échec de la comparaison',
+    exitCompare: '[QUITTER LA COMPARAISON]',
+    bridgePrefix: '// PONT : ',
+    bridgeHopsTag: '{count} ÉTAPES',
+    bridgeBreadcrumbLabel: 'Chemin du pont',
+    bridgeFailed: 'Aucun pont trouvé',
+    exitBridge: '[QUITTER LE PONT]',
+    reviewHeading: '// RÉVISION',
+    reviewCounts: '{due} À RÉVISER · {total} CARTES',
+    reviewEmpty: 'Aucune carte pour l’instant. Chaque sujet exploré devient une carte.',
+    reviewDone: 'Rien à réviser. La prochaine carte est prévue le {date}.',
+    cardKindTermToDefinition: 'DÉFINISSEZ LE TERME',
+    cardKindDefinitionToTerm: 'NOMMEZ LE TERME',
+    cardKindMultipleChoice: 'QUIZ',
+    showAnswer: '[AFFICHER LA RÉPONSE]',
+    gradeAgain: '[À REVOIR]',
+    gradeHard: '[DIFFICILE]',
+    gradeGood: '[BIEN]',
+    gradeEasy: '[FACILE]',
+    nextCard: '[SUIVANT]',
+    answerCorrect: 'Correct.',
+    answerIncorrect: 'Incorrect. La réponse est : {answer}',
+    exploreTopic: '[EXPLORER {name}]',
+    generateQuiz: '[GÉNÉRER DES QUESTIONS : {count} SUJETS]',
+    generatingQuiz: '[GÉNÉRATION DES QUESTIONS...]',
+    exportAnki: '[EXPORTER EN TSV ANKI]',
+    exitReview: '[QUITTER LA RÉVISION]',
+    openReviewLabel: 'Réviser les cartes',
+    searchPlaceholder: 'Saisissez un concept, ou « A vs B »...',
+    searchPlaceholderNoKey: 'Clé d’API requise...',
+    searchPlaceholderFile: 'Posez une question sur {name}...',
+    searchInputLabel: 'Rechercher un sujet ou poser une question sur le fichier importé',
+    searchLabel: 'Rechercher',
+    openSettingsLabel: 'Ouvrir les réglages',
+    uploadFileLabel: 'Importer un fichier',
+    randomTopicLabel: 'Sujet au hasard',
+    definitionStyleLabel: 'Style de la définition',
+    removeFileLabel: 'Retirer le fichier {name}',
+    chatEmpty: 'Posez une question sur le document pour commencer une conversation.',
+    chatQueryPrefix: '> QUESTION',
+    chatResponsePrefix: '// RÉPONSE',
+    copy: '[COPIER]',
+    copied: '[COPIÉ]',
+    regenerateAnswer: '[Régénérer la dernière réponse]',
+    clearThread: '[Effacer la conversation]',
+    sessionGraphHeading: '// GRAPHE DE LA SESSION',
+    crossLinksHeading: '// LIENS CROISÉS',
+    graphLegend: 'Faites glisser pour vous déplacer. ──► lien suivi · ··· concept associé',
+    settingsTitle: '// RÉGLAGES_SYSTÈME',
+    languageSection: '// Langue',
+    languageLabel: 'Langue de sortie',
+    languageDescription: 'Les définitions, les concepts de l’illustration et les analyses sont rédigés dans cette langue. L’interface suit là où elle est traduite.',
+    learnMoreAbout: 'En savoir plus sur {name}',
+    artLabel: 'Illustration ASCII de {name}',
+    animatedArtLabel: 'Illustration ASCII animée de {name}',
+    artNormalizedOne: '[ILLUSTRATION NORMALISÉE : 1 correction]',
+    artNormalized: '[ILLUSTRATION NORMALISÉE : {count} corrections]',
+    artPaused: 'EN PAUSE',
+    artFps: '{fps} IPS',
+    artPlayback: '[{state} · IMAGE {frame}/{count}]',
+    artActionsPrefix: '[ILLUSTRATION :',
+    artCopy: 'COPIER',
+    artImport: 'IMPORTER',
+    artCopied: 'COPIÉ',
+    artFailed: 'ÉCHEC',
+    artCopyLabel: 'Copier l’illustration en texte brut',
+    artSvgLabel: 'Télécharger l’illustration en SVG',
+    artPngLabel: 'Télécharger l’illustration en PNG',
+    artJsonLabel: 'Télécharger l’illustration et ses zones actives en JSON',
+    artImportLabel: 'Importer une illustration depuis un export JSON',
+    queueStatus: 'FILE : {active} en cours · {queued} en attente',
+    queuePaused: 'limite de débit, reprise dans {seconds} s',
+    usageTokens: 'JETONS : {count}',
+    usageOverSoftBudget: 'BUDGET INDICATIF DÉPASSÉ',
+    usageBudgetSpent: 'BUDGET ÉPUISÉ',
+    usageBreakdown: '{prompt} jetons de prompt, {output} de sortie et {thinking} de réflexion sur {requests} requêtes.',
+    usageUnpriced: 'Certains modèles n’ont pas de tarif connu ; le coût est donc un minimum.',
+    exportSessionLabel: 'Exporter la session en {format}',
+    commandLabel: 'Commande',
+    commandFailed: 'La commande a échoué.',
+    commandNeedsProvider: 'Configurez d’abord un fournisseur dans les paramètres.',
+    commandNeedsNoFile: 'Indisponible tant qu’un fichier est chargé. Retirez d’abord le fichier.',
+    commandNeedsTopic: 'Indisponible en mode comparaison, pont ou révision. Ouvrez d’abord un sujet.',
+    commandWaitForDefinition: 'Attendez que la définition soit chargée.',
+    commandWaitForTopic: 'Attendez que le sujet actuel soit chargé, ou annulez-le avec :abort.',
+    commandOpening: 'Ouverture de « {name} ».',
+    commandDeepDiveOpen: 'L’analyse approfondie est déjà ouverte.',
+    commandDeepDiveStarting: 'Lancement de l’analyse approfondie de « {name} ».',
+    commandCompareSelf: 'Impossible de comparer « {name} » avec lui-même.',
+    commandComparing: 'Comparaison de « {a} » et « {b} ».',
+    commandBridgeSelf: '« {name} » est déjà la cible.',
+    commandBridging: 'Recherche d’un pont de « {start} » à « {target} ».',
+    commandCardsDue: '{due} cartes sur {total} à réviser.',
+    commandAborted: 'Annulé.',
+    commandNothingToAbort: 'Rien à annuler.',
+    commandExporting: 'Export de la session en {format}.',
+    rateLimitRetrying: 'Limite de débit atteinte. Nouvel essai dans {seconds} s...',
+    unknownError: 'Une erreur inconnue s’est produite.',
+    artLoadFailed: 'Impossible de charger l’illustration et les concepts.',
+    sessionExportFailed: 'L’export de la session a échoué.',
+    fileReadFailed: 'Impossible de lire le fichier envoyé.',
+    definitionsSection: '// Définitions',
+    definitionStyleSetting: 'Style',
+    definitionStyleDescription: 'La manière dont les définitions sont rédigées. Chaque style a son propre cache.',
+    definitionLengthSetting: 'Longueur',
+    definitionLengthDescription: 'Chaque longueur tient en un seul paragraphe.',
+    promptTemplatesSection: '// Modèles de prompts',
+    promptLabel: 'Prompt',
+    promptEdited: 'Modifié, version {version}.',
+    promptDefault: 'Formulation par défaut.',
+    promptTemplateLabel: 'Modèle du prompt {name}',
+    promptUnknownVariables: 'Non fournies à ce prompt, donc envoyées telles quelles : {names}',
+    promptSave: 'Enregistrer',
+    promptReset: 'Rétablir par défaut',
+    promptImport: 'Importer',
+    promptExport: 'Exporter',
+    promptEmpty: 'Un prompt ne peut pas être vide.',
+    promptSaved: 'Prompt {name} enregistré. Il s’applique dès la prochaine requête.',
+    promptRestored: 'Prompt {name} par défaut rétabli.',
+    promptsImported: 'Importé : {names}.',
+    promptsNoneImported: 'Le fichier ne contient aucun prompt modifié.',
+    promptFileUnreadable: 'Impossible de lire le fichier de prompts.',
+    settingsCloseLabel: 'Fermer les paramètres',
+    providerSection: '// Fournisseur d’IA',
+    apiKeySection: '// Clé d’API',
+    geminiKeyLabel: 'Clé d’API Gemini personnalisée',
+    geminiKeyDescription: 'Remplace la clé par défaut. Enregistrée dans votre navigateur.',
+    geminiKeyPlaceholder: 'Clé d’API Gemini facultative...',
+    endpointSection: '// Point de terminaison',
+    baseUrlLabel: 'URL de base',
+    baseUrlDescription: 'La racine d’une API compatible OpenAI, par ex. un serveur Ollama local.',
+    baseUrlInputLabel: 'URL de base compatible OpenAI',
+    openAiKeyLabel: 'Clé d’API (facultative)',
+    openAiKeyDescription: 'Envoyée comme jeton Bearer. Inutile pour les serveurs locaux.',
+    openAiKeyPlaceholder: 'Clé d’API facultative...',
+    openAiKeyInputLabel: 'Clé d’API compatible OpenAI',
+    modelSection: '// Modèle d’IA',
+    customModelPlaceholder: 'par ex. {example}',
+    customModelLabel: 'Nom du modèle personnalisé',
+    generationSection: '// Génération',
+    hqArtLabel: 'Illustration ASCII haute qualité (plus lent)',
+    hqArtDescription: 'Laisse l’IA « réfléchir » pour des résultats plus créatifs.',
+    animatedArtSetting: 'Illustration ASCII animée (plus de jetons)',
+    animatedArtDescription: 'Dessine l’illustration en courte boucle d’images, pour plusieurs fois le coût de sortie.',
+    artSpeedLabel: 'Vitesse de l’animation',
+    artSpeedDescription: 'Images par seconde. Le survol de l’illustration la met en pause.',
+    rateLimitsSection: '// Limites de débit',
+    rpmLabel: 'Requêtes par minute',
+    rpmDescription: 'Au-delà, les requêtes attendent dans la file affichée en bas de page.',
+    unlimited: 'Illimité',
+    concurrencyLabel: 'Requêtes simultanées',
+    concurrencyDescription: 'Les flux gardent leur place jusqu’à la fin.',
+    usageSection: '// Consommation et budget',
+    sessionCost: 'Cette session : {cost}',
+    sessionCostAtLeast: 'Cette session : {cost} ou plus',
+    sessionUsageBreakdown: '{requests} requêtes. Jetons : définitions {definition}, illustrations {ancillary}, analyses {deepDive}, étymologies {etymology}, comparaisons {comparison}, ponts {bridge}, quiz {quiz}, vérifications de sens {senses}.',
+    resetUsage: 'Réinitialiser',
+    softBudgetLabel: 'Budget indicatif',
+    softBudgetDescription: 'Met en évidence le total en bas de page une fois atteint.',
+    noBudget: 'Aucun',
+    hardBudgetLabel: 'Budget maximal',
+    hardBudgetDescription: 'Suspend la génération une fois atteint. Les sujets en cache se chargent toujours.',
+    replaySection: '// Relecture',
+    fixtureLabel: 'Enregistrement',
+    fixtureDemo: 'Utilise l’enregistrement de démonstration fourni.',
+    fixtureLoaded: 'Enregistrement chargé avec {count} réponses.',
+    loadFixture: 'Charger un enregistrement',
+    useDemoDescription: 'Abandonne l’enregistrement chargé et rejoue la démonstration.',
+    useDemo: 'Utiliser la démo',
+    fixtureInvalid: 'Le fichier n’est pas un enregistrement Lexicon Nexus.',
+    fixtureUnreadable: 'Impossible de lire le fichier d’enregistrement.',
+    injectRateLimitsLabel: 'Simuler des limites de débit',
+    injectRateLimitsDescription: 'Fait échouer des requêtes au hasard pour tester les bannières de nouvel essai.',
+    optionOff: 'Désactivé',
+    optionAlways: 'Toujours',
+    recordingSection: '// Enregistrement',
+    recordLabel: 'Enregistrer les réponses',
+    recordDescription: 'Capture les réponses réelles dans un enregistrement pour le fournisseur de relecture hors ligne.',
+    recordedCount: 'Enregistrées : {count}',
+    recordedDescription: 'Conservées jusqu’au rechargement de la page.',
+    downloadRecording: 'Télécharger',
+    clearRecording: 'Effacer',
+    cacheSection: '// Cache',
+    cacheLabel: 'Cache persistant',
+    cacheStats: '{entries} entrées, {used} sur {budget} Mo. Taux de succès {rate} % ({hits}/{lookups}).',
+    clearCache: 'Vider le cache',
+    cacheCleared: 'Cache vidé !',
+    cacheBudgetLabel: 'Taille maximale',
+    cacheBudgetDescription: 'Au-delà, les entrées utilisées le moins récemment sont supprimées.',
+    cacheTtlLabel: 'Expiration',
+    cacheTtlDescription: 'S’applique aux nouvelles entrées.',
+    ttlOneDay: '1 jour',
+    ttlDays: '{count} jours',
+    ttlNever: 'Jamais',
+    qrOpenLabel: 'Afficher le code QR du profil GitHub du développeur',
+    qrCloseLabel: 'Fermer le code QR',
+    qrScanText: 'Scannez pour ouvrir sur GitHub',
+    loadingLabel: 'Chargement du contenu...',
+    sessionGraphLabel: 'Graphe des sujets explorés pendant cette session',
+    returnToTopicLabel: 'Revenir à {name}',
+    copyQuestionLabel: 'Copier la question',
+    copyAnswerLabel: 'Copier la réponse',
+    keyNext: 'Mot, concept ou zone active suivant',
+    keyPrevious: 'Mot, concept ou zone active précédent',
+    keyNextGroup: 'Groupe suivant : illustration, définition, étymologie, concepts liés, analyse',
+    keyPreviousGroup: 'Groupe précédent',
+    keyFirst: 'Premier élément',
+    keyLast: 'Dernier élément',
+    keyClearCursor: 'Masquer le curseur',
+    keyCommandLine: 'Ouvrir la ligne de commande',
+    keySearch: 'Rechercher un sujet',
+    keyHelp: 'Afficher les commandes et les touches',
+    keyOpenItem: 'Ouvrir l’élément sous le curseur',
+    cmdGo: 'Ouvre un sujet.',
+    cmdCompare: 'Compare le sujet a avec b, ou le sujet actuel avec b.',
+    cmdBridge: 'Cherche une chaîne de concepts de a, ou du sujet actuel, jusqu’à b.',
+    cmdReview: 'Révise les cartes à revoir.',
+    cmdBack: 'Revient au sujet précédent.',
+    cmdForward: 'Avance de nouveau après :back.',
+    cmdDeep: 'Lance l’analyse approfondie du sujet actuel.',
+    cmdRandom: 'Ouvre un sujet au hasard.',
+    cmdAbort: 'Annule toutes les requêtes en cours.',
+    cmdExport: 'Télécharge la session, en Markdown par défaut.',
+    cmdSet: 'Modifie une option ou les liste toutes.',
+    cmdHelp: 'Liste les commandes, options et touches.',
+    optProvider: 'Le fournisseur d’IA : {values}.',
+    optModel: 'Un modèle du fournisseur actif, par ID ; tout autre nom sert de modèle personnalisé.',
+    optLanguage: 'La langue de sortie, par code, comme en, es ou ja.',
+    optStyle: 'Le style des définitions : {values}.',
+    optLength: 'La longueur des définitions : {values}.',
+    optRpm: 'Requêtes par minute avant la mise en file.',
+    optConcurrency: 'Requêtes en cours simultanément.',
+    optHq: 'Illustration ASCII haute qualité, on ou off.',
+    optAnimated: 'Illustration ASCII animée, on ou off.',
+    optFps: 'Images par seconde de l’illustration animée.',
+    expectedToggle: 'On ou off attendu, pas « {value} ».',
+    expectedNumber: 'Nombre entier de {min} à {max} attendu, pas « {value} ».',
+    unknownProvider: 'Fournisseur inconnu « {value} ». Choisissez parmi {values}.',
+    unknownModel: 'Modèle inconnu « {value} ». Choisissez parmi {values}.',
+    unknownLanguage: 'Langue inconnue « {value} ». Choisissez parmi {values}.',
+    unknownStyle: 'Style inconnu « {value} ». Choisissez parmi {values}.',
+    unknownLength: 'Longueur inconnue « {value} ». Choisissez parmi {values}.',
+    unknownOption: 'Option inconnue « {value} ». Options : {values}.',
+    setProvider: 'Passage à {name} avec son modèle par défaut.',
+    setModel: 'Utilisation du modèle {name}.',
+    setLanguage: 'Rédaction en {name}.',
+    setStyle: 'Les définitions sont rédigées dans le style {name}.',
+    setLength: 'Longueur des définitions : {name}.',
+    setRpm: 'Requêtes limitées à {value} par minute.',
+    setConcurrency: '{value} requêtes simultanées autorisées.',
+    setHqOn: 'L’illustration haute qualité est activée.',
+    setHqOff: 'L’illustration haute qualité est désactivée.',
+    setAnimatedOn: 'L’illustration animée est activée à partir du prochain sujet.',
+    setAnimatedOff: 'L’illustration animée est désactivée à partir du prochain sujet.',
+    setFps: 'L’illustration animée tourne à {value} images par seconde à partir du prochain sujet.',
+    notACommand: 'Commande inconnue : {word}. Tapez :help pour la liste.',
+    typeHelp: 'Tapez :help pour la liste des commandes.',
+    commandUsage: 'Utilisation : {usage}',
+    commandTakesNoArguments: '{usage} ne prend aucun argument.',
+  },
+  de: {
+    apiKeyMissingTitle: 'API-Schlüssel nicht konfiguriert',
+    apiKeyMissingBody: 'Hinterlege deinen Gemini-API-Schlüssel in den Einstellungen (Zahnrad-Symbol), um zu beginnen.',
+    queryingFilePrefix: '// DATEI-ABFRAGE: ',
+    definitionForPrefix: '// DEFINITION VON: ',
+    inContextOf: '// IM KONTEXT VON: {name}',
+    generalSense: '[ALLGEMEINE BEDEUTUNG]',
+    whichSensePrefix: '// WELCHE BEDEUTUNG VON: ',
+    anySense: '[BELIEBIGE BEDEUTUNG]',
+    cancelSearch: '[ABBRECHEN]',
+    checkingSenses: 'Bedeutungen von „{name}“ werden geprüft…',
+    errorTitle: 'Ein Fehler ist aufgetreten',
+    systemMessageTitle: 'Systemmeldung',
+    contentUnavailable: 'Der Inhalt konnte nicht erzeugt werden.',
+    relatedConceptsHeading: '// VERWANDTE BEGRIFFE',
+    initiateDeepDive: '[Tiefenanalyse starten]',
+    statusGenerating: '[STATUS: ERZEUGE]',
+    statusOk: '[STATUS: OK]',
+    abort: '[ABBRECHEN]',
+    abortLabel: 'Erzeugung abbrechen',
+    exportLabel: 'EXPORT',
+    deepDiveFailed: 'Tiefenanalyse fehlgeschlagen',
+    analysisHeading: '// UMFASSENDE ANALYSE',
+    resourcesHeading: '// EMPFOHLENE QUELLEN',
+    etymologyHeading: '// ETYMOLOGIE UND AUSSPRACHE',
+    etymologyFailed: 'Etymologie nicht verfügbar',
+    retry: '[ERNEUT]',
+    speak: '[ANHÖREN]',
+    speakLabel: '{name} vorlesen',
+    rootLanguageLabel: 'URSPRUNG',
+    firstAttestedLabel: 'ERSTBELEG',
+    morphemesLabel: 'MORPHEME',
+    cognatesLabel: 'VERWANDTE WÖRTER',
+    comparingPrefix: '// VERGLEICH: ',
+    relationshipLabel: 'BEZIEHUNG',
+    sharedTraitsHeading: '// GEMEINSAMKEITEN',
+    differencesHeading: '// UNTERSCHIEDE',
+    aspectColumn: 'ASPEKT',
+    comparisonFailed: 'Vergleich fehlgeschlagen',
+    exitCompare: '[VERGLEICH BEENDEN]',
+    bridgePrefix: '// BRÜCKE: ',
+    bridgeHopsTag: '{count} SCHRITTE',
+    bridgeBreadcrumbLabel: 'Brückenpfad',
+    bridgeFailed: 'Keine Brücke gefunden',
+    exitBridge: '[BRÜCKE BEENDEN]',
+    reviewHeading: '// WIEDERHOLUNG',
+    reviewCounts: '{due} FÄLLIG · {total} KARTEN',
+    reviewEmpty: 'Noch keine Karten. Jeder erkundete Begriff wird zu einer Karteikarte.',
+    reviewDone: 'Nichts fällig. Die nächste Karte ist am {date} fällig.',
+    cardKindTermToDefinition: 'BEGRIFF DEFINIEREN',
+    cardKindDefinitionToTerm: 'BEGRIFF BENENNEN',
+    cardKindMultipleChoice: 'QUIZ',
+    showAnswer: '[ANTWORT ZEIGEN]',
+    gradeAgain: '[NOCHMAL]',
+    gradeHard: '[SCHWER]',
+    gradeGood: '[GUT]',
+    gradeEasy: '[EINFACH]',
+    nextCard: '[WEITER]',
+    answerCorrect: 'Richtig.',
+    answerIncorrect: 'Falsch. Die Antwort lautet: {answer}',
+    exploreTopic: '[{name} ERKUNDEN]',
+    generateQuiz: '[QUIZFRAGEN ERZEUGEN: {count} BEGRIFFE]',
+    generatingQuiz: '[QUIZFRAGEN WERDEN ERZEUGT...]',
+    exportAnki: '[ALS ANKI-TSV EXPORTIEREN]',
+    exitReview: '[WIEDERHOLUNG BEENDEN]',
+    openReviewLabel: 'Karteikarten wiederholen',
+    searchPlaceholder: 'Begriff eingeben, oder „A vs B“...',
+    searchPlaceholderNoKey: 'API-Schlüssel erforderlich...',
+    searchPlaceholderFile: 'Frage zu {name}...',
+    searchInputLabel: 'Nach einem Thema suchen oder eine Frage zur hochgeladenen Datei stellen',
+    searchLabel: 'Suchen',
+    openSettingsLabel: 'Einstellungen öffnen',
+    uploadFileLabel: 'Datei hochladen',
+    randomTopicLabel: 'Zufälliges Thema',
+    definitionStyleLabel: 'Stil der Definition',
+    removeFileLabel: 'Datei {name} entfernen',
+    chatEmpty: 'Stelle eine Frage zum Dokument, um eine Unterhaltung zu beginnen.',
+    chatQueryPrefix: '> FRAGE',
+    chatResponsePrefix: '// ANTWORT',
+    copy: '[KOPIEREN]',
+    copied: '[KOPIERT]',
+    regenerateAnswer: '[Letzte Antwort neu erzeugen]',
+    clearThread: '[Unterhaltung leeren]',
+    sessionGraphHeading: '// SITZUNGSGRAPH',
+    crossLinksHeading: '// QUERVERWEISE',
+    graphLegend: 'Zum Verschieben ziehen. ──► gefolgter Link · ··· verwandter Begriff',
+    settingsTitle: '// SYSTEMEINSTELLUNGEN',
+    languageSection: '// Sprache',
+    languageLabel: 'Ausgabesprache',
+    languageDescription: 'Definitionen, Bildbegriffe und Tiefenanalysen werden in dieser Sprache verfasst. Die Oberfläche folgt, soweit sie übersetzt ist.',
+    learnMoreAbout: 'Mehr über {name} erfahren',
+    artLabel: 'ASCII-Kunst zu {name}',
+    animatedArtLabel: 'Animierte ASCII-Kunst zu {name}',
+    artNormalizedOne: '[BILD BEREINIGT: 1 Korrektur]',
+    artNormalized: '[BILD BEREINIGT: {count} Korrekturen]',
+    artPaused: 'PAUSIERT',
+    artFps: '{fps} FPS',
+    artPlayback: '[{state} · BILD {frame}/{count}]',
+    artActionsPrefix: '[BILD:',
+    artCopy: 'KOPIEREN',
+    artImport: 'IMPORTIEREN',
+    artCopied: 'KOPIERT',
+    artFailed: 'FEHLER',
+    artCopyLabel: 'Bild als reinen Text kopieren',
+    artSvgLabel: 'Bild als SVG herunterladen',
+    artPngLabel: 'Bild als PNG herunterladen',
+    artJsonLabel: 'Bild und seine Hotspots als JSON herunterladen',
+    artImportLabel: 'Bild aus einem JSON-Export importieren',
+    queueStatus: 'WARTESCHLANGE: {active} aktiv · {queued} wartend',
+    queuePaused: 'Ratenlimit, weiter in {seconds} s',
+    usageTokens: 'TOKENS: {count}',
+    usageOverSoftBudget: 'RICHTBUDGET ÜBERSCHRITTEN',
+    usageBudgetSpent: 'BUDGET AUFGEBRAUCHT',
+    usageBreakdown: '{prompt} Prompt-, {output} Ausgabe- und {thinking} Denk-Tokens in {requests} Anfragen.',
+    usageUnpriced: 'Für manche Modelle sind keine Preise bekannt, die Kosten sind daher eine Untergrenze.',
+    exportSessionLabel: 'Sitzung als {format} exportieren',
+    commandLabel: 'Befehl',
+    commandFailed: 'Der Befehl ist fehlgeschlagen.',
+    commandNeedsProvider: 'Richte zuerst einen Anbieter in den Einstellungen ein.',
+    commandNeedsNoFile: 'Nicht verfügbar, solange eine Datei geladen ist. Entferne zuerst die Datei.',
+    commandNeedsTopic: 'Im Vergleichs-, Brücken- oder Wiederholungsmodus nicht verfügbar. Öffne zuerst ein Thema.',
+    commandWaitForDefinition: 'Warte, bis die Definition geladen ist.',
+    commandWaitForTopic: 'Warte, bis das aktuelle Thema geladen ist, oder brich es mit :abort ab.',
+    commandOpening: '„{name}“ wird geöffnet.',
+    commandDeepDiveOpen: 'Die Tiefenanalyse ist bereits geöffnet.',
+    commandDeepDiveStarting: 'Tiefenanalyse von „{name}“ wird gestartet.',
+    commandCompareSelf: '„{name}“ kann nicht mit sich selbst verglichen werden.',
+    commandComparing: '„{a}“ und „{b}“ werden verglichen.',
+    commandBridgeSelf: '„{name}“ ist bereits das Ziel.',
+    commandBridging: 'Suche eine Brücke von „{start}“ nach „{target}“.',
+    commandCardsDue: '{due} von {total} Karten sind fällig.',
+    commandAborted: 'Abgebrochen.',
+    commandNothingToAbort: 'Nichts abzubrechen.',
+    commandExporting: 'Sitzung wird als {format} exportiert.',
+    rateLimitRetrying: 'Ratenlimit erreicht. Neuer Versuch in {seconds} s...',
+    unknownError: 'Ein unbekannter Fehler ist aufgetreten.',
+    artLoadFailed: 'Bild und Begriffe konnten nicht geladen werden.',
+    sessionExportFailed: 'Die Sitzung konnte nicht exportiert werden.',
+    fileReadFailed: 'Die hochgeladene Datei konnte nicht gelesen werden.',
+    definitionsSection: '// Definitionen',
+    definitionStyleSetting: 'Stil',
+    definitionStyleDescription: 'Wie Definitionen geschrieben werden. Jeder Stil wird getrennt zwischengespeichert.',
+    definitionLengthSetting: 'Länge',
+    definitionLengthDescription: 'Jede Länge ist ein einzelner Absatz.',
+    promptTemplatesSection: '// Prompt-Vorlagen',
+    promptLabel: 'Prompt',
+    promptEdited: 'Bearbeitet, Version {version}.',
+    promptDefault: 'Standardwortlaut.',
+    promptTemplateLabel: 'Prompt-Vorlage {name}',
+    promptUnknownVariables: 'Für diesen Prompt nicht verfügbar, daher wörtlich gesendet: {names}',
+    promptSave: 'Speichern',
+    promptReset: 'Auf Standard zurücksetzen',
+    promptImport: 'Importieren',
+    promptExport: 'Exportieren',
+    promptEmpty: 'Ein Prompt darf nicht leer sein.',
+    promptSaved: 'Prompt {name} gespeichert. Er gilt ab der nächsten Anfrage.',
+    promptRestored: 'Standard-Prompt {name} wiederhergestellt.',
+    promptsImported: 'Importiert: {names}.',
+    promptsNoneImported: 'Die Datei enthält keine bearbeiteten Prompts.',
+    promptFileUnreadable: 'Die Prompt-Datei konnte nicht gelesen werden.',
+    settingsCloseLabel: 'Einstellungen schließen',
+    providerSection: '// KI-Anbieter',
+    apiKeySection: '// API-Schlüssel',
+    geminiKeyLabel: 'Eigener Gemini-API-Schlüssel',
+    geminiKeyDescription: 'Ersetzt den Standardschlüssel. Wird in deinem Browser gespeichert.',
+    geminiKeyPlaceholder: 'Optionaler Gemini-API-Schlüssel...',
+    endpointSection: '// Endpunkt',
+    baseUrlLabel: 'Basis-URL',
+    baseUrlDescription: 'Die Wurzel einer OpenAI-kompatiblen API, z. B. ein lokaler Ollama-Server.',
+    baseUrlInputLabel: 'OpenAI-kompatible Basis-URL',
+    openAiKeyLabel: 'API-Schlüssel (optional)',
+    openAiKeyDescription: 'Wird als Bearer-Token gesendet. Für lokale Server nicht nötig.',
+    openAiKeyPlaceholder: 'Optionaler API-Schlüssel...',
+    openAiKeyInputLabel: 'OpenAI-kompatibler API-Schlüssel',
+    modelSection: '// KI-Modell',
+    customModelPlaceholder: 'z. B. {example}',
+    customModelLabel: 'Name des eigenen Modells',
+    generationSection: '// Generierung',
+    hqArtLabel: 'Hochwertige ASCII-Kunst (langsamer)',
+    hqArtDescription: 'Lässt die KI „nachdenken“, für kreativere Ergebnisse.',
+    animatedArtSetting: 'Animierte ASCII-Kunst (mehr Tokens)',
+    animatedArtDescription: 'Zeichnet das Bild als kurze Schleife aus Einzelbildern, zum Mehrfachen der Ausgabekosten.',
+    artSpeedLabel: 'Animationsgeschwindigkeit',
+    artSpeedDescription: 'Bilder pro Sekunde. Mit dem Mauszeiger darüber pausiert sie.',
+    rateLimitsSection: '// Ratenlimits',
+    rpmLabel: 'Anfragen pro Minute',
+    rpmDescription: 'Weitere Anfragen warten in der Warteschlange in der Fußzeile.',
+    unlimited: 'Unbegrenzt',
+    concurrencyLabel: 'Gleichzeitige Anfragen',
+    concurrencyDescription: 'Streams belegen ihren Platz, bis sie fertig sind.',
+    usageSection: '// Verbrauch und Budget',
+    sessionCost: 'Diese Sitzung: {cost}',
+    sessionCostAtLeast: 'Diese Sitzung: {cost} oder mehr',
+    sessionUsageBreakdown: '{requests} Anfragen. Tokens: Definitionen {definition}, Bilder {ancillary}, Tiefenanalysen {deepDive}, Etymologien {etymology}, Vergleiche {comparison}, Brücken {bridge}, Quizze {quiz}, Bedeutungsprüfungen {senses}.',
+    resetUsage: 'Zurücksetzen',
+    softBudgetLabel: 'Richtbudget',
+    softBudgetDescription: 'Hebt die Summe in der Fußzeile hervor, sobald es erreicht ist.',
+    noBudget: 'Keins',
+    hardBudgetLabel: 'Festes Budget',
+    hardBudgetDescription: 'Hält die Generierung an, sobald es erreicht ist. Zwischengespeicherte Themen laden weiter.',
+    replaySection: '// Wiedergabe',
+    fixtureLabel: 'Aufzeichnung',
+    fixtureDemo: 'Die mitgelieferte Demo-Aufzeichnung wird verwendet.',
+    fixtureLoaded: 'Aufzeichnung mit {count} Antworten geladen.',
+    loadFixture: 'Aufzeichnung laden',
+    useDemoDescription: 'Verwirft die geladene Aufzeichnung und spielt die Demo ab.',
+    useDemo: 'Demo verwenden',
+    fixtureInvalid: 'Die Datei ist keine Lexicon-Nexus-Aufzeichnung.',
+    fixtureUnreadable: 'Die Aufzeichnungsdatei konnte nicht gelesen werden.',
+    injectRateLimitsLabel: 'Ratenlimits simulieren',
+    injectRateLimitsDescription: 'Lässt Anfragen zufällig fehlschlagen, um die Wiederholungshinweise zu testen.',
+    optionOff: 'Aus',
+    optionAlways: 'Immer',
+    recordingSection: '// Aufnahme',
+    recordLabel: 'Antworten aufzeichnen',
+    recordDescription: 'Zeichnet echte Antworten für den Offline-Wiedergabe-Anbieter auf.',
+    recordedCount: 'Aufgezeichnet: {count}',
+    recordedDescription: 'Bleiben bis zum Neuladen der Seite erhalten.',
+    downloadRecording: 'Herunterladen',
+    clearRecording: 'Löschen',
+    cacheSection: '// Cache',
+    cacheLabel: 'Dauerhafter Cache',
+    cacheStats: '{entries} Einträge, {used} von {budget} MB. Trefferquote {rate} % ({hits}/{lookups}).',
+    clearCache: 'Cache leeren',
+    cacheCleared: 'Cache geleert!',
+    cacheBudgetLabel: 'Größenbudget',
+    cacheBudgetDescription: 'Darüber werden die am längsten ungenutzten Einträge entfernt.',
+    cacheTtlLabel: 'Ablauf',
+    cacheTtlDescription: 'Gilt für neu zwischengespeicherte Einträge.',
+    ttlOneDay: '1 Tag',
+    ttlDays: '{count} Tage',
+    ttlNever: 'Nie',
+    qrOpenLabel: 'QR-Code zum GitHub-Profil des Entwicklers anzeigen',
+    qrCloseLabel: 'QR-Code schließen',
+    qrScanText: 'Scannen, um es auf GitHub zu öffnen',
+    loadingLabel: 'Inhalt wird geladen...',
+    sessionGraphLabel: 'Graph der in dieser Sitzung erkundeten Themen',
+    returnToTopicLabel: 'Zurück zu {name}',
+    copyQuestionLabel: 'Frage kopieren',
+    copyAnswerLabel: 'Antwort kopieren',
+    keyNext: 'Nächstes Wort, nächster Begriff oder Hotspot',
+    keyPrevious: 'Vorheriges Wort, vorheriger Begriff oder Hotspot',
+    keyNextGroup: 'Nächste Gruppe: Bild, Definition, Etymologie, verwandte Begriffe, Tiefenanalyse',
+    keyPreviousGroup: 'Vorherige Gruppe',
+    keyFirst: 'Erstes Element',
+    keyLast: 'Letztes Element',
+    keyClearCursor: 'Cursor ausblenden',
+    keyCommandLine: 'Befehlszeile öffnen',
+    keySearch: 'Nach einem Thema suchen',
+    keyHelp: 'Befehle und Tasten anzeigen',
+    keyOpenItem: 'Element unter dem Cursor öffnen',
+    cmdGo: 'Öffnet ein Thema.',
+    cmdCompare: 'Vergleicht Thema a mit b oder das aktuelle Thema mit b.',
+    cmdBridge: 'Sucht eine Begriffskette von a oder dem aktuellen Thema nach b.',
+    cmdReview: 'Wiederholt die fälligen Karten.',
+    cmdBack: 'Kehrt zum vorherigen Thema zurück.',
+    cmdForward: 'Geht nach :back wieder vorwärts.',
+    cmdDeep: 'Startet die Tiefenanalyse des aktuellen Themas.',
+    cmdRandom: 'Öffnet ein zufälliges Thema.',
+    cmdAbort: 'Bricht alle laufenden Anfragen ab.',
+    cmdExport: 'Lädt die Sitzung herunter, standardmäßig als Markdown.',
+    cmdSet: 'Ändert eine Option oder listet alle auf.',
+    cmdHelp: 'Listet Befehle, Optionen und Tasten auf.',
+    optProvider: 'Der KI-Anbieter: {values}.',
+    optModel: 'Ein Modell des aktiven Anbieters per ID; jeder andere Name wird als eigenes Modell verwendet.',
+    optLanguage: 'Die Ausgabesprache als Code, etwa en, es oder ja.',
+    optStyle: 'Der Definitionsstil: {values}.',
+    optLength: 'Die Definitionslänge: {values}.',
+    optRpm: 'Anfragen pro Minute, bevor sie warten.',
+    optConcurrency: 'Gleichzeitig laufende Anfragen.',
+    optHq: 'Hochwertige ASCII-Kunst, on oder off.',
+    optAnimated: 'Animierte ASCII-Kunst, on oder off.',
+    optFps: 'Bilder pro Sekunde animierter Kunst.',
+    expectedToggle: 'Erwartet wurde on oder off, nicht „{value}“.',
+    expectedNumber: 'Erwartet wurde eine ganze Zahl von {min} bis {max}, nicht „{value}“.',
+    unknownProvider: 'Unbekannter Anbieter „{value}“. Wähle einen von {values}.',
+    unknownModel: 'Unbekanntes Modell „{value}“. Wähle eines von {values}.',
+    unknownLanguage: 'Unbekannte Sprache „{value}“. Wähle eine von {values}.',
+    unknownStyle: 'Unbekannter Stil „{value}“. Wähle einen von {values}.',
+    unknownLength: 'Unbekannte Länge „{value}“. Wähle eine von {values}.',
+    unknownOption: 'Unbekannte Option „{value}“. Optionen: {values}.',
+    setProvider: 'Zu {name} mit dessen Standardmodell gewechselt.',
+    setModel: 'Das Modell {name} wird verwendet.',
+    setLanguage: 'Es wird auf {name} geschrieben.',
+    setStyle: 'Definitionen werden im Stil {name} geschrieben.',
+    setLength: 'Definitionslänge: {name}.',
+    setRpm: 'Anfragen auf {value} pro Minute begrenzt.',
+    setConcurrency: '{value} gleichzeitige Anfragen erlaubt.',
+    setHqOn: 'Hochwertige Kunst ist an.',
+    setHqOff: 'Hochwertige Kunst ist aus.',
+    setAnimatedOn: 'Animierte Kunst ist ab dem nächsten Thema an.',
+    setAnimatedOff: 'Animierte Kunst ist ab dem nächsten Thema aus.',
+    setFps: 'Animierte Kunst läuft ab dem nächsten Thema mit {value} Bildern pro Sekunde.',
+    notACommand: 'Kein Befehl: {word}. Gib :help für eine Liste ein.',
+    typeHelp: 'Gib :help für eine Liste der Befehle ein.',
+    commandUsage: 'Verwendung: {usage}',
+    commandTakesNoArguments: '{usage} nimmt keine Argumente.',
+  },
+  ja: {
+    apiKeyMissingTitle: 'API キーが設定されていません',
+    apiKeyMissingBody: '設定パネル（歯車アイコン）で Gemini の API キーを追加してください。',
+    queryingFilePrefix: '// ファイルに質問中: ',
+    definitionForPrefix: '// 定義: ',
+    inContextOf: '// 文脈: {name}',
+    generalSense: '[一般的な意味]',
+    whichSensePrefix: '// どの意味: ',
+    anySense: '[どの意味でも]',
+    cancelSearch: '[キャンセル]',
+    checkingSenses: '「{name}」の意味を確認しています…',
+    errorTitle: 'エラーが発生しました',
+    systemMessageTitle: 'システムメッセージ',
+    contentUnavailable: 'コンテンツを生成できませんでした。',
+    relatedConceptsHeading: '// 関連する概念',
+    initiateDeepDive: '[詳しく掘り下げる]',
+    statusGenerating: '[状態: 生成中]',
+    statusOk: '[状態: OK]',
+    abort: '[中止]',
+    abortLabel: '生成を中止',
+    exportLabel: 'エクスポート',
+    deepDiveFailed: '掘り下げに失敗しました',
+    analysisHeading: '// 総合的な分析',
+    resourcesHeading: '// おすすめの資料',
+    etymologyHeading: '// 語源と発音',
+    etymologyFailed: '語源を取得できませんでした',
+    retry: '[再試行]',
+    speak: '[読み上げ]',
+    speakLabel: '{name}を読み上げる',
+    rootLanguageLabel: '起源',
+    firstAttestedLabel: '初出',
+    morphemesLabel: '形態素',
+    cognatesLabel: '同源語',
+    comparingPrefix: '// 比較: ',
+    relationshipLabel: '関係',
+    sharedTraitsHeading: '// 共通点',
+    differencesHeading: '// 相違点',
+    aspectColumn: '観点',
+    comparisonFailed: '比較できませんでした',
+    exitCompare: '[比較を終了]',
+    bridgePrefix: '// ブリッジ: ',
+    bridgeHopsTag: '{count} ホップ',
+    bridgeBreadcrumbLabel: 'ブリッジの経路',
+    bridgeFailed: 'ブリッジが見つかりませんでした',
+    exitBridge: '[ブリッジを終了]',
+    reviewHeading: '// 復習',
+    reviewCounts: '期限 {due} 枚 · 全 {total} 枚',
+    reviewEmpty: 'カードはまだありません。調べた概念がカードになります。',
+    reviewDone: '期限のカードはありません。次のカードの期限は {date} です。',
+    cardKindTermToDefinition: '用語を定義',
+    cardKindDefinitionToTerm: '用語を答える',
+    cardKindMultipleChoice: 'クイズ',
+    showAnswer: '[答えを表示]',
+    gradeAgain: '[もう一度]',
+    gradeHard: '[難しい]',
+    gradeGood: '[普通]',
+    gradeEasy: '[簡単]',
+    nextCard: '[次へ]',
+    answerCorrect: '正解です。',
+    answerIncorrect: '不正解です。正解: {answer}',
+    exploreTopic: '[{name} を調べる]',
+    generateQuiz: '[クイズを生成: {count} 件の概念]',
+    generatingQuiz: '[クイズを生成中...]',
+    exportAnki: '[Anki 用 TSV を書き出す]',
+    exitReview: '[復習を終了]',
+    openReviewLabel: 'カードを復習',
+    searchPlaceholder: '概念を入力(比較は「A vs B」)...',
+    searchPlaceholderNoKey: 'API キーが必要です...',
+    searchPlaceholderFile: '{name} について質問...',
+    searchInputLabel: 'トピックを検索するか、アップロードしたファイルについて質問する',
+    searchLabel: '検索',
+    openSettingsLabel: '設定を開く',
+    uploadFileLabel: 'ファイルをアップロード',
+    randomTopicLabel: 'ランダムなトピック',
+    definitionStyleLabel: '定義のスタイル',
+    removeFileLabel: 'ファイル {name} を削除',
+    chatEmpty: '文書について質問すると会話が始まります。',
+    chatQueryPrefix: '> 質問',
+    chatResponsePrefix: '// 回答',
+    copy: '[コピー]',
+    copied: '[コピー済み]',
+    regenerateAnswer: '[最後の回答を再生成]',
+    clearThread: '[会話を消去]',
+    sessionGraphHeading: '// セッショングラフ',
+    crossLinksHeading: '// 相互リンク',
+    graphLegend: 'ドラッグで移動。──► たどったリンク · ··· 関連する概念',
+    settingsTitle: '// システム設定',
+    languageSection: '// 言語',
+    languageLabel: '出力言語',
+    languageDescription: '定義、アートの概念、掘り下げはこの言語で書かれます。翻訳済みの部分ではインターフェースも切り替わります。',
+    learnMoreAbout: '{name}について詳しく',
+    artLabel: '{name}の ASCII アート',
+    animatedArtLabel: '{name}のアニメーション ASCII アート',
+    artNormalizedOne: '[アートを補正: 1 件]',
+    artNormalized: '[アートを補正: {count} 件]',
+    artPaused: '一時停止',
+    artFps: '{fps} FPS',
+    artPlayback: '[{state} · フレーム {frame}/{count}]',
+    artActionsPrefix: '[アート:',
+    artCopy: 'コピー',
+    artImport: '読み込み',
+    artCopied: 'コピー済み',
+    artFailed: '失敗',
+    artCopyLabel: 'アートをテキストとしてコピー',
+    artSvgLabel: 'アートを SVG でダウンロード',
+    artPngLabel: 'アートを PNG でダウンロード',
+    artJsonLabel: 'アートとホットスポットを JSON でダウンロード',
+    artImportLabel: 'JSON の書き出しからアートを読み込む',
+    queueStatus: 'キュー: 実行中 {active} · 待機中 {queued}',
+    queuePaused: 'レート制限中、{seconds} 秒後に再開',
+    usageTokens: 'トークン: {count}',
+    usageOverSoftBudget: '目安の予算を超過',
+    usageBudgetSpent: '予算を使い切りました',
+    usageBreakdown: '{requests} 件のリクエストでプロンプト {prompt}、出力 {output}、思考 {thinking} トークン。',
+    usageUnpriced: '料金が不明なモデルがあるため、費用は下限値です。',
+    exportSessionLabel: 'セッションを {format} で書き出す',
+    commandLabel: 'コマンド',
+    commandFailed: 'コマンドが失敗しました。',
+    commandNeedsProvider: '先に設定でプロバイダーを設定してください。',
+    commandNeedsNoFile: 'ファイルの読み込み中は使えません。先にファイルを削除してください。',
+    commandNeedsTopic: '比較・ブリッジ・復習モードでは使えません。先にトピックを開いてください。',
+    commandWaitForDefinition: '定義の読み込みを待ってください。',
+    commandWaitForTopic: '現在のトピックの読み込みを待つか、:abort で中止してください。',
+    commandOpening: '「{name}」を開いています。',
+    commandDeepDiveOpen: '掘り下げはすでに開いています。',
+    commandDeepDiveStarting: '「{name}」の掘り下げを始めています。',
+    commandCompareSelf: '「{name}」を自分自身と比較することはできません。',
+    commandComparing: '「{a}」と「{b}」を比較しています。',
+    commandBridgeSelf: '「{name}」はすでに目的地です。',
+    commandBridging: '「{start}」から「{target}」へのブリッジを探しています。',
+    commandCardsDue: '{total} 枚中 {due} 枚が期限です。',
+    commandAborted: '中止しました。',
+    commandNothingToAbort: '中止するものはありません。',
+    commandExporting: 'セッションを {format} で書き出しています。',
+    rateLimitRetrying: 'レート制限に達しました。{seconds} 秒後に再試行します...',
+    unknownError: '不明なエラーが発生しました。',
+    artLoadFailed: 'アートと概念を読み込めませんでした。',
+    sessionExportFailed: 'セッションを書き出せませんでした。',
+    fileReadFailed: 'アップロードしたファイルを読み込めませんでした。',
+    definitionsSection: '// 定義',
+    definitionStyleSetting: 'スタイル',
+    definitionStyleDescription: '定義の書き方です。スタイルごとに別々にキャッシュされます。',
+    definitionLengthSetting: '長さ',
+    definitionLengthDescription: 'どの長さも 1 段落です。',
+    promptTemplatesSection: '// プロンプトテンプレート',
+    promptLabel: 'プロンプト',
+    promptEdited: '編集済み、バージョン {version}。',
+    promptDefault: '既定の文面です。',
+    promptTemplateLabel: '{name}のプロンプトテンプレート',
+    promptUnknownVariables: 'このプロンプトには渡されないため、そのまま送信されます: {names}',
+    promptSave: '保存',
+    promptReset: '既定に戻す',
+    promptImport: '読み込み',
+    promptExport: '書き出し',
+    promptEmpty: 'プロンプトを空にすることはできません。',
+    promptSaved: '{name}のプロンプトを保存しました。次のリクエストから適用されます。',
+    promptRestored: '{name}の既定のプロンプトに戻しました。',
+    promptsImported: '{names} を読み込みました。',
+    promptsNoneImported: 'ファイルに編集済みのプロンプトがありません。',
+    promptFileUnreadable: 'プロンプトファイルを読み込めませんでした。',
+    settingsCloseLabel: '設定を閉じる',
+    providerSection: '// AI プロバイダー',
+    apiKeySection: '// API キー',
+    geminiKeyLabel: '独自の Gemini API キー',
+    geminiKeyDescription: '既定のキーの代わりに使います。ブラウザーに保存されます。',
+    geminiKeyPlaceholder: 'Gemini API キー（任意）...',
+    endpointSection: '// エンドポイント',
+    baseUrlLabel: 'ベース URL',
+    baseUrlDescription: 'OpenAI 互換 API のルート。例: ローカルの Ollama サーバー。',
+    baseUrlInputLabel: 'OpenAI 互換のベース URL',
+    openAiKeyLabel: 'API キー（任意）',
+    openAiKeyDescription: 'Bearer トークンとして送信されます。ローカルサーバーでは不要です。',
+    openAiKeyPlaceholder: 'API キー（任意）...',
+    openAiKeyInputLabel: 'OpenAI 互換の API キー',
+    modelSection: '// AI モデル',
+    customModelPlaceholder: '例: {example}',
+    customModelLabel: 'カスタムモデル名',
+    generationSection: '// 生成',
+    hqArtLabel: '高品質な ASCII アート（低速）',
+    hqArtDescription: 'AI に「考える」時間を与え、より創造的な結果にします。',
+    animatedArtSetting: 'アニメーション ASCII アート（トークン増）',
+    animatedArtDescription: 'アートを短いループのフレームとして描きます。出力コストは数倍になります。',
+    artSpeedLabel: 'アニメーションの速度',
+    artSpeedDescription: '1 秒あたりのフレーム数。アートにカーソルを重ねると一時停止します。',
+    rateLimitsSection: '// レート制限',
+    rpmLabel: '1 分あたりのリクエスト数',
+    rpmDescription: 'これを超えたリクエストはフッターに表示されるキューで待機します。',
+    unlimited: '無制限',
+    concurrencyLabel: '同時リクエスト数',
+    concurrencyDescription: 'ストリームは終わるまで枠を占有します。',
+    usageSection: '// 使用量と予算',
+    sessionCost: 'このセッション: {cost}',
+    sessionCostAtLeast: 'このセッション: {cost} 以上',
+    sessionUsageBreakdown: '{requests} 件のリクエスト。トークン: 定義 {definition}、アート {ancillary}、掘り下げ {deepDive}、語源 {etymology}、比較 {comparison}、ブリッジ {bridge}、クイズ {quiz}、意味の確認 {senses}。',
+    resetUsage: 'リセット',
+    softBudgetLabel: '目安の予算',
+    softBudgetDescription: '達するとフッターの合計を強調表示します。',
+    noBudget: 'なし',
+    hardBudgetLabel: '上限の予算',
+    hardBudgetDescription: '達すると生成を停止します。キャッシュ済みのトピックは引き続き読み込めます。',
+    replaySection: '// リプレイ',
+    fixtureLabel: 'フィクスチャ',
+    fixtureDemo: '同梱のデモ用フィクスチャを使っています。',
+    fixtureLoaded: '{count} 件の応答を含むフィクスチャを読み込みました。',
+    loadFixture: 'フィクスチャを読み込む',
+    useDemoDescription: '読み込んだフィクスチャを破棄してデモを再生します。',
+    useDemo: 'デモを使う',
+    fixtureInvalid: 'このファイルは Lexicon Nexus のリプレイ用フィクスチャではありません。',
+    fixtureUnreadable: 'フィクスチャファイルを読み込めませんでした。',
+    injectRateLimitsLabel: 'レート制限を注入',
+    injectRateLimitsDescription: 'リクエストをランダムに失敗させ、再試行の表示を確かめます。',
+    optionOff: 'オフ',
+    optionAlways: '常に',
+    recordingSection: '// 記録',
+    recordLabel: '応答を記録',
+    recordDescription: '実際の応答をオフラインリプレイ用のフィクスチャに記録します。',
+    recordedCount: '記録済み: {count}',
+    recordedDescription: 'ページを再読み込みするまで保持されます。',
+    downloadRecording: 'ダウンロード',
+    clearRecording: '消去',
+    cacheSection: '// キャッシュ',
+    cacheLabel: '永続キャッシュ',
+    cacheStats: '{entries} 件、{used} / {budget} MB。ヒット率 {rate}%（{hits}/{lookups}）。',
+    clearCache: 'キャッシュを消去',
+    cacheCleared: 'キャッシュを消去しました',
+    cacheBudgetLabel: 'サイズの上限',
+    cacheBudgetDescription: 'これを超えると、最も長く使われていない項目から削除されます。',
+    cacheTtlLabel: '有効期限',
+    cacheTtlDescription: '新しくキャッシュされる項目に適用されます。',
+    ttlOneDay: '1 日',
+    ttlDays: '{count} 日',
+    ttlNever: 'なし',
+    qrOpenLabel: '開発者の GitHub プロフィールの QR コードを表示',
+    qrCloseLabel: 'QR コードを閉じる',
+    qrScanText: 'スキャンして GitHub で開く',
+    loadingLabel: 'コンテンツを読み込み中...',
+    sessionGraphLabel: 'このセッションで調べたトピックのグラフ',
+    returnToTopicLabel: '{name}に戻る',
+    copyQuestionLabel: '質問をコピー',
+    copyAnswerLabel: '回答をコピー',
+    keyNext: '次の語・概念・ホットスポット',
+    keyPrevious: '前の語・概念・ホットスポット',
+    keyNextGroup: '次のグループ: アート、定義、語源、関連する概念、掘り下げ',
+    keyPreviousGroup: '前のグループ',
+    keyFirst: '最初の項目',
+    keyLast: '最後の項目',
+    keyClearCursor: 'カーソルを隠す',
+    keyCommandLine: 'コマンドラインを開く',
+    keySearch: 'トピックを検索',
+    keyHelp: 'コマンドとキーを表示',
+    keyOpenItem: 'カーソル位置の項目を開く',
+    cmdGo: 'トピックを開きます。',
+    cmdCompare: 'トピック a と b、または現在のトピックと b を比較します。',
+    cmdBridge: 'a（または現在のトピック）から b への概念の連鎖を探します。',
+    cmdReview: '期限のカードを復習します。',
+    cmdBack: '前のトピックに戻ります。',
+    cmdForward: ':back の後に再び進みます。',
+    cmdDeep: '現在のトピックの掘り下げを始めます。',
+    cmdRandom: 'ランダムなトピックを開きます。',
+    cmdAbort: '実行中のリクエストをすべて取り消します。',
+    cmdExport: 'セッションをダウンロードします（既定は Markdown）。',
+    cmdSet: 'オプションを変更するか、一覧を表示します。',
+    cmdHelp: 'コマンド、オプション、キーの一覧を表示します。',
+    optProvider: 'AI プロバイダー: {values}。',
+    optModel: '現在のプロバイダーのモデル ID。それ以外の名前はカスタムモデルとして使われます。',
+    optLanguage: '出力言語のコード。例: en、es、ja。',
+    optStyle: '定義のスタイル: {values}。',
+    optLength: '定義の長さ: {values}。',
+    optRpm: 'キューに入る前の 1 分あたりのリクエスト数。',
+    optConcurrency: '同時に実行するリクエスト数。',
+    optHq: '高品質な ASCII アート（on または off）。',
+    optAnimated: 'アニメーション ASCII アート（on または off）。',
+    optFps: 'アニメーションアートの 1 秒あたりのフレーム数。',
+    expectedToggle: 'on または off を指定してください（「{value}」ではなく）。',
+    expectedNumber: '{min} から {max} の整数を指定してください（「{value}」ではなく）。',
+    unknownProvider: '不明なプロバイダー「{value}」です。{values} から選んでください。',
+    unknownModel: '不明なモデル「{value}」です。{values} から選んでください。',
+    unknownLanguage: '不明な言語「{value}」です。{values} から選んでください。',
+    unknownStyle: '不明なスタイル「{value}」です。{values} から選んでください。',
+    unknownLength: '不明な長さ「{value}」です。{values} から選んでください。',
+    unknownOption: '不明なオプション「{value}」です。オプション: {values}。',
+    setProvider: '{name} に切り替え、既定のモデルを使います。',
+    setModel: 'モデル {name} を使います。',
+    setLanguage: '{name}で書きます。',
+    setStyle: '定義を「{name}」スタイルで書きます。',
+    setLength: '定義の長さ: {name}。',
+    setRpm: 'リクエストを 1 分あたり {value} 件に制限しました。',
+    setConcurrency: '同時に {value} 件のリクエストを許可します。',
+    setHqOn: '高品質なアートをオンにしました。',
+    setHqOff: '高品質なアートをオフにしました。',
+    setAnimatedOn: '次のトピックからアニメーションアートをオンにします。',
+    setAnimatedOff: '次のトピックからアニメーションアートをオフにします。',
+    setFps: '次のトピックからアニメーションを毎秒 {value} フレームで再生します。',
+    notACommand: 'コマンドではありません: {word}。一覧は :help で表示できます。',
+    typeHelp: 'コマンドの一覧は :help で表示できます。',
+    commandUsage: '使い方: {usage}',
+    commandTakesNoArguments: '{usage} は引数を取りません。',
+  },
+};
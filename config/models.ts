@@ -3,37 +3,148 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+/**
+ * Defines the structure for an LLM backend option in the settings.
+ */
+export interface AiProvider {
+  id: string;      // Matches the `id` of an implementation in `services/providers`.
+  name: string;    // A user-friendly name (e.g., 'Google Gemini').
+  description: string; // A brief explanation for the user.
+}
+
+/**
+ * A list of available LLM backends for the user to choose from.
+ */
+export const PROVIDERS: AiProvider[] = [
+  {
+    id: 'gemini',
+    name: 'Google Gemini',
+    description: 'Hosted Gemini models. Requires a Gemini API key.'
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI-Compatible',
+    description: 'Any /v1/chat/completions endpoint, such as a local Ollama server.'
+  },
+  {
+    id: 'replay',
+    name: 'Offline Replay',
+    description: 'Plays back recorded responses. For demos and development without network access.'
+  }
+];
+
+/**
+ * List prices of a model in US dollars per million tokens.
+ * Thinking tokens are billed as output.
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
 /**
  * Defines the structure for an AI model option in the settings.
  */
 export interface AiModel {
   id: string;      // The actual model name for the API call (e.g., 'gemini-flash-latest').
+  provider: string; // The `AiProvider.id` this model is served by.
   name: string;    // A user-friendly name (e.g., 'Fast & Efficient').
   description: string; // A brief explanation for the user.
+  pricing?: ModelPricing; // Omitted where the price is unknown, such as custom models.
 }
 
 /**
  * A list of available AI models for the user to choose from.
+ * Every provider lists a 'custom-model' entry for free-form model names.
  */
 export const MODELS: AiModel[] = [
   { 
     id: 'gemini-flash-latest', 
+    provider: 'gemini',
     name: 'Fast & Efficient', 
-    description: 'Uses Gemini Flash for the quickest responses.' 
+    description: 'Uses Gemini Flash for the quickest responses.',
+    pricing: { inputPerMillion: 0.30, outputPerMillion: 2.50 }
   },
   { 
     id: 'gemini-2.5-pro', 
+    provider: 'gemini',
     name: 'Powerful & Advanced', 
-    description: 'Uses Gemini 2.5 Pro for higher quality, but slower, results.'
+    description: 'Uses Gemini 2.5 Pro for higher quality, but slower, results.',
+    pricing: { inputPerMillion: 1.25, outputPerMillion: 10.00 }
   },
   {
     id: 'custom-model',
+    provider: 'gemini',
     name: 'Custom Model',
     description: 'Enter the name of a custom Gemini model.'
+  },
+  {
+    id: 'llama3.1',
+    provider: 'openai',
+    name: 'Llama 3.1 (Ollama)',
+    description: 'The default local model for an Ollama server.',
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 }
+  },
+  {
+    id: 'gpt-4o-mini',
+    provider: 'openai',
+    name: 'GPT-4o mini',
+    description: 'A fast hosted model when pointed at the OpenAI API.',
+    pricing: { inputPerMillion: 0.15, outputPerMillion: 0.60 }
+  },
+  {
+    id: 'custom-model',
+    provider: 'openai',
+    name: 'Custom Model',
+    description: 'Enter the name of any model served by the endpoint.'
+  },
+  {
+    id: 'fixture',
+    provider: 'replay',
+    name: 'Recorded Fixture',
+    description: 'Replays the loaded fixture, or the bundled demo if none is loaded.',
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 }
   }
 ];
 
+/**
+ * The default provider to use if no setting is found.
+ */
+export const DEFAULT_PROVIDER_ID = PROVIDERS[0].id;
+
 /**
  * The default model to use if no setting is found.
  */
-export const DEFAULT_MODEL_ID = MODELS[0].id;
\ No newline at end of file
+export const DEFAULT_MODEL_ID = MODELS[0].id;
+
+/**
+ * The default base URL for the OpenAI-compatible provider (a local Ollama server).
+ */
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Lists the models offered by a provider.
+ * @param providerId The provider to list models for.
+ * @returns The provider's models, in display order.
+ */
+export function getModelsForProvider(providerId: string): AiModel[] {
+  return MODELS.filter(model => model.provider === providerId);
+}
+
+/**
+ * Returns the first (default) model of a provider.
+ * @param providerId The provider to look up.
+ * @returns The default model ID, or the global default for unknown providers.
+ */
+export function getDefaultModelId(providerId: string): string {
+  return getModelsForProvider(providerId)[0]?.id ?? DEFAULT_MODEL_ID;
+}
+
+/**
+ * Looks up the list price of a model.
+ * @param modelId The model name sent to the API.
+ * @returns The pricing, or undefined for custom and unknown models.
+ */
+export function getModelPricing(modelId: string): ModelPricing | undefined {
+  return MODELS.find(model => model.id === modelId && model.pricing)?.pricing;
+}
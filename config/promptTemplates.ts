@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type PromptTemplateId =
+  | 'definition' | 'fileQuestion' | 'ancillary' | 'animatedAncillary' | 'deepDive' | 'etymology' | 'comparison' | 'bridgeHop' | 'quiz'
+  | 'senses';
+
+/**
+ * Describes a prompt that users can rewrite in the settings. Templates fill in
+ * `{{variable}}` placeholders when a request is made.
+ */
+export interface PromptTemplateSpec {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  variables: string[]; // The placeholders this prompt can use, without braces.
+  defaultTemplate: string;
+}
+
+/**
+ * What each variable holds, shown beside the template editor.
+ */
+export const PROMPT_VARIABLES: Record<string, string> = {
+  topic: 'The topic being explored.',
+  topicA: 'The first of two compared topics.',
+  topicB: 'The second of two compared topics.',
+  target: 'The topic a bridge is heading for.',
+  candidates: 'The concepts a bridge can step to next, as a JSON array: the target, then the related concepts.',
+  definition: 'The definition of the topic that was shown.',
+  parentTopic: 'The topic whose page the link was clicked on; empty after a search.',
+  sentence: 'The sentence the word was clicked in; empty unless it was clicked in running text.',
+  contextInstruction: 'A sentence asking for the sense the word has where it was clicked; empty after a search.',
+  senseInstruction: 'A sentence naming the sense picked for an ambiguous search; empty if none was picked.',
+  question: 'The question asked about the uploaded file.',
+  language: 'The output language, such as "Spanish (Español)".',
+  languageInstruction: 'A sentence asking for the output language; empty for English.',
+  style: 'The definition style\'s request, which names the topic.',
+  length: 'The definition length, such as "concise, single-paragraph".',
+  palette: 'The characters the ASCII art may use.',
+  maxFrames: 'The most frames an animation may have.',
+};
+
+export const PROMPT_TEMPLATES: PromptTemplateSpec[] = [
+  {
+    id: 'definition',
+    name: 'Definition',
+    description: 'The streamed paragraph that defines a topic.',
+    variables: ['topic', 'parentTopic', 'sentence', 'contextInstruction', 'senseInstruction', 'language', 'languageInstruction', 'style', 'length'],
+    defaultTemplate: 'Provide a {{length}} {{style}}{{contextInstruction}}{{senseInstruction}} Do not use markdown, titles, or any special formatting. Respond with only the text of the definition itself.{{languageInstruction}}',
+  },
+  {
+    id: 'fileQuestion',
+    name: 'File Question',
+    description: 'Each question asked about an uploaded file.',
+    variables: ['question', 'language', 'languageInstruction'],
+    defaultTemplate: 'Based on the provided document, answer the following question: "{{question}}"{{languageInstruction}}',
+  },
+  {
+    id: 'ancillary',
+    name: 'Art & Concepts',
+    description: 'The related concepts and static ASCII art. Must ask for the JSON shape shown.',
+    variables: ['topic', 'senseInstruction', 'language', 'languageInstruction', 'palette'],
+    defaultTemplate: `
+      For the topic "{{topic}}", generate two pieces of data:
+      1. A list of 5-7 closely related concepts.
+      2. A meta ASCII art visualization for the topic.
+
+      The response must be a single JSON object with two keys: "concepts" and "artData".
+
+      - "concepts": An array of 5-7 strings. For "Hypertext", this could be ["HTML", "Vannevar Bush", "Non-linear", "World Wide Web", "Hyperlink"].
+      - "artData": An object with two keys:
+        - "art": A string containing the ASCII art. Use this palette: {{palette}}. The visual form must embody the word's essence.
+        - "hotspots": An array of 3-5 objects, where each object identifies a key character in the art and has keys: "char", "x" (column), "y" (row), and "concept" (a short related idea).
+      {{senseInstruction}}{{languageInstruction}}
+    `,
+  },
+  {
+    id: 'animatedAncillary',
+    name: 'Animated Art & Concepts',
+    description: 'The related concepts and animated ASCII art. Must ask for the JSON shape shown.',
+    variables: ['topic', 'senseInstruction', 'language', 'languageInstruction', 'palette', 'maxFrames'],
+    defaultTemplate: `
+      For the topic "{{topic}}", generate two pieces of data:
+      1. A list of 5-7 closely related concepts.
+      2. A short, looping ASCII art animation for the topic.
+
+      The response must be a single JSON object with two keys: "concepts" and "artData".
+
+      - "concepts": An array of 5-7 strings. For "Hypertext", this could be ["HTML", "Vannevar Bush", "Non-linear", "World Wide Web", "Hyperlink"].
+      - "artData": An object with three keys:
+        - "frames": An array of 4-{{maxFrames}} strings, each one frame of the animation. Every frame must have the same number of lines and the same line width, and the last frame must lead smoothly back into the first. For "Spiral" the spiral could rotate; for "Waves" the crests could travel across. Use this palette: {{palette}}. The motion must embody the word's essence.
+        - "art": A copy of the first frame.
+        - "hotspots": An array of 3-5 objects, where each object identifies a key character in the first frame and has keys: "char", "x" (column), "y" (row), and "concept" (a short related idea). Hotspots stay in place while the frames play, so choose characters that do not move.
+      {{senseInstruction}}{{languageInstruction}}
+    `,
+  },
+  {
+    id: 'deepDive',
+    name: 'Deep Dive',
+    description: 'The analysis and resources of a deep dive. Must ask for the JSON shape shown.',
+    variables: ['topic', 'senseInstruction', 'language', 'languageInstruction'],
+    defaultTemplate: `
+      For the topic "{{topic}}", provide a detailed analysis.{{senseInstruction}} Your response must be in JSON format.
+
+      The JSON object should contain two keys:
+      1. "summary": A string containing a comprehensive, multi-paragraph summary exploring the nuances, history, and significance of the topic. Wrap key concepts and terms within the summary text in double square brackets, like "[[Vannevar Bush]]" or "[[hyperlink]]", to make them interactive.
+      2. "resources": An array of 3-5 objects, where each object represents a curated resource for further learning. Each resource object must have:
+        - "title": The title of the resource (e.g., an article, a book, a video).
+        - "url": The full URL to the resource. If it's a book, link to a relevant page like Goodreads or Wikipedia.
+        - "description": A brief, one-sentence description of what the resource offers.
+      {{languageInstruction}}
+    `,
+  },
+  {
+    id: 'etymology',
+    name: 'Etymology',
+    description: 'The word origin and pronunciation. Must ask for the JSON shape shown.',
+    variables: ['topic', 'language', 'languageInstruction'],
+    defaultTemplate: `
+      For the term "{{topic}}", describe its etymology and pronunciation. Your response must be in JSON format.
+
+      The JSON object should contain these keys:
+      1. "ipa": The IPA transcription of the term's standard pronunciation, without surrounding slashes.
+      2. "rootLanguage": The language the term ultimately comes from, such as "Ancient Greek" or "Proto-Germanic".
+      3. "morphemes": An array of objects, one for each meaningful part of the term, in order. Each object must have "form" (the part as written in the term), "meaning" (a short gloss) and "language" (the language the part comes from). For "Telephone": [{"form": "tele", "meaning": "far", "language": "Ancient Greek"}, {"form": "phone", "meaning": "sound, voice", "language": "Ancient Greek"}].
+      4. "firstAttested": When and where the term is first recorded, such as "1835, French" or "c. 1380, Middle English".
+      5. "cognates": An array of 2-5 objects for related words in other languages, each with "word" and "language".
+      6. "history": One or two sentences on how the meaning shifted on the way to the present one.
+      If the term is a phrase, describe its most distinctive word. If part of the origin is uncertain, say so rather than guessing.
+      Keep "ipa", and the "form" and "word" values, in their original scripts.{{languageInstruction}}
+    `,
+  },
+  {
+    id: 'comparison',
+    name: 'Comparison',
+    description: 'The comparison of two topics in compare mode. Must ask for the JSON shape shown.',
+    variables: ['topicA', 'topicB', 'language', 'languageInstruction', 'palette'],
+    defaultTemplate: `
+      Compare the concepts "{{topicA}}" and "{{topicB}}". Your response must be in JSON format.
+
+      The JSON object should contain four keys:
+      1. "relationship": A short label for how the two concepts relate, such as "complementary opposites", "special case", "rival theories" or "cause and effect".
+      2. "shared": An array of 2-5 short strings, each a trait both concepts share.
+      3. "differences": An array of 3-6 objects, each contrasting the concepts on one aspect, with keys "aspect" (what is compared), "a" (how "{{topicA}}" stands) and "b" (how "{{topicB}}" stands). Keep each value to a short phrase.
+      4. "diagram": A single string of ASCII art showing both concepts and their relationship, with "{{topicA}}" on the left and "{{topicB}}" on the right, at most 60 characters wide and 16 lines tall. Use this palette: {{palette}}.
+      {{languageInstruction}}
+    `,
+  },
+  {
+    id: 'bridgeHop',
+    name: 'Bridge Hop',
+    description: 'Each step of a bridge between two topics. Must ask for the JSON shape shown.',
+    variables: ['topic', 'target', 'candidates', 'language', 'languageInstruction'],
+    defaultTemplate: `
+      You are building a chain of concepts from "{{topic}}" to "{{target}}", one related concept at a time, like a race through an encyclopedia.
+      From "{{topic}}" the next step must be one of these concepts: {{candidates}}.
+      The first is "{{target}}" itself: choose it if "{{topic}}" relates to it directly, since that completes the chain.
+      Otherwise choose the related concept that leads most directly toward "{{target}}".
+
+      Your response must be a JSON object with two keys:
+      - "next": The chosen concept, spelled exactly as in the list.
+      - "reason": One short line on how "{{topic}}" connects to the chosen concept.
+      {{languageInstruction}}
+    `,
+  },
+  {
+    id: 'quiz',
+    name: 'Quiz',
+    description: 'The multiple-choice review questions about a topic. Must ask for the JSON shape shown.',
+    variables: ['topic', 'definition', 'language', 'languageInstruction'],
+    defaultTemplate: `
+      Write multiple-choice questions that test whether a reader remembers the concept "{{topic}}", as defined here:
+      "{{definition}}"
+
+      Your response must be a JSON object with one key, "questions": an array of 3 objects, each with:
+      - "question": The question. Test understanding rather than wording, and do not give the answer away.
+      - "options": An array of 4 short, plausible answers, exactly one of them correct.
+      - "answerIndex": The index of the correct answer in "options", from 0 to 3. Vary its position between questions.
+      {{languageInstruction}}
+    `,
+  },
+  {
+    id: 'senses',
+    name: 'Senses',
+    description: 'The check for an ambiguous search, run before its definition. Must ask for the JSON shape shown.',
+    variables: ['topic', 'language', 'languageInstruction'],
+    defaultTemplate: `
+      Decide whether the search term "{{topic}}" is ambiguous: whether people searching for it commonly mean clearly different things, like the planet, the chemical element and the Roman god for "Mercury".
+
+      Your response must be a JSON object with one key, "senses": an array of objects, each with:
+      - "label": A short label that tells the sense apart, such as "planet" or "chemical element".
+      - "gloss": One line describing the sense.
+      List the 2-6 most common senses, the most common first. If the term has one meaning, or one meaning clearly dominates, return an empty array.
+      {{languageInstruction}}
+    `,
+  },
+];
+
+/**
+ * Looks up a prompt template by ID.
+ * @param id The template ID.
+ * @returns The template's description and default text.
+ */
+export function getPromptTemplateSpec(id: PromptTemplateId): PromptTemplateSpec {
+  return PROMPT_TEMPLATES.find(spec => spec.id === id)!;
+}
@@ -6,6 +6,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initCache } from './services/cacheService';
+import { initReplayFixture } from './services/providers/fixtureStore';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,8 +15,11 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// Load the persistent cache and the replay fixture first so cached topics render without a request.
+Promise.all([initCache(), initReplayFixture()]).finally(() => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Helpers for cancelling in-flight generation with an `AbortSignal`.
+ * Every cancelled operation rejects with a DOMException named "AbortError",
+ * the same error `fetch` uses, so callers can tell a cancellation from a failure.
+ */
+
+/**
+ * Creates the error thrown by a cancelled operation.
+ * @returns An AbortError.
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('The request was aborted.', 'AbortError');
+}
+
+/**
+ * Checks whether an error comes from a cancelled operation.
+ * @param error The caught error.
+ * @returns True for an AbortError.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted.
+ * @param signal The optional abort signal.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Waits for a delay, rejecting early if the signal is aborted.
+ * @param ms The delay in milliseconds.
+ * @param signal An optional abort signal.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
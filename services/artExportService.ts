@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { normalizeAsciiArt } from './artNormalizer';
+import { getTopicSlug } from './sessionGraph';
+import type { AsciiArtData, Hotspot } from './types';
+import { validateAsciiArtData } from './validation';
+
+/**
+ * Renders ASCII art to standalone files: an SVG in the app's monospace font and glow
+ * colors, a PNG rasterized from that SVG, plain text, and a JSON document that keeps the
+ * hotspots so the art can be imported again with its interactive points. Images and text
+ * show the first frame of animated art; the JSON document keeps every frame.
+ */
+
+export interface ArtExport {
+  format: 'lexicon-nexus-art';
+  version: 1;
+  topic: string;
+  exportedAt: string;
+  artData: AsciiArtData;
+}
+
+export interface ImportedArt {
+  topic: string;
+  artData: AsciiArtData; // Carries what the art normalizer fixed, if anything.
+}
+
+// Mirrors the :root variables and the .ascii-art rules in index.css.
+const STYLE = {
+  background: '#0a0f1e',
+  text: '#6c7986',
+  accent: '#00ffff',
+  glow: 'rgba(0, 255, 255, 0.3)',
+  fontFamily: "'Roboto Mono', monospace",
+  fontSize: 16,
+  lineHeight: 1.1,
+  padding: 24,
+};
+// Monospace fonts advance about 0.6em per character; lines are stretched to exactly this grid.
+const CELL_WIDTH = STYLE.fontSize * 0.6;
+const CELL_HEIGHT = STYLE.fontSize * STYLE.lineHeight;
+const PNG_SCALE = 2;
+
+/**
+ * Escapes text for safe inclusion in XML.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Builds the base of a file name for a topic's art.
+ * @param topic The topic.
+ * @returns A name such as "lexicon-nexus-art-world-wide-web".
+ */
+export function getArtFileName(topic: string): string {
+  const slug = getTopicSlug(topic);
+  return `lexicon-nexus-art${slug ? `-${slug}` : ''}`;
+}
+
+/**
+ * Measures the art in character cells.
+ * @param lines The lines of the art, split into characters.
+ * @returns The width and height of the SVG in pixels.
+ */
+function measure(lines: string[][]): { width: number; height: number } {
+  const columns = Math.max(1, ...lines.map(line => line.length));
+  return {
+    width: Math.ceil(columns * CELL_WIDTH + STYLE.padding * 2),
+    height: Math.ceil(lines.length * CELL_HEIGHT + STYLE.padding * 2),
+  };
+}
+
+/**
+ * Renders art as an SVG. Hotspot characters are drawn in the accent color with a glow
+ * and carry their concept as a tooltip; the art and its hotspots are also embedded as
+ * JSON metadata.
+ * @param artData The art.
+ * @param topic The topic the art illustrates, used as the SVG title.
+ * @returns The SVG document.
+ */
+export function toArtSvg(artData: AsciiArtData, topic: string): string {
+  const lines = artData.art.split('\n').map(line => [...line]);
+  const { width, height } = measure(lines);
+  const hotspots = new Map<string, Hotspot>((artData.hotspots ?? []).map(spot => [`${spot.y}-${spot.x}`, spot]));
+  const baseline = (y: number) => (STYLE.padding + y * CELL_HEIGHT + CELL_HEIGHT * 0.8).toFixed(2);
+  const left = (x: number) => (STYLE.padding + x * CELL_WIDTH).toFixed(2);
+
+  const textLines = lines.map((line, y) => {
+    if (line.every(char => char === ' ')) return '';
+    // Hotspot characters are left blank here and drawn on top in the accent color.
+    const text = line.map((char, x) => hotspots.has(`${y}-${x}`) ? ' ' : char).join('');
+    return `    <text x="${left(0)}" y="${baseline(y)}" textLength="${(line.length * CELL_WIDTH).toFixed(2)}" lengthAdjust="spacing">${escapeXml(text)}</text>`;
+  }).filter(Boolean);
+
+  const hotspotGlyphs = [...hotspots.values()]
+    .filter(spot => lines[spot.y]?.[spot.x] !== undefined)
+    .map(spot => `    <text x="${left(spot.x)}" y="${baseline(spot.y)}" data-concept="${escapeXml(spot.concept)}"><title>${escapeXml(spot.concept)}</title>${escapeXml(lines[spot.y][spot.x])}</text>`);
+
+  const metadata = JSON.stringify({ topic, art: artData.art, hotspots: artData.hotspots ?? [] });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <title>${escapeXml(`ASCII art for ${topic}`)}</title>`,
+    `  <metadata>${escapeXml(metadata)}</metadata>`,
+    '  <defs>',
+    '    <filter id="glow" x="-50%" y="-50%" width="200%" height="200%">',
+    `      <feDropShadow dx="0" dy="0" stdDeviation="2.5" flood-color="${STYLE.glow}"/>`,
+    '    </filter>',
+    '  </defs>',
+    `  <rect width="100%" height="100%" fill="${STYLE.background}"/>`,
+    `  <g font-family="${escapeXml(STYLE.fontFamily)}" font-size="${STYLE.fontSize}" xml:space="preserve" fill="${STYLE.text}">`,
+    ...textLines,
+    '  </g>',
+    `  <g font-family="${escapeXml(STYLE.fontFamily)}" font-size="${STYLE.fontSize}" fill="${STYLE.accent}" filter="url(#glow)">`,
+    ...hotspotGlyphs,
+    '  </g>',
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Rasterizes art to a PNG by drawing its SVG onto a canvas at twice the SVG's size.
+ * An SVG drawn as an image cannot load web fonts, so the PNG uses a locally installed
+ * Roboto Mono if there is one and the browser's default monospace font otherwise.
+ * @param artData The art.
+ * @param topic The topic the art illustrates.
+ * @returns The PNG image.
+ */
+export async function toArtPng(artData: AsciiArtData, topic: string): Promise<Blob> {
+  const svg = toArtSvg(artData, topic);
+  const { width, height } = measure(artData.art.split('\n').map(line => [...line]));
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * PNG_SCALE;
+    canvas.height = height * PNG_SCALE;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('This browser cannot draw to a canvas.');
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the PNG.')), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Renders art as plain text, without trailing spaces.
+ * @param artData The art.
+ * @returns The text.
+ */
+export function toArtText(artData: AsciiArtData): string {
+  return artData.art.split('\n').map(line => line.trimEnd()).join('\n');
+}
+
+/**
+ * Renders art as a JSON document that can be imported again.
+ * @param artData The art.
+ * @param topic The topic the art illustrates.
+ * @returns The JSON document.
+ */
+export function toArtJson(artData: AsciiArtData, topic: string): string {
+  const exported: ArtExport = {
+    format: 'lexicon-nexus-art',
+    version: 1,
+    topic,
+    exportedAt: new Date().toISOString(),
+    artData: {
+      art: artData.art,
+      ...(artData.frames && { frames: artData.frames }),
+      ...(artData.hotspots && { hotspots: artData.hotspots }),
+    },
+  };
+  return JSON.stringify(exported, null, 2);
+}
+
+/**
+ * Reads art exported by `toArtJson`. The art is validated and normalized as if a model
+ * had drawn it, since the file may have been edited by hand.
+ * @param json The contents of the file.
+ * @returns The topic and the art.
+ * @throws An Error if the file is not an art export or its art is unusable.
+ */
+export function parseArtJson(json: string): ImportedArt {
+  let imported: Partial<ArtExport>;
+  try {
+    imported = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (imported?.format !== 'lexicon-nexus-art') {
+    throw new Error('The file is not an ASCII art export.');
+  }
+  const validation = validateAsciiArtData(imported.artData);
+  if (validation.ok === false) {
+    throw new Error(`The art in the file is unusable: ${validation.errors.join('; ')}.`);
+  }
+  const { artData, corrections } = normalizeAsciiArt(validation.value);
+  const topic = typeof imported.topic === 'string' && imported.topic.trim() ? imported.topic.trim() : 'Imported art';
+  return { topic, artData: corrections.length > 0 ? { ...artData, corrections } : artData };
+}
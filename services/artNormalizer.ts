@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ART_CHAR_SUBSTITUTES, ART_FALLBACK_CHAR, ART_PALETTE, MAX_ART_HEIGHT, MAX_ART_WIDTH } from '../config/artPalette';
+import type { AsciiArtData, Hotspot } from './types';
+
+/**
+ * Post-processing for model-drawn ASCII art, so it renders as a clean grid and its
+ * hotspots land on real characters. The pipeline strips markdown fences, expands tabs,
+ * maps characters outside the palette other than letters, gives every frame of animated art the same height,
+ * trims blank margins, crops to the maximum size, pads every line to the same width, and
+ * finally moves each hotspot to the nearest cell holding its character. Every change is described in the returned corrections.
+ */
+
+export interface NormalizedArt {
+  artData: AsciiArtData;
+  /** Human-readable descriptions of what was changed; empty if the art was already clean. */
+  corrections: string[];
+}
+
+export interface ArtLimits {
+  maxWidth: number;
+  maxHeight: number;
+}
+
+const TAB_WIDTH = 4;
+// Character cells are about twice as tall as they are wide, so a row away counts double.
+const ROW_DISTANCE_WEIGHT = 2;
+const PALETTE = new Set([...ART_PALETTE]);
+
+const isPrintableAscii = (char: string) => char >= ' ' && char <= '~';
+// Letters of any script, so accented and CJK labels survive.
+const isLetter = (char: string) => /^\p{L}$/u.test(char);
+
+/**
+ * Maps a character to the palette.
+ * @param char A single character.
+ * @returns The character itself if it is printable ASCII, a letter or in the palette, else a look-alike or the fallback.
+ */
+function toPaletteChar(char: string): string {
+  if (isPrintableAscii(char) || isLetter(char) || PALETTE.has(char)) return char;
+  return ART_CHAR_SUBSTITUTES[char] ?? ART_FALLBACK_CHAR;
+}
+
+/**
+ * Finds the nearest free cell holding a character.
+ * @returns The cell, or null if the character does not appear in a free cell.
+ */
+function findNearestCell(
+  grid: string[][],
+  char: string,
+  from: { x: number; y: number },
+  taken: Set<string>
+): { x: number; y: number } | null {
+  let best: { x: number; y: number } | null = null;
+  let bestDistance = Infinity;
+  grid.forEach((row, y) => row.forEach((cell, x) => {
+    if (cell !== char || taken.has(`${y}-${x}`)) return;
+    const distance = Math.hypot(x - from.x, (y - from.y) * ROW_DISTANCE_WEIGHT);
+    if (distance < bestDistance) {
+      best = { x, y };
+      bestDistance = distance;
+    }
+  }));
+  return best;
+}
+
+/**
+ * Removes markdown fences around one frame of art.
+ * @param lines The lines of the frame.
+ * @returns The remaining lines, how many lines were removed above them, and which fences were found.
+ */
+function stripFences(lines: string[]): { lines: string[]; removedAbove: number; opening: boolean; closing: boolean } {
+  let removedAbove = 0;
+  let opening = false;
+  let closing = false;
+  const firstContent = lines.findIndex(line => line.trim() !== '');
+  if (firstContent !== -1 && lines[firstContent].trim().startsWith('```')) {
+    lines = lines.slice(firstContent + 1);
+    removedAbove = firstContent + 1;
+    opening = true;
+  }
+  const lastContent = lines.map(line => line.trim() !== '').lastIndexOf(true);
+  if (lastContent !== -1 && /^```\s*$/.test(lines[lastContent].trim())) {
+    lines = lines.slice(0, lastContent);
+    closing = true;
+  }
+  return { lines, removedAbove, opening, closing };
+}
+
+/**
+ * Normalizes ASCII art and reconciles its hotspots with the normalized grid.
+ * The frames of animated art are normalized together, so they stay the same size and
+ * keep their alignment; hotspots are reconciled with the first frame.
+ * Running it on already normalized art changes nothing.
+ * @param artData The art as validated.
+ * @param limits The maximum width and height in character cells.
+ * @returns The normalized art and the corrections that were made.
+ */
+export function normalizeAsciiArt(
+  artData: AsciiArtData,
+  limits: ArtLimits = { maxWidth: MAX_ART_WIDTH, maxHeight: MAX_ART_HEIGHT }
+): NormalizedArt {
+  const corrections: string[] = [];
+  const sources = artData.frames?.length > 1 ? artData.frames : [artData.art];
+  const frameCount = sources.length;
+  const ofFrames = (count: number) => frameCount > 1 ? ` in ${count} of ${frameCount} frames` : '';
+  let frames = sources.map(source => source.replace(/\r\n?/g, '\n').split('\n'));
+  // Hotspot coordinates refer to the original first frame; these track how far the grid has shifted.
+  let rowOffset = 0;
+  let colOffset = 0;
+
+  // 1. Markdown fences around the art.
+  const stripped = frames.map(stripFences);
+  frames = stripped.map(frame => frame.lines);
+  rowOffset += stripped[0].removedAbove;
+  const openingCount = stripped.filter(frame => frame.opening).length;
+  const closingCount = stripped.filter(frame => frame.closing).length;
+  if (openingCount > 0) corrections.push(`Removed an opening markdown fence${ofFrames(openingCount)}.`);
+  if (closingCount > 0) corrections.push(`Removed a closing markdown fence${ofFrames(closingCount)}.`);
+
+  // 2. Tabs.
+  const tabbedCount = frames.filter(lines => lines.some(line => line.includes('\t'))).length;
+  if (tabbedCount > 0) {
+    frames = frames.map(lines => lines.map(line => line.replace(/[^\t]*\t/g, chunk => {
+      const text = chunk.slice(0, -1);
+      return text + ' '.repeat(TAB_WIDTH - ([...text].length % TAB_WIDTH));
+    })));
+    corrections.push(`Expanded tabs to ${TAB_WIDTH} spaces${ofFrames(tabbedCount)}.`);
+  }
+
+  // 3. Characters outside the palette.
+  const mapped = new Map<string, string>();
+  let grids = frames.map(lines => lines.map(line => [...line].map(char => {
+    const replacement = toPaletteChar(char);
+    if (replacement !== char) mapped.set(char, replacement);
+    return replacement;
+  })));
+  if (mapped.size > 0) {
+    const examples = [...mapped].slice(0, 5).map(([from, to]) => `${from}→${to}`).join(', ');
+    corrections.push(`Mapped ${mapped.size} characters outside the palette (${examples}${mapped.size > 5 ? ', …' : ''}).`);
+  }
+
+  // 4. Frames of different heights, padded at the bottom before margins are measured across all of them.
+  const rowCount = Math.max(...grids.map(grid => grid.length));
+  const shortCount = grids.filter(grid => grid.length < rowCount).length;
+  if (shortCount > 0) {
+    grids = grids.map(grid => [...grid, ...Array.from({ length: rowCount - grid.length }, (): string[] => [])]);
+    corrections.push(`Padded ${shortCount} of ${frameCount} frames to ${rowCount} rows.`);
+  }
+
+  // 5. Blank margins: blank rows above and below, and common indentation.
+  const contentWidth = (row: string[]) => {
+    let end = row.length;
+    while (end > 0 && row[end - 1] === ' ') end--;
+    return end;
+  };
+  const isBlankRow = (y: number) => grids.every(grid => contentWidth(grid[y]) === 0);
+  const rows = grids[0].map((_, y) => !isBlankRow(y));
+  const firstRow = rows.indexOf(true);
+  const lastRow = rows.lastIndexOf(true);
+  if (firstRow > 0 || (lastRow !== -1 && lastRow < rows.length - 1)) {
+    corrections.push('Removed blank rows around the art.');
+  }
+  rowOffset += Math.max(firstRow, 0);
+  grids = grids.map(grid => firstRow === -1 ? [] : grid.slice(firstRow, lastRow + 1));
+  const indent = Math.min(...grids.flat()
+    .filter(row => contentWidth(row) > 0)
+    .map(row => row.findIndex(cell => cell !== ' ')));
+  if (Number.isFinite(indent) && indent > 0) {
+    grids = grids.map(grid => grid.map(row => row.slice(indent)));
+    colOffset += indent;
+    corrections.push(`Removed ${indent} columns of common indentation.`);
+  }
+
+  // 6. Maximum size.
+  const height = grids[0].length;
+  if (height > limits.maxHeight) {
+    corrections.push(`Cropped ${height} rows to ${limits.maxHeight}.`);
+    grids = grids.map(grid => grid.slice(0, limits.maxHeight));
+  }
+  const widest = Math.max(0, ...grids.flat().map(contentWidth));
+  if (widest > limits.maxWidth) {
+    corrections.push(`Cropped ${widest} columns to ${limits.maxWidth}.`);
+    grids = grids.map(grid => grid.map(row => row.slice(0, limits.maxWidth)));
+  }
+
+  // 7. Pad (or cut trailing spaces) to a rectangle.
+  const width = Math.min(widest, limits.maxWidth);
+  const raggedCount = grids.flat().filter(row => row.length !== width).length;
+  if (raggedCount > 0) {
+    grids = grids.map(grid => grid.map(row =>
+      row.length > width ? row.slice(0, width) : [...row, ...Array(width - row.length).fill(' ')]
+    ));
+    corrections.push(`Evened ${raggedCount} ragged lines to a width of ${width}.`);
+  }
+
+  // 8. Hotspots, pinned to cells of the first frame.
+  const grid = grids[0];
+  let hotspots: Hotspot[] | undefined;
+  if (artData.hotspots) {
+    const taken = new Set<string>();
+    hotspots = [];
+    for (const hotspot of artData.hotspots) {
+      const char = toPaletteChar(hotspot.char);
+      const stated = { x: hotspot.x - colOffset, y: hotspot.y - rowOffset };
+      const cell = grid[stated.y]?.[stated.x] === char && !taken.has(`${stated.y}-${stated.x}`)
+        ? stated
+        : findNearestCell(grid, char, stated, taken);
+      if (!cell) {
+        corrections.push(`Dropped the hotspot "${hotspot.concept}": "${char}" does not appear in the art.`);
+        continue;
+      }
+      if (cell.x !== stated.x || cell.y !== stated.y) {
+        corrections.push(`Moved the hotspot "${hotspot.concept}" from column ${hotspot.x}, row ${hotspot.y} to the nearest "${char}", at column ${cell.x}, row ${cell.y} of the normalized art.`);
+      }
+      taken.add(`${cell.y}-${cell.x}`);
+      hotspots.push({ ...hotspot, char, x: cell.x, y: cell.y });
+    }
+  }
+
+  const texts = grids.map(frame => frame.map(row => row.join('')).join('\n'));
+  const normalized: AsciiArtData = { art: texts[0] };
+  if (texts.length > 1) normalized.frames = texts;
+  if (hotspots) normalized.hotspots = hotspots;
+  return { artData: normalized, corrections };
+}
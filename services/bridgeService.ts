@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { generateAncillaryData, generateBridgeHop } from './geminiService';
+import { throwIfAborted } from './abort';
+import type { BridgeHop } from './types';
+
+/**
+ * Bridges connect a start topic to a target topic through related concepts, like a race
+ * through an encyclopedia. Each step expands the current topic with the same related
+ * concepts that normal browsing shows, so expansions are cached and shared with it, and
+ * the model picks which of them leads toward the target. The target itself is always offered,
+ * so a topic that relates to it directly completes the bridge even if it is not listed.
+ */
+
+// The longest bridge searched for before giving up.
+export const MAX_BRIDGE_HOPS = 6;
+
+/**
+ * The bridge found so far. Until `isComplete`, the last hop has not reached the target.
+ */
+export interface BridgeProgress {
+  hops: BridgeHop[];
+  isComplete: boolean;
+}
+
+/**
+ * A search that ended without reaching the target. The hops found until then were already yielded.
+ */
+export class BridgeNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BridgeNotFoundError';
+  }
+}
+
+/**
+ * Normalizes a topic for comparison, ignoring case, Unicode form, punctuation and spacing.
+ */
+const normalizeTopic = (topic: string) =>
+  topic.normalize('NFKC').toLocaleLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+
+const sameTopic = (a: string, b: string) => normalizeTopic(a) === normalizeTopic(b);
+
+/**
+ * Builds a chain of related concepts from one topic to another, one hop at a time.
+ * A topic is never visited twice, so the search cannot loop.
+ * @param start The topic to start from.
+ * @param target The topic to reach.
+ * @param onRetry An optional callback to inform the UI about a retry attempt.
+ * @param signal An optional signal that cancels the search.
+ * @returns An async generator yielding the bridge after each hop, ending with a complete one.
+ * @throws BridgeNotFoundError if the target is not reached within `MAX_BRIDGE_HOPS` hops or the
+ *   related concepts run out; an AbortError when aborted; other errors if a request fails.
+ */
+export async function* findBridge(
+  start: string,
+  target: string,
+  onRetry?: (attempt: number, delay: number) => void,
+  signal?: AbortSignal
+): AsyncGenerator<BridgeProgress, void, undefined> {
+  const hops: BridgeHop[] = [];
+  const visited = [start];
+  let current = start;
+
+  while (hops.length < MAX_BRIDGE_HOPS) {
+    const { concepts } = await generateAncillaryData(current, onRetry, signal);
+    throwIfAborted(signal);
+    const related = concepts.filter(concept => !sameTopic(concept, target) && !visited.some(topic => sameTopic(topic, concept)));
+    if (related.length === 0) {
+      throw new BridgeNotFoundError(`Every concept related to "${current}" has already been visited.`);
+    }
+    const candidates = [target, ...related];
+
+    const choice = await generateBridgeHop(current, target, candidates, onRetry, signal);
+    hops.push({ from: current, to: choice.next, reason: choice.reason });
+    const isComplete = sameTopic(choice.next, target);
+    yield { hops: [...hops], isComplete };
+    if (isComplete) return;
+
+    visited.push(choice.next);
+    current = choice.next;
+  }
+  throw new BridgeNotFoundError(`No bridge to "${target}" within ${MAX_BRIDGE_HOPS} hops.`);
+}
+
+/**
+ * Draws a bridge as a vertical ASCII chain, with each hop's reason beside its arrow.
+ * @param start The topic the bridge starts from.
+ * @param hops The hops found so far.
+ * @returns The diagram.
+ */
+export function renderBridgeDiagram(start: string, hops: BridgeHop[]): string {
+  const lines = [`[ ${start} ]`];
+  for (const hop of hops) {
+    lines.push('    │', `    │  ${hop.reason}`, '    ▼', `[ ${hop.to} ]`);
+  }
+  return lines.join('\n');
+}
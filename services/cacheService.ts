@@ -3,61 +3,402 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import * as settingsService from './settingsService';
+
 /**
- * A simple service for interacting with sessionStorage.
- * Handles JSON parsing and stringifying with error handling.
+ * A persistent cache backed by IndexedDB, so generated content survives closing the tab.
+ * Entries are mirrored in memory after `initCache()` so that `get`/`set` can stay synchronous;
+ * writes go through to IndexedDB in the background. Each entry has a TTL, and the least
+ * recently used entries are evicted once the configured size budget is exceeded. Access
+ * times live in a separate, small store and are flushed in batches, so reading an entry
+ * never rewrites its value.
  */
 
-const PREFIX = 'lexiconNexus_';
+const DB_NAME = 'lexiconNexus';
+const DB_VERSION = 2;
+const STORE_NAME = 'cache';
+const ACCESS_STORE_NAME = 'access';
+// How long access times are collected before they are written in one transaction.
+const ACCESS_FLUSH_DELAY_MS = 2000;
+
+export const DEFAULT_BUDGET_MB = 50;
+export const DEFAULT_TTL_DAYS = 7;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface CacheEntry {
+  key: string;
+  value: unknown;
+  size: number; // Approximate size in bytes of the serialized value.
+  lastAccessedAt: number; // When the entry was written; later reads are kept in the access store.
+  expiresAt: number | null; // Null entries never expire.
+}
+
+interface AccessRecord {
+  key: string;
+  lastAccessedAt: number;
+}
+
+export interface CacheSetOptions {
+  /** Overrides the configured time-to-live for this entry. Null means it never expires. */
+  ttlMs?: number | null;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  entryCount: number;
+  totalBytes: number;
+  budgetBytes: number;
+}
+
+const entries = new Map<string, CacheEntry>();
+let totalBytes = 0;
+let hits = 0;
+let misses = 0;
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let readyPromise: Promise<void> | null = null;
+// Access times not yet written to IndexedDB, by key.
+const pendingAccess = new Map<string, number>();
+let accessFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const encoder = new TextEncoder();
 
 /**
- * Retrieves and parses a JSON value from sessionStorage.
- * @param key The key to retrieve.
- * @returns The parsed value, or null if not found or if parsing fails.
+ * Wraps an IDBRequest in a promise.
+ * @param request The request to await.
+ * @returns A promise resolving to the request's result.
  */
-export function get<T>(key: string): T | null {
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and on first use creates) the cache database.
+ * @returns The database, or null if IndexedDB is unavailable, in which case the cache is memory-only.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(ACCESS_STORE_NAME)) {
+          db.createObjectStore(ACCESS_STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening cache database, falling back to memory only:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Waits for a transaction to commit. Errors such as `QuotaExceededError` are only reported
+ * when the transaction aborts, after its requests have already succeeded.
+ * @param transaction The transaction to await.
+ * @returns A promise that rejects with the transaction's error if it fails or aborts.
+ */
+function whenComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Runs an operation against an object store and waits for it to commit.
+ * @param mode The transaction mode.
+ * @param operation Creates the request to run.
+ * @param storeName The store, by default the one holding the entries.
+ * @returns The request's result, or null if IndexedDB is unavailable.
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE_NAME
+): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) {
+    return null;
+  }
+  const transaction = db.transaction(storeName, mode);
+  const completion = whenComplete(transaction);
+  const [result] = await Promise.all([promisifyRequest(operation(transaction.objectStore(storeName))), completion]);
+  return result;
+}
+
+/**
+ * Writes the collected access times in a single transaction.
+ */
+async function flushAccessTimes(): Promise<void> {
+  accessFlushTimer = null;
+  const records: AccessRecord[] = [...pendingAccess].map(([key, lastAccessedAt]) => ({ key, lastAccessedAt }));
+  pendingAccess.clear();
+  const db = await openDatabase();
+  if (!db || records.length === 0) return;
+  const transaction = db.transaction(ACCESS_STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(ACCESS_STORE_NAME);
+  records.forEach(record => store.put(record));
+  await whenComplete(transaction);
+}
+
+/**
+ * Remembers that an entry was read, to be written with the next batch.
+ */
+function recordAccess(key: string, lastAccessedAt: number): void {
+  pendingAccess.set(key, lastAccessedAt);
+  if (!accessFlushTimer) {
+    accessFlushTimer = setTimeout(() => {
+      flushAccessTimes().catch(error => {
+        console.error('Error saving cache access times:', error);
+      });
+    }, ACCESS_FLUSH_DELAY_MS);
+  }
+}
+
+/**
+ * Returns the configured size budget in bytes.
+ */
+function getBudgetBytes(): number {
+  return settingsService.getSetting<number>('cacheBudgetMb', DEFAULT_BUDGET_MB) * 1024 * 1024;
+}
+
+/**
+ * Returns the configured default time-to-live in milliseconds, or null for no expiry.
+ */
+function getDefaultTtlMs(): number | null {
+  const days = settingsService.getSetting<number>('cacheTtlDays', DEFAULT_TTL_DAYS);
+  return days > 0 ? days * MS_PER_DAY : null;
+}
+
+/**
+ * Checks whether an entry has outlived its TTL.
+ */
+function isExpired(entry: CacheEntry, now = Date.now()): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= now;
+}
+
+/**
+ * Removes an entry from memory at once and from IndexedDB in the background.
+ * @returns A promise that resolves once the entry is deleted from IndexedDB; failures are logged.
+ */
+function removeEntry(key: string): Promise<void> {
+  const entry = entries.get(key);
+  if (!entry) return Promise.resolve();
+  entries.delete(key);
+  pendingAccess.delete(key);
+  totalBytes -= entry.size;
+  return Promise.all([
+    withStore('readwrite', store => store.delete(key)),
+    withStore('readwrite', store => store.delete(key), ACCESS_STORE_NAME),
+  ]).then(() => undefined, error => {
+    console.error(`Error deleting item "${key}" from cache:`, error);
+  });
+}
+
+/**
+ * Evicts least recently used entries until the cache fits within a byte budget.
+ * @param budgetBytes The size to shrink to.
+ * @returns A promise that resolves once the evicted entries are deleted from IndexedDB.
+ */
+async function evictToBudget(budgetBytes: number): Promise<void> {
+  if (totalBytes <= budgetBytes) return;
+  const byAge = [...entries.values()].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+  const removals: Promise<void>[] = [];
+  for (const entry of byAge) {
+    if (totalBytes <= budgetBytes) break;
+    removals.push(removeEntry(entry.key));
+  }
+  await Promise.all(removals);
+}
+
+/**
+ * Checks whether an error is the browser refusing a write for lack of storage.
+ */
+function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+/**
+ * Writes an entry to IndexedDB. If the browser quota is exceeded, the older half of the
+ * other entries is evicted and the write is retried once, after those entries are deleted.
+ * @throws The write's error if it still fails.
+ */
+async function persistEntry(entry: CacheEntry): Promise<void> {
   try {
-    const item = sessionStorage.getItem(PREFIX + key);
-    if (item === null) {
-      return null;
-    }
-    return JSON.parse(item) as T;
+    await withStore('readwrite', store => store.put(entry));
   } catch (error) {
-    console.error(`Error getting item "${key}" from cache:`, error);
+    if (!isQuotaExceededError(error)) {
+      throw error;
+    }
+    console.warn('Cache storage quota exceeded. Evicting older entries.');
+    await evictToBudget((totalBytes - entry.size) / 2 + entry.size);
+    if (entries.get(entry.key) === entry) {
+      await withStore('readwrite', store => store.put(entry));
+    }
+  }
+}
+
+/**
+ * Loads persisted entries into memory, dropping expired ones.
+ * Safe to call repeatedly; the load only happens once.
+ * @returns A promise that resolves once the cache is ready.
+ */
+export function initCache(): Promise<void> {
+  if (!readyPromise) {
+    readyPromise = (async () => {
+      try {
+        const stored = (await withStore('readonly', store => store.getAll())) as CacheEntry[] | null;
+        const accessed = (await withStore('readonly', store => store.getAll(), ACCESS_STORE_NAME)) as AccessRecord[] | null;
+        const accessTimes = new Map((accessed ?? []).map(record => [record.key, record.lastAccessedAt]));
+        const now = Date.now();
+        for (const entry of stored ?? []) {
+          if (isExpired(entry, now)) {
+            withStore('readwrite', store => store.delete(entry.key)).catch(() => {});
+            withStore('readwrite', store => store.delete(entry.key), ACCESS_STORE_NAME).catch(() => {});
+            continue;
+          }
+          entry.lastAccessedAt = Math.max(entry.lastAccessedAt, accessTimes.get(entry.key) ?? 0);
+          entries.set(entry.key, entry);
+          totalBytes += entry.size;
+        }
+        evictToBudget(getBudgetBytes());
+      } catch (error) {
+        console.error('Error loading cache:', error);
+      }
+    })();
+  }
+  return readyPromise;
+}
+
+/**
+ * Retrieves a value from the cache and marks it as recently used.
+ * Returns null for values that are not loaded yet; use `getAsync` where that matters.
+ * @param key The key to retrieve.
+ * @returns The cached value, or null if not found or expired.
+ */
+export function get<T>(key: string): T | null {
+  const entry = entries.get(key);
+  if (!entry || isExpired(entry)) {
+    if (entry) removeEntry(key);
+    misses++;
     return null;
   }
+  hits++;
+  entry.lastAccessedAt = Date.now();
+  recordAccess(key, entry.lastAccessedAt);
+  return entry.value as T;
 }
 
 /**
- * Stringifies and saves a value to sessionStorage.
+ * Saves a value to the cache. The write to IndexedDB happens in the background.
  * @param key The key to save under.
- * @param value The value to save.
+ * @param value The value to save. Must be JSON-serializable.
+ * @param options Optional per-entry settings such as the TTL.
  */
-export function set<T>(key: string, value: T): void {
-  try {
-    const item = JSON.stringify(value);
-    sessionStorage.setItem(PREFIX + key, item);
-  } catch (error) {
+export function set<T>(key: string, value: T, options: CacheSetOptions = {}): void {
+  setAsync(key, value, options).catch(error => {
     console.error(`Error setting item "${key}" in cache:`, error);
+  });
+}
+
+/**
+ * Waits for the cache to load, then retrieves a value.
+ * @param key The key to retrieve.
+ * @returns A promise resolving to the cached value, or null if not found or expired.
+ */
+export async function getAsync<T>(key: string): Promise<T | null> {
+  await initCache();
+  return get<T>(key);
+}
+
+/**
+ * Saves a value to the cache and waits until it has been persisted.
+ * @param key The key to save under.
+ * @param value The value to save. Must be JSON-serializable.
+ * @param options Optional per-entry settings such as the TTL.
+ */
+export async function setAsync<T>(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+  const size = encoder.encode(JSON.stringify(value)).byteLength;
+  const budgetBytes = getBudgetBytes();
+  if (size > budgetBytes) {
+    console.warn(`Item "${key}" (${size} bytes) exceeds the cache budget and was not cached.`);
+    return;
   }
+
+  const now = Date.now();
+  const ttlMs = options.ttlMs === undefined ? getDefaultTtlMs() : options.ttlMs;
+  const entry: CacheEntry = {
+    key,
+    value,
+    size,
+    lastAccessedAt: now,
+    expiresAt: ttlMs === null ? null : now + ttlMs,
+  };
+
+  const previous = entries.get(key);
+  if (previous) {
+    totalBytes -= previous.size;
+  }
+  entries.set(key, entry);
+  totalBytes += size;
+  evictToBudget(budgetBytes);
+
+  await persistEntry(entry);
 }
 
 /**
- * Clears all sessionStorage entries created by this app.
+ * Clears all cache entries created by this app. The IndexedDB clear happens in the background.
  */
 export function clearAll(): void {
-  try {
-    // Create a list of keys to remove to avoid issues with modifying the collection while iterating
-    const keysToRemove: string[] = [];
-    for (let i = 0; i < sessionStorage.length; i++) {
-        const key = sessionStorage.key(i);
-        if (key && key.startsWith(PREFIX)) {
-            keysToRemove.push(key);
-        }
-    }
-    
-    keysToRemove.forEach(key => sessionStorage.removeItem(key));
-  } catch (error) {
-    console.error('Error clearing session cache:', error);
-  }
+  clearAllAsync().catch(error => {
+    console.error('Error clearing cache:', error);
+  });
+}
+
+/**
+ * Clears all cache entries and waits until IndexedDB has been cleared.
+ */
+export async function clearAllAsync(): Promise<void> {
+  entries.clear();
+  pendingAccess.clear();
+  totalBytes = 0;
+  await withStore('readwrite', store => store.clear());
+  await withStore('readwrite', store => store.clear(), ACCESS_STORE_NAME);
+}
+
+/**
+ * Reports cache usage and effectiveness since the page loaded.
+ * @returns The current cache statistics.
+ */
+export function getStats(): CacheStats {
+  return {
+    hits,
+    misses,
+    entryCount: entries.size,
+    totalBytes,
+    budgetBytes: getBudgetBytes(),
+  };
+}
+
+/**
+ * Re-applies the size budget, e.g. after the user lowers it in the settings.
+ */
+export function enforceBudget(): void {
+  evictToBudget(getBudgetBytes());
 }
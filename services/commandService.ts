@@ -0,0 +1,333 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as settingsService from './settingsService';
+import { DEFAULT_MAX_CONCURRENT_REQUESTS, DEFAULT_REQUESTS_PER_MINUTE } from './requestScheduler';
+import { getDefaultModelId, getModelsForProvider, PROVIDERS } from '../config/models';
+import { DEFAULT_ART_FPS } from '../config/artPalette';
+import { LANGUAGES } from '../config/languages';
+import { DEFINITION_LENGTHS, DEFINITION_STYLES } from '../config/definitionStyles';
+import { t } from './i18n';
+import type { ExportFormat } from './exportService';
+import type { MessageKey } from '../config/messages';
+
+/**
+ * The `:` command line. Commands are parsed here into plain objects; the app carries out
+ * the ones that act on exploration state, and `:set` is applied here directly, with the
+ * same side effects as the settings panel.
+ */
+
+export type Command =
+  | { name: 'go'; topic: string }
+  | { name: 'compare'; topicA: string | null; topicB: string } // A null first topic means the current one.
+  | { name: 'bridge'; start: string | null; target: string } // A null start means the current topic.
+  | { name: 'back' }
+  | { name: 'review' }
+  | { name: 'forward' }
+  | { name: 'deep' }
+  | { name: 'random' }
+  | { name: 'abort' }
+  | { name: 'export'; format: ExportFormat }
+  | { name: 'set'; key: string | null; value: string | null }
+  | { name: 'help' };
+
+/**
+ * A command that could not be parsed or carried out. The message is shown on the command line.
+ */
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+interface CommandSpec {
+  name: Command['name'];
+  aliases: string[];
+  usage: string;
+  description: MessageKey;
+}
+
+const COMMANDS: CommandSpec[] = [
+  { name: 'go', aliases: ['g', 'open', 'o'], usage: ':go <topic>', description: 'cmdGo' },
+  { name: 'compare', aliases: ['c', 'vs'], usage: ':compare [<a> vs] <b>', description: 'cmdCompare' },
+  { name: 'bridge', aliases: ['br'], usage: ':bridge [<a> ->] <b>', description: 'cmdBridge' },
+  { name: 'review', aliases: ['rv'], usage: ':review', description: 'cmdReview' },
+  { name: 'back', aliases: ['b'], usage: ':back', description: 'cmdBack' },
+  { name: 'forward', aliases: ['f'], usage: ':forward', description: 'cmdForward' },
+  { name: 'deep', aliases: ['d'], usage: ':deep', description: 'cmdDeep' },
+  { name: 'random', aliases: ['r'], usage: ':random', description: 'cmdRandom' },
+  { name: 'abort', aliases: ['stop'], usage: ':abort', description: 'cmdAbort' },
+  { name: 'export', aliases: ['e'], usage: ':export [md|json|html]', description: 'cmdExport' },
+  { name: 'set', aliases: [], usage: ':set [<option>=<value>]', description: 'cmdSet' },
+  { name: 'help', aliases: ['h', '?'], usage: ':help', description: 'cmdHelp' },
+];
+
+const EXPORT_FORMATS: Record<string, ExportFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  json: 'json',
+  html: 'html',
+};
+
+const COMPARISON_PATTERN = /^(.+?)\s+(?:vs\.?|versus)\s+(.+)$/i;
+
+/**
+ * Reads a search for two topics to compare, such as "Order vs Chaos" or "Order versus Chaos".
+ * @param query The search text.
+ * @returns The two topics, or null if the query is not a comparison of two different topics.
+ */
+export function parseComparisonQuery(query: string): { topicA: string; topicB: string } | null {
+  const match = query.trim().match(COMPARISON_PATTERN);
+  if (!match) return null;
+  const topicA = match[1].trim();
+  const topicB = match[2].trim();
+  return topicA.toLowerCase() !== topicB.toLowerCase() ? { topicA, topicB } : null;
+}
+
+const BRIDGE_PATTERN = /^(.+?)\s*(?:->|→|=>)\s*(.+)$/;
+
+/**
+ * Reads a search for a bridge between two topics, such as "Order -> Chaos" or "Order → Chaos".
+ * @param query The search text.
+ * @returns The start and target topics, or null if the query is not a bridge between two different topics.
+ */
+export function parseBridgeQuery(query: string): { start: string; target: string } | null {
+  const match = query.trim().match(BRIDGE_PATTERN);
+  if (!match) return null;
+  const start = match[1].trim();
+  const target = match[2].trim();
+  return start.toLowerCase() !== target.toLowerCase() ? { start, target } : null;
+}
+
+interface OptionSpec {
+  key: string;
+  /** Describes the option in the interface language. */
+  description: () => string;
+  get: () => string;
+  /** Applies a value. @returns A confirmation. @throws CommandError if the value is not allowed. */
+  set: (value: string) => string;
+}
+
+/**
+ * Reads an on/off value as vim spells it.
+ */
+function readToggle(value: string): boolean {
+  const normalized = value.toLowerCase();
+  if (['on', 'true', 'yes', '1'].includes(normalized)) return true;
+  if (['off', 'false', 'no', '0'].includes(normalized)) return false;
+  throw new CommandError(t('expectedToggle', { value }));
+}
+
+/**
+ * Reads a whole number within a range.
+ */
+function readNumber(value: string, min: number, max: number): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new CommandError(t('expectedNumber', { min, max, value }));
+  }
+  return number;
+}
+
+const OPTIONS: OptionSpec[] = [
+  {
+    key: 'provider',
+    description: () => t('optProvider', { values: PROVIDERS.map(provider => provider.id).join(', ') }),
+    get: () => settingsService.getActiveProviderId(),
+    set: value => {
+      const provider = PROVIDERS.find(candidate => candidate.id === value.toLowerCase());
+      if (!provider) {
+        throw new CommandError(t('unknownProvider', { value, values: PROVIDERS.map(candidate => candidate.id).join(', ') }));
+      }
+      settingsService.setSetting('apiProvider', provider.id);
+      settingsService.setSetting('apiModel', getDefaultModelId(provider.id));
+      return t('setProvider', { name: provider.name });
+    },
+  },
+  {
+    key: 'model',
+    description: () => t('optModel'),
+    get: () => settingsService.getActiveModelId(),
+    set: value => {
+      const models = getModelsForProvider(settingsService.getActiveProviderId());
+      const listed = models.find(model => model.id !== 'custom-model' && model.id === value);
+      if (listed) {
+        settingsService.setSetting('apiModel', listed.id);
+      } else if (models.some(model => model.id === 'custom-model')) {
+        settingsService.setSetting('apiModel', 'custom-model');
+        settingsService.setSetting('customApiModel', value);
+      } else {
+        throw new CommandError(t('unknownModel', { value, values: models.map(model => model.id).join(', ') }));
+      }
+      return t('setModel', { name: value });
+    },
+  },
+  {
+    key: 'language',
+    description: () => t('optLanguage'),
+    get: () => settingsService.getOutputLanguage().code,
+    set: value => {
+      const language = LANGUAGES.find(candidate => candidate.code === value.toLowerCase());
+      if (!language) {
+        throw new CommandError(t('unknownLanguage', { value, values: LANGUAGES.map(candidate => candidate.code).join(', ') }));
+      }
+      settingsService.setSetting('outputLanguage', language.code);
+      return t('setLanguage', { name: language.name });
+    },
+  },
+  {
+    key: 'style',
+    description: () => t('optStyle', { values: DEFINITION_STYLES.map(style => style.id).join(', ') }),
+    get: () => settingsService.getActiveDefinitionStyle().id,
+    set: value => {
+      const style = DEFINITION_STYLES.find(candidate => candidate.id === value.toLowerCase());
+      if (!style) {
+        throw new CommandError(t('unknownStyle', { value, values: DEFINITION_STYLES.map(candidate => candidate.id).join(', ') }));
+      }
+      settingsService.setSetting('definitionStyle', style.id);
+      return t('setStyle', { name: style.name });
+    },
+  },
+  {
+    key: 'length',
+    description: () => t('optLength', { values: DEFINITION_LENGTHS.map(length => length.id).join(', ') }),
+    get: () => settingsService.getActiveDefinitionLength().id,
+    set: value => {
+      const length = DEFINITION_LENGTHS.find(candidate => candidate.id === value.toLowerCase());
+      if (!length) {
+        throw new CommandError(t('unknownLength', { value, values: DEFINITION_LENGTHS.map(candidate => candidate.id).join(', ') }));
+      }
+      settingsService.setSetting('definitionLength', length.id);
+      return t('setLength', { name: length.name.toLowerCase() });
+    },
+  },
+  {
+    key: 'rpm',
+    description: () => t('optRpm'),
+    get: () => String(settingsService.getSetting<number>('requestsPerMinute', DEFAULT_REQUESTS_PER_MINUTE)),
+    set: value => {
+      settingsService.setSetting('requestsPerMinute', readNumber(value, 1, 1000));
+      return t('setRpm', { value });
+    },
+  },
+  {
+    key: 'concurrency',
+    description: () => t('optConcurrency'),
+    get: () => String(settingsService.getSetting<number>('maxConcurrentRequests', DEFAULT_MAX_CONCURRENT_REQUESTS)),
+    set: value => {
+      settingsService.setSetting('maxConcurrentRequests', readNumber(value, 1, 10));
+      return t('setConcurrency', { value });
+    },
+  },
+  {
+    key: 'hq',
+    description: () => t('optHq'),
+    get: () => settingsService.getSetting<boolean>('highQualityArt', true) ? 'on' : 'off',
+    set: value => {
+      const isOn = readToggle(value);
+      settingsService.setSetting('highQualityArt', isOn);
+      return isOn ? t('setHqOn') : t('setHqOff');
+    },
+  },
+  {
+    key: 'animated',
+    description: () => t('optAnimated'),
+    get: () => settingsService.isAnimatedArtEnabled() ? 'on' : 'off',
+    set: value => {
+      const isOn = readToggle(value);
+      settingsService.setSetting('animatedArt', isOn);
+      return isOn ? t('setAnimatedOn') : t('setAnimatedOff');
+    },
+  },
+  {
+    key: 'fps',
+    description: () => t('optFps'),
+    get: () => String(settingsService.getSetting<number>('animatedArtFps', DEFAULT_ART_FPS)),
+    set: value => {
+      settingsService.setSetting('animatedArtFps', readNumber(value, 1, 30));
+      return t('setFps', { value });
+    },
+  },
+];
+
+/**
+ * Parses a command line.
+ * @param line The text typed after the `:`.
+ * @returns The command.
+ * @throws CommandError if the command is unknown or its arguments are invalid.
+ */
+export function parseCommand(line: string): Command {
+  const trimmed = line.trim().replace(/^:/, '');
+  const [word = '', ...rest] = trimmed.split(/\s+/);
+  const argument = rest.join(' ').trim();
+  const spec = COMMANDS.find(command => command.name === word.toLowerCase() || command.aliases.includes(word.toLowerCase()));
+  if (!spec) {
+    throw new CommandError(word ? t('notACommand', { word }) : t('typeHelp'));
+  }
+
+  switch (spec.name) {
+    case 'go':
+      if (!argument) throw new CommandError(t('commandUsage', { usage: spec.usage }));
+      return { name: 'go', topic: argument };
+    case 'compare': {
+      if (!argument) throw new CommandError(t('commandUsage', { usage: spec.usage }));
+      const comparison = argument.match(COMPARISON_PATTERN);
+      return comparison
+        ? { name: 'compare', topicA: comparison[1].trim(), topicB: comparison[2].trim() }
+        : { name: 'compare', topicA: null, topicB: argument };
+    }
+    case 'bridge': {
+      if (!argument) throw new CommandError(t('commandUsage', { usage: spec.usage }));
+      const bridge = argument.match(BRIDGE_PATTERN);
+      return bridge
+        ? { name: 'bridge', start: bridge[1].trim(), target: bridge[2].trim() }
+        : { name: 'bridge', start: null, target: argument };
+    }
+    case 'export': {
+      const format = EXPORT_FORMATS[(argument || 'md').toLowerCase()];
+      if (!format) throw new CommandError(t('commandUsage', { usage: spec.usage }));
+      return { name: 'export', format };
+    }
+    case 'set': {
+      if (!argument) return { name: 'set', key: null, value: null };
+      const match = argument.match(/^([\w-]+)\s*=\s*(.+)$/);
+      if (!match) throw new CommandError(t('commandUsage', { usage: spec.usage }));
+      return { name: 'set', key: match[1].toLowerCase(), value: match[2].trim() };
+    }
+    default:
+      if (argument) throw new CommandError(t('commandTakesNoArguments', { usage: spec.usage }));
+      return { name: spec.name } as Command;
+  }
+}
+
+/**
+ * Applies a `:set` command.
+ * @param key The option, or null to list every option.
+ * @param value The new value.
+ * @returns A confirmation, or the list of options and their current values.
+ * @throws CommandError if the option is unknown or the value is not allowed.
+ */
+export function applySetting(key: string | null, value: string | null): string {
+  if (key === null) {
+    return OPTIONS.map(option => `${option.key}=${option.get()}`).join('  ');
+  }
+  const option = OPTIONS.find(candidate => candidate.key === key);
+  if (!option) {
+    throw new CommandError(t('unknownOption', { value: key, values: OPTIONS.map(candidate => candidate.key).join(', ') }));
+  }
+  return option.set(value ?? '');
+}
+
+/**
+ * Lists the commands and options for `:help`.
+ * @returns One line per command and option.
+ */
+export function getCommandHelp(): string[] {
+  return [
+    ...COMMANDS.map(command => `${command.usage.padEnd(26)}${t(command.description)}`),
+    ...OPTIONS.map(option => `${`:set ${option.key}=…`.padEnd(26)}${option.description()}`),
+  ];
+}
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as cache from './cacheService';
+import { getAncillaryCacheKey, getDeepDiveCacheKey, getDefinitionCacheKey } from './geminiService';
+import { getNodeId, getTopicSlug, GraphEdge, SessionGraph } from './sessionGraph';
+import type { AncillaryData, AsciiArtData, DeepDiveData, Resource } from './types';
+
+/**
+ * Builds portable records of an exploration session from the session graph and the cache.
+ * Nothing is regenerated: topics whose content was evicted from the cache are exported
+ * with the parts that are still available.
+ */
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export interface ExportedTopic {
+  topic: string;
+  anchor: string;
+  definition: string | null;
+  art: AsciiArtData | null;
+  relatedConcepts: string[];
+  deepDive: DeepDiveData | null;
+}
+
+export interface SessionExport {
+  format: 'lexicon-nexus-session';
+  version: 1;
+  exportedAt: string;
+  topics: ExportedTopic[]; // In visit order.
+  links: GraphEdge[];
+}
+
+const FORMAT_DETAILS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+/**
+ * Builds the in-document anchor for a topic, numbering it if another topic already has it.
+ * @param topic The topic.
+ * @param usedAnchors The anchors given out so far in this export; the new anchor is added.
+ * @returns An anchor ID such as "topic-world-wide-web" or "topic-world-wide-web-2".
+ */
+function toAnchor(topic: string, usedAnchors: Set<string>): string {
+  const base = `topic-${getTopicSlug(topic)}`.replace(/-+$/, '');
+  let anchor = base;
+  for (let index = 2; usedAnchors.has(anchor); index++) {
+    anchor = `${base}-${index}`;
+  }
+  usedAnchors.add(anchor);
+  return anchor;
+}
+
+/**
+ * Escapes text for safe inclusion in HTML.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Replaces the `[[keyword]]` markers of a deep-dive summary.
+ * @param summary The summary text.
+ * @param anchors Anchors of the exported topics, by node ID.
+ * @param linked Formats a keyword that is an exported topic.
+ * @param unlinked Formats any other keyword.
+ * @returns The rewritten summary.
+ */
+function replaceKeywords(
+  summary: string,
+  anchors: Map<string, string>,
+  linked: (keyword: string, anchor: string) => string,
+  unlinked: (keyword: string) => string
+): string {
+  return summary.replace(/\[\[(.*?)\]\]/g, (_, keyword: string) => {
+    const anchor = anchors.get(getNodeId(keyword));
+    return anchor ? linked(keyword, anchor) : unlinked(keyword);
+  });
+}
+
+/**
+ * Reads content cached for the sense a topic was first reached in, falling back to its general sense.
+ * @param key The cache key of the sense.
+ * @param generalKey The cache key of the general sense.
+ * @returns The content, or null if neither is cached.
+ */
+async function getCachedSense<T>(key: string, generalKey: string): Promise<T | null> {
+  return await cache.getAsync<T>(key) ?? await cache.getAsync<T>(generalKey);
+}
+
+/**
+ * Gathers the cached content of every visited topic, in visit order.
+ * @param graph The session graph.
+ * @returns The export bundle.
+ */
+export async function collectSession(graph: SessionGraph): Promise<SessionExport> {
+  const topics: ExportedTopic[] = [];
+  const usedAnchors = new Set<string>();
+  for (const node of graph.nodes) {
+    const context = node.parentId ? { parentTopic: node.parentId, sentence: node.sentence } : { sense: node.sense };
+    const ancillary = await getCachedSense<AncillaryData>(getAncillaryCacheKey(node.label, node.sense), getAncillaryCacheKey(node.label));
+    topics.push({
+      topic: node.label,
+      anchor: toAnchor(node.label, usedAnchors),
+      definition: await getCachedSense<string>(getDefinitionCacheKey(node.label, context), getDefinitionCacheKey(node.label)),
+      art: ancillary?.artData ?? null,
+      relatedConcepts: ancillary?.concepts ?? [],
+      deepDive: await getCachedSense<DeepDiveData>(getDeepDiveCacheKey(node.label, node.sense), getDeepDiveCacheKey(node.label)),
+    });
+  }
+  return {
+    format: 'lexicon-nexus-session',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    topics,
+    links: graph.edges,
+  };
+}
+
+/**
+ * Renders a session as Markdown, with an explicit anchor before each topic heading.
+ * @param session The export bundle.
+ * @returns The Markdown document.
+ */
+export function toMarkdown(session: SessionExport): string {
+  const anchors = new Map(session.topics.map(topic => [getNodeId(topic.topic), topic.anchor]));
+  const formatResource = (resource: Resource) =>
+    `- ${resource.url ? `[${resource.title}](${resource.url})` : resource.title} — ${resource.description}`;
+
+  const sections = session.topics.map((topic, i) => {
+    const parts = [`<a id="${topic.anchor}"></a>`, `## ${i + 1}. ${topic.topic}`];
+    parts.push(topic.definition ?? '_Definition not available._');
+    if (topic.art) {
+      parts.push('```text\n' + topic.art.art + '\n```');
+    }
+    if (topic.relatedConcepts.length > 0) {
+      parts.push('### Related Concepts', topic.relatedConcepts.map(concept => {
+        const anchor = anchors.get(getNodeId(concept));
+        return anchor ? `- [${concept}](#${anchor})` : `- ${concept}`;
+      }).join('\n'));
+    }
+    if (topic.deepDive) {
+      parts.push('### Deep Dive', replaceKeywords(
+        topic.deepDive.summary,
+        anchors,
+        (keyword, anchor) => `[${keyword}](#${anchor})`,
+        keyword => `**${keyword}**`
+      ));
+      if (topic.deepDive.resources.length > 0) {
+        parts.push('### Resources', topic.deepDive.resources.map(formatResource).join('\n'));
+      }
+    }
+    return parts.join('\n\n');
+  });
+
+  const contents = session.topics.map((topic, i) => `${i + 1}. [${topic.topic}](#${topic.anchor})`).join('\n');
+  return `# Lexicon Nexus Session\n\n_Exported ${session.exportedAt}_\n\n${contents}\n\n---\n\n${sections.join('\n\n---\n\n')}\n`;
+}
+
+/**
+ * Serializes a session as a structured JSON bundle.
+ * @param session The export bundle.
+ * @returns The JSON document.
+ */
+export function toJson(session: SessionExport): string {
+  return JSON.stringify(session, null, 2);
+}
+
+// A self-contained subset of index.css, so the exported page matches the app without external files.
+const HTML_STYLES = `
+  :root { --background-color: #0a0f1e; --text-color: #c0c5ce; --accent-color: #00ffff; --secondary-text-color: #6c7986; --container-background: #1a2336; --border-color: #323d52; --glow-color: rgba(0, 255, 255, 0.3); }
+  body { background: var(--background-color); color: var(--text-color); font-family: 'Roboto Mono', monospace; font-size: 1.1rem; line-height: 1.7; max-width: 75ch; margin: 0 auto; padding: 2rem; }
+  h1, h2, h3 { font-weight: 500; text-shadow: 0 0 5px var(--glow-color); }
+  h1 { font-size: 1rem; color: var(--accent-color); }
+  h2 { font-size: 1.8rem; color: var(--accent-color); text-transform: capitalize; line-height: 1.3; }
+  h2 .prefix, h3, .meta { color: var(--secondary-text-color); }
+  h3 { font-size: 1.2rem; }
+  a { color: var(--text-color); text-decoration: none; border-bottom: 1px dashed var(--border-color); }
+  a:hover { color: var(--accent-color); border-color: var(--accent-color); }
+  pre { white-space: pre; color: var(--secondary-text-color); line-height: 1.1; font-size: 0.8em; border: 1px solid var(--border-color); padding: 1.5rem; overflow-x: auto; }
+  section { border-top: 1px solid var(--border-color); padding-top: 2rem; margin-top: 2rem; }
+  .concepts { display: flex; flex-wrap: wrap; gap: 0.75rem; padding: 0; list-style: none; }
+  .concepts li { background: var(--container-background); border: 1px solid var(--border-color); padding: 0.5rem 1rem; }
+  .resources { list-style: none; padding: 0; }
+  .resources li::before { content: '►'; margin-right: 0.75rem; color: var(--accent-color); }
+  .resources p { font-size: 0.9em; color: var(--secondary-text-color); margin: 0.25rem 0 1rem 1.5rem; }
+`;
+
+/**
+ * Renders a session as a standalone HTML page styled like the app.
+ * @param session The export bundle.
+ * @returns The HTML document.
+ */
+export function toHtml(session: SessionExport): string {
+  const anchors = new Map(session.topics.map(topic => [getNodeId(topic.topic), topic.anchor]));
+  const link = (text: string, anchor: string) => `<a href="#${anchor}">${escapeHtml(text)}</a>`;
+
+  const sections = session.topics.map(topic => {
+    const parts = [`<section id="${topic.anchor}">`];
+    parts.push(`<h2><span class="prefix">// DEFINITION FOR: </span>${escapeHtml(topic.topic)}</h2>`);
+    if (topic.art) {
+      parts.push(`<pre>${escapeHtml(topic.art.art)}</pre>`);
+    }
+    parts.push(`<p>${topic.definition ? escapeHtml(topic.definition) : '<em>Definition not available.</em>'}</p>`);
+    if (topic.relatedConcepts.length > 0) {
+      const items = topic.relatedConcepts.map(concept => {
+        const anchor = anchors.get(getNodeId(concept));
+        return `<li>${anchor ? link(concept, anchor) : escapeHtml(concept)}</li>`;
+      });
+      parts.push('<h3>// RELATED CONCEPTS</h3>', `<ul class="concepts">${items.join('')}</ul>`);
+    }
+    if (topic.deepDive) {
+      // Escape first; the [[ ]] markers contain no HTML-special characters and survive escaping.
+      const summary = replaceKeywords(
+        escapeHtml(topic.deepDive.summary),
+        anchors,
+        (keyword, anchor) => `<a href="#${anchor}">${keyword}</a>`,
+        keyword => `<strong>${keyword}</strong>`
+      );
+      const paragraphs = summary.split(/\n+/).filter(Boolean).map(paragraph => `<p>${paragraph}</p>`);
+      parts.push('<h3>// COMPREHENSIVE ANALYSIS</h3>', ...paragraphs);
+      if (topic.deepDive.resources.length > 0) {
+        const items = topic.deepDive.resources.map(resource => {
+          const title = resource.url
+            ? `<a href="${escapeHtml(resource.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(resource.title)}</a>`
+            : escapeHtml(resource.title);
+          return `<li>${title}<p>${escapeHtml(resource.description)}</p></li>`;
+        });
+        parts.push('<h3>// RECOMMENDED RESOURCES</h3>', `<ul class="resources">${items.join('')}</ul>`);
+      }
+    }
+    parts.push('</section>');
+    return parts.join('\n');
+  });
+
+  const contents = session.topics.map(topic => `<li>${link(topic.topic, topic.anchor)}</li>`).join('');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>Lexicon Nexus Session</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>[LEXICON_NEXUS_v1.0] // SESSION EXPORT</h1>
+<p class="meta">Exported ${escapeHtml(session.exportedAt)}</p>
+<ol>${contents}</ol>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders a session in the requested format.
+ * @param session The export bundle.
+ * @param format The output format.
+ * @returns The file contents, suggested extension and MIME type.
+ */
+export function renderSession(
+  session: SessionExport,
+  format: ExportFormat
+): { content: string; extension: string; mimeType: string } {
+  const renderers: Record<ExportFormat, (bundle: SessionExport) => string> = {
+    markdown: toMarkdown,
+    json: toJson,
+    html: toHtml,
+  };
+  return { content: renderers[format](session), ...FORMAT_DETAILS[format] };
+}
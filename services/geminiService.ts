@@ -3,71 +3,187 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import {GoogleGenAI, Type} from '@google/genai';
 import * as cache from './cacheService';
 import * as settingsService from './settingsService';
+import { getActiveProvider } from './providers';
+import { MalformedJsonError, parseJsonResponse } from './providers/provider';
+import { parsePartialJson } from './partialJson';
+import { isAbortError, throwIfAborted } from './abort';
+import { isRateLimitError, RequestPriority, schedule, ScheduleOptions, scheduleStream } from './requestScheduler';
+import { BudgetExceededError, recordUsage, UsageKind } from './usageService';
+import {
+  buildAncillaryPrompt, buildBridgeHopPrompt, buildComparisonPrompt, buildDeepDivePrompt, buildEtymologyPrompt, buildQuizPrompt, buildRepairPrompt,
+  buildSensesPrompt,
+} from './prompts';
+import { getPromptCacheStamp, usesPromptVariable } from './promptTemplates';
+import type { PromptTemplateId } from '../config/promptTemplates';
+import { normalizeAsciiArt } from './artNormalizer';
+import { hashText } from './hash';
+import { t } from './i18n';
+import {
+  DocumentKind, SchemaValidationError, Validation, validateAncillaryData, validateBridgeHopChoice, validateComparisonData, validateDeepDiveData,
+  validateEtymologyData, validateQuizData, validateSenseData,
+} from './validation';
+import { DEFAULT_LANGUAGE_CODE } from '../config/languages';
+import { DEFAULT_DEFINITION_LENGTH_ID, DEFAULT_DEFINITION_STYLE_ID } from '../config/definitionStyles';
+import type {
+  AncillaryData, BridgeHopChoice, ChatTurn, ComparisonData, DeepDiveData, EtymologyData, FileAttachment, QuizData, SenseData, TopicContext, TopicSense,
+} from './types';
+
+export type {
+  AsciiArtData, AncillaryData, BridgeHop, BridgeHopChoice, ChatTurn, ComparisonData, ComparisonDifference, DeepDiveData, EtymologyData, Hotspot,
+  QuizData, QuizQuestion, Resource, SenseData, TopicContext, TopicSense,
+} from './types';
 
-const MAX_RETRIES = 3;
-const INITIAL_BACKOFF_MS = 2000;
+/**
+ * Builds the part of a cache key shared by all generated content: the active model, the
+ * endpoint for OpenAI-compatible servers, which can serve different models under one name,
+ * and, unless it is English, the output language. English keys predate the language setting.
+ * @returns The scope, ending in an underscore.
+ */
+function getCacheScope(): string {
+  const language = settingsService.getOutputLanguage();
+  const languageScope = language.code === DEFAULT_LANGUAGE_CODE ? '' : `${language.code}_`;
+  const endpointScope = settingsService.getActiveProviderId() === 'openai' ? `${hashText(settingsService.getOpenAiBaseUrl())}_` : '';
+  return `${settingsService.getActiveModelId()}_${endpointScope}${languageScope}`;
+}
 
 /**
- * Creates and returns a new GoogleGenAI instance using the currently active API key.
- * This function is called before each API request to ensure the correct key is used.
- * @returns A configured GoogleGenAI instance.
- * @throws An error if no API key is configured.
+ * Builds the part of a cache key that tells content about a picked sense apart.
+ * @param id The template that generates the content.
+ * @param sense The sense picked for an ambiguous search, if any.
+ * @returns A segment such as "sense_planet_", or an empty string if the prompt ignores the sense.
  */
-function getAiInstance(): GoogleGenAI {
-  const apiKey = settingsService.getApiKey();
-  if (!apiKey) {
-    throw new Error('API Key is not configured. Please add it in the settings panel.');
-  }
-  return new GoogleGenAI({ apiKey });
+function getSenseScope(id: PromptTemplateId, sense?: TopicSense): string {
+  return sense && usesPromptVariable(id, 'senseInstruction') ? `sense_${sense.label.toLowerCase()}_` : '';
 }
 
-interface Hotspot {
-  char: string;
-  x: number; // column
-  y: number; // row
-  concept: string;
+/**
+ * Checks whether the definition prompt depends on where a topic was reached from.
+ * @param context Where the topic was reached from.
+ * @returns True if the definition is written in the sense of the parent topic.
+ */
+export function isDefinitionInContext(context: TopicContext): boolean {
+  return Boolean(context.parentTopic) && ['parentTopic', 'sentence', 'contextInstruction'].some(variable => usesPromptVariable('definition', variable));
+}
+
+/**
+ * Builds the cache key for a topic's definition under the active model, language and prompt.
+ * Each style and length is cached separately; the default ones keep the original keys.
+ * A topic reached from another is cached per sense, keyed by the parent topic and the
+ * sentence it was clicked in, as far as the prompt uses them; so is a sense picked for a search.
+ * @param topic The topic.
+ * @param context Where the topic was reached from.
+ * @returns The cache key.
+ */
+export function getDefinitionCacheKey(topic: string, context: TopicContext = {}): string {
+  const style = settingsService.getActiveDefinitionStyle().id;
+  const length = settingsService.getActiveDefinitionLength().id;
+  const variant = style === DEFAULT_DEFINITION_STYLE_ID && length === DEFAULT_DEFINITION_LENGTH_ID ? '' : `${style}_${length}_`;
+  const usesContext = usesPromptVariable('definition', 'contextInstruction');
+  const parent = context.parentTopic && (usesContext || usesPromptVariable('definition', 'parentTopic')) ? `from_${context.parentTopic.toLowerCase()}_` : '';
+  const sentence = context.parentTopic && context.sentence && (usesContext || usesPromptVariable('definition', 'sentence')) ? `in_${hashText(context.sentence)}_` : '';
+  const sense = getSenseScope('definition', context.sense);
+  return `definition_${getCacheScope()}${getPromptCacheStamp('definition')}${variant}${parent}${sentence}${sense}${topic.toLowerCase()}`;
 }
 
-export interface AsciiArtData {
-  art: string;
-  hotspots?: Hotspot[];
+/**
+ * Builds the cache key for a topic's art and related concepts under the active model, language and prompt.
+ * Animated and static art are cached separately, and so is each picked sense.
+ * @param topic The topic.
+ * @param sense The sense picked for an ambiguous search, if any.
+ * @returns The cache key.
+ */
+export function getAncillaryCacheKey(topic: string, sense?: TopicSense): string {
+  const isAnimated = settingsService.isAnimatedArtEnabled();
+  const id = isAnimated ? 'animatedAncillary' : 'ancillary';
+  const variant = isAnimated ? 'animated_' : '';
+  return `ancillary_${getCacheScope()}${getPromptCacheStamp(id)}${variant}${getSenseScope(id, sense)}${topic.toLowerCase()}`;
 }
 
-interface Resource {
-  title: string;
-  url?: string;
-  description: string;
+/**
+ * Builds the cache key for a topic's deep dive under the active model, language and prompt.
+ * @param topic The topic.
+ * @param sense The sense picked for an ambiguous search, if any.
+ * @returns The cache key.
+ */
+export function getDeepDiveCacheKey(topic: string, sense?: TopicSense): string {
+  return `deepdive_${getCacheScope()}${getPromptCacheStamp('deepDive')}${getSenseScope('deepDive', sense)}${topic.toLowerCase()}`;
 }
 
-export interface DeepDiveData {
-  summary: string;
-  resources: Resource[];
+/**
+ * Builds the cache key for a topic's etymology under the active model, language and prompt.
+ * @param topic The topic.
+ * @returns The cache key.
+ */
+export function getEtymologyCacheKey(topic: string): string {
+  return `etymology_${getCacheScope()}${getPromptCacheStamp('etymology')}${topic.toLowerCase()}`;
 }
 
-export interface AncillaryData {
-  artData: AsciiArtData;
-  concepts: string[];
+/**
+ * Builds the cache key for a comparison under the active model, language and prompt.
+ * @param topicA The first topic.
+ * @param topicB The second topic.
+ * @returns The cache key.
+ */
+export function getComparisonCacheKey(topicA: string, topicB: string): string {
+  return `comparison_${getCacheScope()}${getPromptCacheStamp('comparison')}${topicA.toLowerCase()}_vs_${topicB.toLowerCase()}`;
 }
 
 /**
- * A centralized error handler for Gemini API calls.
+ * Builds the cache key for a step of a bridge under the active model, language and prompt.
+ * @param topic The topic the bridge has reached.
+ * @param target The topic the bridge is heading for.
+ * @param candidates The related concepts to choose from, which change as topics are visited.
+ * @returns The cache key.
+ */
+export function getBridgeHopCacheKey(topic: string, target: string, candidates: string[]): string {
+  const options = candidates.map(candidate => candidate.toLowerCase()).sort().join('|');
+  return `bridge_${getCacheScope()}${getPromptCacheStamp('bridgeHop')}${topic.toLowerCase()}_to_${target.toLowerCase()}_${options}`;
+}
+
+/**
+ * Builds the cache key for the review questions about a topic under the active model, language and prompt.
+ * @param topic The topic.
+ * @returns The cache key.
+ */
+export function getQuizCacheKey(topic: string): string {
+  return `quiz_${getCacheScope()}${getPromptCacheStamp('quiz')}${topic.toLowerCase()}`;
+}
+
+/**
+ * Builds the cache key for the senses of a searched term under the active model, language and prompt.
+ * @param topic The searched term.
+ * @returns The cache key.
+ */
+export function getSensesCacheKey(topic: string): string {
+  return `senses_${getCacheScope()}${getPromptCacheStamp('senses')}${topic.toLowerCase()}`;
+}
+
+/**
+ * A centralized error handler for LLM provider calls.
  * It checks for specific rate-limiting errors and returns a user-friendly message.
  * @param error The error object caught.
  * @param context A string describing the operation that failed (e.g., "generate ASCII art").
  * @returns A new Error object with a cleaned-up message.
  */
 function handleGeminiError(error: unknown, context: string): Error {
+  // Cancellations are not failures; pass them through untouched so callers can recognize them.
+  if (isAbortError(error)) {
+    return error as Error;
+  }
+  // These already explain themselves, and callers may inspect their details.
+  if (error instanceof BudgetExceededError || error instanceof SchemaValidationError) {
+    return error;
+  }
   console.error(`Error during ${context}:`, error);
   let message = 'An unknown error occurred.';
   if (error instanceof Error) {
     message = error.message;
   }
 
-  // Check for Gemini-specific rate limit error structure in the message string
-  if (typeof message === 'string' && (message.includes('RESOURCE_EXHAUSTED') || message.includes('"code":429') || message.includes('rate limit'))) {
+  // Rate limits that are still failing after the scheduler's retries.
+  if (isRateLimitError(error)) {
     // Return a more user-friendly error for rate limiting.
     return new Error('API rate limit exceeded. Please wait a moment and try again.');
   }
@@ -77,289 +193,512 @@ function handleGeminiError(error: unknown, context: string): Error {
 }
 
 /**
- * A wrapper for non-streaming Gemini API calls that implements exponential backoff on rate limit errors.
- * @param requestFn The async function that makes the API call.
- * @param onRetry An optional callback to inform the UI about a retry attempt.
- * @returns The result of the request function.
+ * Describes the request whose response is being validated, so it can be repeated as a repair.
  */
-async function geminiRequestWithRetry<T>(
-  requestFn: () => Promise<T>,
-  onRetry?: (attempt: number, delay: number) => void
-): Promise<T> {
-  let lastError: Error | null = null;
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      return await requestFn();
-    } catch (error: unknown) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      if (lastError.message.includes('API rate limit exceeded')) {
-        if (attempt < MAX_RETRIES - 1) {
-          const delay = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
-          if (onRetry) {
-            onRetry(attempt + 1, delay);
-          }
-          console.log(`Rate limit exceeded. Retrying in ${delay}ms... (Attempt ${attempt + 1})`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-      }
-      
-      throw lastError;
+interface RepairContext {
+  kind: DocumentKind;
+  prompt: string; // The prompt that produced the response.
+  modelId: string;
+  usageKind: UsageKind;
+  priority: RequestPriority;
+  signal?: AbortSignal;
+}
+
+/**
+ * Reads a cached document and validates it again, since the cache outlives the app version
+ * that wrote it and older entries may not match the current shape.
+ * @param cacheKey The cache key.
+ * @param validate The validator for the document.
+ * @returns The document, or null if nothing usable is cached.
+ */
+function getValidatedCache<T>(cacheKey: string, validate: (input: unknown) => Validation<T>): T | null {
+  const cachedData = cache.get<unknown>(cacheKey);
+  const cachedResult = cachedData ? validate(cachedData) : null;
+  return cachedResult?.ok ? cachedResult.value : null;
+}
+
+/**
+ * Schedules a provider request for a JSON document. A response that is not valid JSON is
+ * returned as its raw text instead of failing, so it still gets its repair attempt.
+ * @param request The provider call.
+ * @param options The priority, signal and retry callback.
+ * @returns The parsed response, or the raw text if it could not be parsed.
+ */
+async function scheduleJson(request: () => Promise<unknown>, options: ScheduleOptions): Promise<unknown> {
+  try {
+    return await schedule(request, options);
+  } catch (error) {
+    if (error instanceof MalformedJsonError) {
+      return error.text;
     }
+    throw error;
   }
-  throw lastError!;
 }
 
+/**
+ * Validates a model response and, if it cannot be used as is, asks the model once to
+ * repair it by sending back the response with the validation errors.
+ * @param input The parsed response, or the raw text if it was not valid JSON.
+ * @param validate The validator for the expected document.
+ * @param context The original request.
+ * @returns The validated, possibly coerced, document.
+ * @throws A SchemaValidationError if the repaired response is still invalid.
+ */
+async function validateOrRepair<T>(
+  input: unknown,
+  validate: (input: unknown) => Validation<T>,
+  context: RepairContext
+): Promise<T> {
+  const logWarnings = (warnings: string[]) => {
+    if (warnings.length > 0) {
+      console.warn(`Coerced the model's ${context.kind}:`, warnings);
+    }
+  };
+
+  const first = validate(input);
+  if (first.ok === true) {
+    logWarnings(first.warnings);
+    return first.value;
+  }
+
+  console.warn(`The model's ${context.kind} failed validation; requesting a repair.`, first.errors);
+  const invalidOutput = typeof input === 'string' ? input : JSON.stringify(input, null, 2);
+  const { modelId, usageKind, priority, signal } = context;
+  const repaired = await scheduleJson(
+    () => getActiveProvider().generateJson(buildRepairPrompt(context.prompt, invalidOutput, first.errors), modelId, {
+      signal,
+      onUsage: usage => recordUsage(usageKind, modelId, usage),
+    }),
+    { priority, signal }
+  );
+
+  const second = validate(repaired);
+  if (second.ok === false) {
+    throw new SchemaValidationError(context.kind, second.errors);
+  }
+  logWarnings(second.warnings);
+  return second.value;
+}
 
 /**
- * Streams a definition for a given topic from the Gemini API, with built-in retry logic.
+ * Streams a definition for a given topic from the active provider, with built-in retry logic.
  * @param topic The word or term to define.
+ * @param file An optional document to answer a question about.
+ * @param history Earlier turns of the conversation about the file, oldest first.
+ * @param signal An optional signal that cancels the request and any pending backoff.
+ * @param context Where the topic was reached from, for prompts that use it.
  * @returns An async generator that yields text chunks of the definition or retry status messages.
+ *   When aborted, it throws an AbortError.
  */
 export async function* streamDefinition(
   topicOrQuery: string,
-  file?: { data: string; mimeType: string; }
+  file?: FileAttachment,
+  history?: ChatTurn[],
+  signal?: AbortSignal,
+  context?: TopicContext
 ): AsyncGenerator<string, void, undefined> {
-  const ai = getAiInstance();
+  const provider = getActiveProvider();
   const modelId = settingsService.getActiveModelId();
-  let contents: any;
-
-  if (file) {
-    // This is a file query.
-    contents = {
-      parts: [
-        { inlineData: { mimeType: file.mimeType, data: file.data } },
-        { text: `Based on the provided document, answer the following question: "${topicOrQuery}"` }
-      ]
-    };
-  } else {
-    // This is a standard topic definition request.
-    const prompt = `Provide a concise, single-paragraph encyclopedia-style definition for the term: "${topicOrQuery}". Be informative and neutral. Do not use markdown, titles, or any special formatting. Respond with only the text of the definition itself.`;
-    contents = prompt;
-  }
 
-  let lastError: Error | null = null;
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const response = await ai.models.generateContentStream({
-        model: modelId,
-        contents: contents,
-        config: {
-          thinkingConfig: { thinkingBudget: 0 },
-        },
-      });
-
-      for await (const chunk of response) {
-        if (chunk.text) {
-          yield chunk.text;
-        }
-      }
-      return; // Success, exit generator.
-    } catch (error) {
-      const context = `generate content for "${topicOrQuery}"`;
-      lastError = handleGeminiError(error, context);
-
-      if (lastError.message.includes('API rate limit exceeded')) {
-        if (attempt < MAX_RETRIES - 1) {
-          const delay = INITIAL_BACKOFF_MS * Math.pow(2, attempt);
-          yield `[SYSTEM:RETRY]Rate limit exceeded. Retrying in ${Math.round(delay/1000)}s...`;
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
+  try {
+    const events = scheduleStream(
+      () => provider.streamDefinition(topicOrQuery, modelId, file, history, context, {
+        signal,
+        onUsage: usage => recordUsage('definition', modelId, usage),
+      }),
+      { priority: 'primary', signal }
+    );
+    for await (const event of events) {
+      if (event.type === 'retry') {
+        yield `[SYSTEM:RETRY]${t('rateLimitRetrying', { seconds: Math.round(event.delayMs / 1000) })}`;
+      } else {
+        yield event.value;
       }
-      throw lastError;
     }
+  } catch (error) {
+    throw handleGeminiError(error, `generate content for "${topicOrQuery}"`);
   }
 }
 
+/**
+ * Normalizes the art of validated ancillary data and reconciles its hotspots.
+ * @param data The validated data.
+ * @returns The data with clean art, carrying the list of corrections if there were any.
+ */
+function normalizeAncillaryData(data: AncillaryData): AncillaryData {
+  const { artData, corrections } = normalizeAsciiArt(data.artData);
+  if (corrections.length === 0) {
+    return data;
+  }
+  console.info('Normalized the ASCII art:', corrections);
+  return { ...data, artData: { ...artData, corrections: [...(data.artData.corrections ?? []), ...corrections] } };
+}
+
 /**
  * Generates ASCII art and related concepts for a topic, with retry logic.
  * @param topic The topic to generate data for.
  * @param onRetry An optional callback to inform the UI about a retry attempt.
- * @returns A promise resolving to an object with art and concepts.
+ * @param signal An optional signal that cancels the request and any pending backoff.
+ * @param sense The sense picked for an ambiguous search, if any.
+ * @returns A promise resolving to an object with art and concepts. Rejects with an AbortError when aborted.
  */
 export async function generateAncillaryData(
   topic: string,
-  onRetry?: (attempt: number, delay: number) => void
+  onRetry?: (attempt: number, delay: number) => void,
+  signal?: AbortSignal,
+  sense?: TopicSense
 ): Promise<AncillaryData> {
   const modelId = settingsService.getActiveModelId();
-  const cacheKey = `ancillary_${modelId}_${topic.toLowerCase()}`;
-  const cachedData = cache.get<AncillaryData>(cacheKey);
+  const cacheKey = getAncillaryCacheKey(topic, sense);
+  const cachedData = getValidatedCache(cacheKey, validateAncillaryData);
   if (cachedData) {
-    return cachedData;
+    return normalizeAncillaryData(cachedData);
   }
 
-  const apiCall = async () => {
-    const ai = getAiInstance();
-    const prompt = `
-      For the topic "${topic}", generate two pieces of data:
-      1. A list of 5-7 closely related concepts.
-      2. A meta ASCII art visualization for the topic.
-
-      The response must be a single JSON object with two keys: "concepts" and "artData".
+  const apiCall = () => getActiveProvider().generateAncillaryData(topic, modelId, sense, {
+    signal,
+    onUsage: usage => recordUsage('ancillary', modelId, usage),
+  });
+
+  try {
+    const response = await scheduleJson(apiCall, { priority: 'ancillary', signal, onRetry });
+    const validated = await validateOrRepair(response, validateAncillaryData, {
+      kind: 'art and concepts',
+      prompt: buildAncillaryPrompt(topic, settingsService.getOutputLanguage(), settingsService.isAnimatedArtEnabled(), sense),
+      modelId,
+      usageKind: 'ancillary',
+      priority: 'ancillary',
+      signal,
+    });
+    const data = normalizeAncillaryData(validated);
+    throwIfAborted(signal); // Never cache a response the caller has already given up on.
+    cache.set(cacheKey, data);
+    return data;
+  } catch (error) {
+    throw handleGeminiError(error, `generate ancillary data for "${topic}"`);
+  }
+}
 
-      - "concepts": An array of 5-7 strings. For "Hypertext", this could be ["HTML", "Vannevar Bush", "Non-linear", "World Wide Web", "Hyperlink"].
-      - "artData": An object with two keys:
-        - "art": A string containing the ASCII art. Use this palette: │─┌┐└┘├┤┬┴┼►◄▲▼○●◐◑░▒▓█▀▄■□▪▫★☆♦♠♣♥⟨⟩/\\_|. The visual form must embody the word's essence.
-        - "hotspots": An array of 3-5 objects, where each object identifies a key character in the art and has keys: "char", "x" (column), "y" (row), and "concept" (a short related idea).
-    `;
+/**
+ * Generates the etymology and pronunciation of a topic, with retry logic.
+ * @param topic The word or term.
+ * @param onRetry An optional callback to inform the UI about a retry attempt.
+ * @param signal An optional signal that cancels the request and any pending backoff.
+ * @returns A promise resolving to the etymology. Rejects with an AbortError when aborted.
+ */
+export async function generateEtymology(
+  topic: string,
+  onRetry?: (attempt: number, delay: number) => void,
+  signal?: AbortSignal
+): Promise<EtymologyData> {
+  const modelId = settingsService.getActiveModelId();
+  const cacheKey = getEtymologyCacheKey(topic);
+  const cachedData = getValidatedCache(cacheKey, validateEtymologyData);
+  if (cachedData) {
+    return cachedData;
+  }
 
-    try {
-      const enableThinking = settingsService.getSetting<boolean>('highQualityArt', true);
-
-      const config: any = {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            concepts: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-              description: 'An array of 5-7 strings of related concepts.',
-            },
-            artData: {
-              type: Type.OBJECT,
-              properties: {
-                art: {
-                  type: Type.STRING,
-                  description: `A string containing ASCII art representing "${topic}".`,
-                },
-                hotspots: {
-                  type: Type.ARRAY,
-                  description: "An array of interactive hotspot objects within the art.",
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      char: { type: Type.STRING },
-                      x: { type: Type.INTEGER },
-                      y: { type: Type.INTEGER },
-                      concept: { type: Type.STRING }
-                    },
-                    required: ['char', 'x', 'y', 'concept']
-                  }
-                }
-              },
-              required: ['art']
-            }
-          },
-          required: ['concepts', 'artData'],
-        },
-      };
-
-      if (enableThinking) {
-          config.thinkingConfig = { thought: true };
-      } else {
-          config.thinkingConfig = { thinkingBudget: 0 };
-      }
+  const apiCall = () => getActiveProvider().generateEtymology(topic, modelId, {
+    signal,
+    onUsage: usage => recordUsage('etymology', modelId, usage),
+  });
+
+  try {
+    const response = await scheduleJson(apiCall, { priority: 'ancillary', signal, onRetry });
+    const data = await validateOrRepair(response, validateEtymologyData, {
+      kind: 'etymology',
+      prompt: buildEtymologyPrompt(topic, settingsService.getOutputLanguage()),
+      modelId,
+      usageKind: 'etymology',
+      priority: 'ancillary',
+      signal,
+    });
+    throwIfAborted(signal); // Never cache a response the caller has already given up on.
+    cache.set(cacheKey, data);
+    return data;
+  } catch (error) {
+    throw handleGeminiError(error, `generate the etymology of "${topic}"`);
+  }
+}
 
-      const response = await ai.models.generateContent({
-        model: modelId,
-        contents: prompt,
-        config: config,
-      });
-      
-      let jsonStr = response.text.trim();
-      const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
-      const match = jsonStr.match(fenceRegex);
-      if (match && match[1]) {
-        jsonStr = match[1].trim();
-      }
+/**
+ * Generates a structured comparison of two topics, with retry logic.
+ * @param topicA The first topic, shown in the left column.
+ * @param topicB The second topic.
+ * @param onRetry An optional callback to inform the UI about a retry attempt.
+ * @param signal An optional signal that cancels the request and any pending backoff.
+ * @returns A promise resolving to the comparison. Rejects with an AbortError when aborted.
+ */
+export async function generateComparison(
+  topicA: string,
+  topicB: string,
+  onRetry?: (attempt: number, delay: number) => void,
+  signal?: AbortSignal
+): Promise<ComparisonData> {
+  const modelId = settingsService.getActiveModelId();
+  const cacheKey = getComparisonCacheKey(topicA, topicB);
+  const cachedData = getValidatedCache(cacheKey, validateComparisonData);
+  if (cachedData) {
+    return cachedData;
+  }
 
-      const parsed = JSON.parse(jsonStr) as AncillaryData;
-      
-      if (typeof parsed.artData?.art !== 'string' || parsed.artData.art.trim().length === 0) {
-        throw new Error('Invalid or empty ASCII art in response');
-      }
-      
-      cache.set(cacheKey, parsed);
-      return parsed;
+  const apiCall = () => getActiveProvider().generateComparison(topicA, topicB, modelId, {
+    signal,
+    onUsage: usage => recordUsage('comparison', modelId, usage),
+  });
+
+  try {
+    const response = await scheduleJson(apiCall, { priority: 'primary', signal, onRetry });
+    const validated = await validateOrRepair(response, validateComparisonData, {
+      kind: 'comparison',
+      prompt: buildComparisonPrompt(topicA, topicB, settingsService.getOutputLanguage()),
+      modelId,
+      usageKind: 'comparison',
+      priority: 'primary',
+      signal,
+    });
+    const data = validated.diagram ? { ...validated, diagram: normalizeAsciiArt({ art: validated.diagram }).artData.art } : validated;
+    throwIfAborted(signal); // Never cache a response the caller has already given up on.
+    cache.set(cacheKey, data);
+    return data;
+  } catch (error) {
+    throw handleGeminiError(error, `compare "${topicA}" and "${topicB}"`);
+  }
+}
 
-    } catch (error) {
-      throw handleGeminiError(error, `generate ancillary data for "${topic}"`);
-    }
-  };
+/**
+ * Picks the next step of a bridge between two topics, with retry logic.
+ * @param topic The topic the bridge has reached.
+ * @param target The topic the bridge is heading for.
+ * @param candidates The related concepts to choose from.
+ * @param onRetry An optional callback to inform the UI about a retry attempt.
+ * @param signal An optional signal that cancels the request and any pending backoff.
+ * @returns A promise resolving to the chosen concept, spelled as in `candidates`. Rejects with an AbortError when aborted.
+ */
+export async function generateBridgeHop(
+  topic: string,
+  target: string,
+  candidates: string[],
+  onRetry?: (attempt: number, delay: number) => void,
+  signal?: AbortSignal
+): Promise<BridgeHopChoice> {
+  const modelId = settingsService.getActiveModelId();
+  const cacheKey = getBridgeHopCacheKey(topic, target, candidates);
+  const cachedData = getValidatedCache(cacheKey, input => validateBridgeHopChoice(input, candidates));
+  if (cachedData) {
+    return cachedData;
+  }
 
-  return geminiRequestWithRetry(apiCall, onRetry);
+  const apiCall = () => getActiveProvider().generateBridgeHop(topic, target, candidates, modelId, {
+    signal,
+    onUsage: usage => recordUsage('bridge', modelId, usage),
+  });
+
+  try {
+    const response = await scheduleJson(apiCall, { priority: 'primary', signal, onRetry });
+    const data = await validateOrRepair(response, input => validateBridgeHopChoice(input, candidates), {
+      kind: 'bridge hop',
+      prompt: buildBridgeHopPrompt(topic, target, candidates, settingsService.getOutputLanguage()),
+      modelId,
+      usageKind: 'bridge',
+      priority: 'primary',
+      signal,
+    });
+    throwIfAborted(signal); // Never cache a response the caller has already given up on.
+    cache.set(cacheKey, data);
+    return data;
+  } catch (error) {
+    throw handleGeminiError(error, `find the step from "${topic}" toward "${target}"`);
+  }
 }
 
+/**
+ * Generates multiple-choice review questions about a topic, with retry logic.
+ * @param topic The topic.
+ * @param definition The definition the questions are based on.
+ * @param onRetry An optional callback to inform the UI about a retry attempt.
+ * @param signal An optional signal that cancels the request and any pending backoff.
+ * @returns A promise resolving to the questions. Rejects with an AbortError when aborted.
+ */
+export async function generateQuiz(
+  topic: string,
+  definition: string,
+  onRetry?: (attempt: number, delay: number) => void,
+  signal?: AbortSignal
+): Promise<QuizData> {
+  const modelId = settingsService.getActiveModelId();
+  const cacheKey = getQuizCacheKey(topic);
+  const cachedData = getValidatedCache(cacheKey, validateQuizData);
+  if (cachedData) {
+    return cachedData;
+  }
+
+  const apiCall = () => getActiveProvider().generateQuiz(topic, definition, modelId, {
+    signal,
+    onUsage: usage => recordUsage('quiz', modelId, usage),
+  });
+
+  try {
+    const response = await scheduleJson(apiCall, { priority: 'ancillary', signal, onRetry });
+    const data = await validateOrRepair(response, validateQuizData, {
+      kind: 'quiz',
+      prompt: buildQuizPrompt(topic, definition, settingsService.getOutputLanguage()),
+      modelId,
+      usageKind: 'quiz',
+      priority: 'ancillary',
+      signal,
+    });
+    throwIfAborted(signal); // Never cache a response the caller has already given up on.
+    cache.set(cacheKey, data);
+    return data;
+  } catch (error) {
+    throw handleGeminiError(error, `write review questions about "${topic}"`);
+  }
+}
 
 /**
- * Generates a detailed summary and curated resources for a given topic, with retry logic.
- * @param topic The topic to generate a deep dive for.
+ * Checks whether a searched term is ambiguous and lists its senses, with retry logic.
+ * It runs before the definition, so it shares the definition's priority.
+ * @param topic The searched term.
  * @param onRetry An optional callback to inform the UI about a retry attempt.
- * @returns A promise resolving to an object with a summary and resources.
+ * @param signal An optional signal that cancels the request and any pending backoff.
+ * @returns A promise resolving to the senses, an empty list if the term is not ambiguous.
+ *   Rejects with an AbortError when aborted.
  */
-export async function generateDeepDive(
+export async function generateSenses(
   topic: string,
-  onRetry?: (attempt: number, delay: number) => void
-): Promise<DeepDiveData> {
+  onRetry?: (attempt: number, delay: number) => void,
+  signal?: AbortSignal
+): Promise<SenseData> {
   const modelId = settingsService.getActiveModelId();
-  const cacheKey = `deepdive_${modelId}_${topic.toLowerCase()}`;
-  const cachedData = cache.get<DeepDiveData>(cacheKey);
+  const cacheKey = getSensesCacheKey(topic);
+  const cachedData = getValidatedCache(cacheKey, validateSenseData);
   if (cachedData) {
     return cachedData;
   }
 
-  const apiCall = async () => {
-    const ai = getAiInstance();
-    const prompt = `
-      For the topic "${topic}", provide a detailed analysis. Your response must be in JSON format.
+  const apiCall = () => getActiveProvider().generateSenses(topic, modelId, {
+    signal,
+    onUsage: usage => recordUsage('senses', modelId, usage),
+  });
+
+  try {
+    const response = await scheduleJson(apiCall, { priority: 'primary', signal, onRetry });
+    const data = await validateOrRepair(response, validateSenseData, {
+      kind: 'senses',
+      prompt: buildSensesPrompt(topic, settingsService.getOutputLanguage()),
+      modelId,
+      usageKind: 'senses',
+      priority: 'primary',
+      signal,
+    });
+    throwIfAborted(signal); // Never cache a response the caller has already given up on.
+    cache.set(cacheKey, data);
+    return data;
+  } catch (error) {
+    throw handleGeminiError(error, `check whether "${topic}" is ambiguous`);
+  }
+}
 
-      The JSON object should contain two keys:
-      1. "summary": A string containing a comprehensive, multi-paragraph summary exploring the nuances, history, and significance of the topic. Wrap key concepts and terms within the summary text in double square brackets, like "[[Vannevar Bush]]" or "[[hyperlink]]", to make them interactive.
-      2. "resources": An array of 3-5 objects, where each object represents a curated resource for further learning. Each resource object must have:
-        - "title": The title of the resource (e.g., an article, a book, a video).
-        - "url": The full URL to the resource. If it's a book, link to a relevant page like Goodreads or Wikipedia.
-        - "description": A brief, one-sentence description of what the resource offers.
-    `;
+/**
+ * A snapshot of a deep dive while it streams in.
+ * Until `isComplete`, the summary may end mid-sentence and `resources` holds only the fully received items.
+ */
+export interface DeepDiveProgress {
+  data: DeepDiveData;
+  isComplete: boolean;
+}
 
-    try {
-      const response = await ai.models.generateContent({
-        model: modelId,
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              summary: {
-                type: Type.STRING,
-                description: 'A detailed, multi-paragraph summary. Important, related keywords within the summary must be wrapped in double square brackets, e.g., [[keyword]].',
-              },
-              resources: {
-                type: Type.ARRAY,
-                description: 'An array of curated resources for further learning.',
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    title: { type: Type.STRING, description: 'The title of the resource.' },
-                    url: { type: Type.STRING, description: 'The URL for the resource.' },
-                    description: { type: Type.STRING, description: 'A brief description of the resource.' },
-                  },
-                  required: ['title', 'url', 'description'],
-                },
-              },
-            },
-            required: ['summary', 'resources'],
-          },
-        },
-      });
-
-      let jsonStr = response.text.trim();
-      const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
-      const match = jsonStr.match(fenceRegex);
-      if (match && match[1]) {
-        jsonStr = match[1].trim();
+/**
+ * Extracts the renderable part of a partially received deep-dive document.
+ * @param json The JSON text received so far.
+ * @returns The partial deep dive, or null if nothing is renderable yet.
+ */
+function toPartialDeepDive(json: string): DeepDiveData | null {
+  let result;
+  try {
+    result = parsePartialJson(json.replace(/^\s*```(?:json)?\s*/, ''));
+  } catch {
+    // Leave malformed output to the final parse, which reports the error.
+    return null;
+  }
+  const { value, incomplete } = result;
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const partial = value as Partial<DeepDiveData>;
+  const resources = Array.isArray(partial.resources)
+    ? partial.resources.filter(resource => resource && typeof resource === 'object' && !incomplete.has(resource))
+    : [];
+  return { summary: typeof partial.summary === 'string' ? partial.summary : '', resources };
+}
+
+/**
+ * Streams a detailed summary and curated resources for a given topic, with retry logic.
+ * The response is parsed incrementally, so the summary can be shown as tokens arrive.
+ * @param topic The topic to generate a deep dive for.
+ * @param onRetry An optional callback to inform the UI about a retry attempt. Snapshots
+ *   after a retry start over from an empty deep dive.
+ * @param signal An optional signal that cancels the request and any pending backoff.
+ * @param sense The sense picked for an ambiguous search, if any.
+ * @returns An async generator of progress snapshots, ending with a complete one.
+ *   When aborted, it throws an AbortError.
+ */
+export async function* streamDeepDive(
+  topic: string,
+  onRetry?: (attempt: number, delay: number) => void,
+  signal?: AbortSignal,
+  sense?: TopicSense
+): AsyncGenerator<DeepDiveProgress, void, undefined> {
+  const modelId = settingsService.getActiveModelId();
+  const cacheKey = getDeepDiveCacheKey(topic, sense);
+  const cachedData = getValidatedCache(cacheKey, validateDeepDiveData);
+  if (cachedData) {
+    yield { data: cachedData, isComplete: true };
+    return;
+  }
+
+  const provider = getActiveProvider();
+  try {
+    const events = scheduleStream(
+      () => provider.streamDeepDive(topic, modelId, sense, {
+        signal,
+        onUsage: usage => recordUsage('deepDive', modelId, usage),
+      }),
+      { priority: 'primary', signal }
+    );
+    let json = '';
+    for await (const event of events) {
+      if (event.type === 'retry') {
+        json = ''; // The stream starts over.
+        onRetry?.(event.attempt, event.delayMs);
+        continue;
+      }
+      json += event.value;
+      const partial = toPartialDeepDive(json);
+      if (partial) {
+        yield { data: partial, isComplete: false };
       }
-      
-      const parsed = JSON.parse(jsonStr) as DeepDiveData;
-      cache.set(cacheKey, parsed);
-      return parsed;
-    } catch (error) {
-      throw handleGeminiError(error, `generate deep dive for "${topic}"`);
     }
-  };
 
-  return geminiRequestWithRetry(apiCall, onRetry);
-}
\ No newline at end of file
+    let response: unknown = json;
+    try {
+      response = parseJsonResponse<unknown>(json);
+    } catch {
+      // Left as text: validation reports it, and the repair prompt quotes it verbatim.
+    }
+    const data = await validateOrRepair(response, validateDeepDiveData, {
+      kind: 'deep dive',
+      prompt: buildDeepDivePrompt(topic, settingsService.getOutputLanguage(), sense),
+      modelId,
+      usageKind: 'deepDive',
+      priority: 'primary',
+      signal,
+    });
+    throwIfAborted(signal);
+    cache.set(cacheKey, data);
+    yield { data, isComplete: true };
+  } catch (error) {
+    throw handleGeminiError(error, `generate deep dive for "${topic}"`);
+  }
+}
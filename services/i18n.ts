@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MESSAGES, MessageKey } from '../config/messages';
+import { getOutputLanguage } from './settingsService';
+
+/**
+ * Looks up interface text in the catalog of the selected language.
+ * Components call this while rendering, so the app re-renders them after the language changes.
+ */
+
+/**
+ * Translates a message.
+ * @param key The message key.
+ * @param params Values for the message's `{placeholder}`s.
+ * @returns The text in the selected language, or in English if it has not been translated.
+ */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const message = MESSAGES[getOutputLanguage().code]?.[key] ?? MESSAGES.en[key]!;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder);
+}
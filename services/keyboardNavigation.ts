@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { KeyAction } from '../config/keybindings';
+
+/**
+ * A keyboard cursor over the clickable items of the page. Items opt in with a
+ * `data-nav-group` attribute naming their group; the cursor is simply the focused item,
+ * so Enter opens it and screen readers follow it. Items are visited in document order.
+ */
+
+export const NAV_GROUP_ATTRIBUTE = 'data-nav-group';
+
+export type NavGroup = 'art' | 'definition' | 'etymology' | 'related' | 'deepDive';
+
+/**
+ * Builds the attribute that makes an element a cursor stop.
+ * @param group The group the element belongs to.
+ * @returns Props to spread onto the element.
+ */
+export function navTarget(group: NavGroup): { [NAV_GROUP_ATTRIBUTE]: NavGroup } {
+  return { [NAV_GROUP_ATTRIBUTE]: group };
+}
+
+/**
+ * Checks whether a key press belongs to a text field rather than to the keyboard mode.
+ * @param target The event target.
+ * @returns True if the key should be left to the element.
+ */
+export function isTextEntryTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Lists the cursor stops on the page, skipping disabled and hidden ones.
+ */
+function getTargets(): HTMLElement[] {
+  return [...document.querySelectorAll<HTMLElement>(`[${NAV_GROUP_ATTRIBUTE}]`)]
+    .filter(element => !(element as HTMLButtonElement).disabled && element.getClientRects().length > 0);
+}
+
+/**
+ * Moves the cursor.
+ * @param action A cursor action.
+ * @returns True if there was anything to move to.
+ */
+export function moveCursor(action: Extract<KeyAction, 'next' | 'previous' | 'nextGroup' | 'previousGroup' | 'first' | 'last'>): boolean {
+  const targets = getTargets();
+  if (targets.length === 0) return false;
+  const current = targets.indexOf(document.activeElement as HTMLElement);
+  const groupOf = (index: number) => targets[index].getAttribute(NAV_GROUP_ATTRIBUTE);
+
+  let next: number;
+  switch (action) {
+    case 'next':
+      next = current === -1 ? 0 : Math.min(current + 1, targets.length - 1);
+      break;
+    case 'previous':
+      next = current === -1 ? targets.length - 1 : Math.max(current - 1, 0);
+      break;
+    case 'nextGroup': {
+      const found = targets.findIndex((_, i) => i > current && (current === -1 || groupOf(i) !== groupOf(current)));
+      next = found === -1 ? current : found;
+      break;
+    }
+    case 'previousGroup': {
+      // The first item of the group before the current one.
+      let i = current === -1 ? targets.length - 1 : current;
+      const group = current === -1 ? null : groupOf(current);
+      while (i > 0 && groupOf(i) === group) i--;
+      const previousGroup = groupOf(i);
+      while (i > 0 && groupOf(i - 1) === previousGroup) i--;
+      next = i;
+      break;
+    }
+    case 'first':
+      next = 0;
+      break;
+    case 'last':
+      next = targets.length - 1;
+      break;
+  }
+
+  const target = targets[Math.max(next, 0)];
+  target.focus({ preventScroll: true });
+  target.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  return true;
+}
+
+/**
+ * Hides the cursor by blurring the item under it.
+ */
+export function clearCursor(): void {
+  const active = document.activeElement;
+  if (active instanceof HTMLElement && active.hasAttribute(NAV_GROUP_ATTRIBUTE)) {
+    active.blur();
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A tolerant parser for JSON that is still being streamed.
+ * It parses as much of a truncated document as possible: unterminated strings are returned
+ * with the text received so far, and unterminated objects and arrays are returned with the
+ * members received so far. Values that cannot be known yet (a number that may have more
+ * digits, a half-written `true`) are left out.
+ */
+
+export interface PartialJsonResult {
+  /** The parsed value, or undefined if not even the first token is complete. */
+  value: unknown;
+  /** Objects and arrays that were cut off before their closing bracket. */
+  incomplete: WeakSet<object>;
+  /** True if the whole document was received. */
+  isComplete: boolean;
+}
+
+// Thrown internally when the input ends in the middle of a value.
+class TruncatedInput extends Error {}
+
+/**
+ * Parses a possibly truncated JSON document.
+ * @param text The JSON received so far.
+ * @returns The partial parse result. Throws a SyntaxError only for input that is malformed,
+ *   as opposed to merely incomplete.
+ */
+export function parsePartialJson(text: string): PartialJsonResult {
+  const incomplete = new WeakSet<object>();
+  let pos = 0;
+  let isTruncated = false;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const fail = (): never => {
+    throw new SyntaxError(`Unexpected character "${text[pos]}" at position ${pos} in JSON.`);
+  };
+
+  // Returns the string read so far, and whether its closing quote was reached.
+  const parseString = (): { value: string; closed: boolean } => {
+    pos++; // Opening quote.
+    let value = '';
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        return { value, closed: true };
+      }
+      if (char === '\\') {
+        const escape = text[pos + 1];
+        if (escape === undefined) break;
+        if (escape === 'u') {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (hex.length < 4) break;
+          value += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+          continue;
+        }
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+        value += escapes[escape] ?? escape;
+        pos += 2;
+        continue;
+      }
+      value += char;
+      pos++;
+    }
+    // Ran out of input, possibly mid-escape; keep what is certain.
+    pos = text.length;
+    isTruncated = true;
+    return { value, closed: false };
+  };
+
+  const parseLiteral = (): unknown => {
+    const token = text.slice(pos).match(/^[\w.+-]+/)?.[0];
+    if (!token) fail();
+    if (pos + token!.length >= text.length) {
+      // A literal touching the end of the input may still be growing.
+      throw new TruncatedInput();
+    }
+    pos += token!.length;
+    try {
+      return JSON.parse(token!);
+    } catch {
+      throw new SyntaxError(`Invalid literal "${token}" in JSON.`);
+    }
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (pos >= text.length) throw new TruncatedInput();
+    const char = text[pos];
+    if (char === '{') return parseObject();
+    if (char === '[') return parseArray();
+    if (char === '"') return parseString().value;
+    return parseLiteral();
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    incomplete.add(result);
+    pos++; // Opening brace.
+    try {
+      while (true) {
+        skipWhitespace();
+        if (pos >= text.length) return result;
+        if (text[pos] === '}') {
+          pos++;
+          incomplete.delete(result);
+          return result;
+        }
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] !== '"') fail();
+        const key = parseString();
+        if (!key.closed) return result;
+        skipWhitespace();
+        if (pos >= text.length) return result;
+        if (text[pos] !== ':') fail();
+        pos++;
+        skipWhitespace();
+        if (pos >= text.length) return result;
+        result[key.value] = parseValue();
+      }
+    } catch (error) {
+      if (error instanceof TruncatedInput) return result;
+      throw error;
+    }
+  };
+
+  const parseArray = (): unknown[] => {
+    const result: unknown[] = [];
+    incomplete.add(result);
+    pos++; // Opening bracket.
+    try {
+      while (true) {
+        skipWhitespace();
+        if (pos >= text.length) return result;
+        if (text[pos] === ']') {
+          pos++;
+          incomplete.delete(result);
+          return result;
+        }
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        result.push(parseValue());
+      }
+    } catch (error) {
+      if (error instanceof TruncatedInput) return result;
+      throw error;
+    }
+  };
+
+  let value: unknown;
+  try {
+    value = parseValue();
+  } catch (error) {
+    if (!(error instanceof TruncatedInput)) throw error;
+    isTruncated = true;
+  }
+
+  // An unclosed container is recorded in `incomplete`; nested ones always leave their parents unclosed too.
+  const isComplete = value !== undefined
+    && !isTruncated
+    && !(typeof value === 'object' && value !== null && incomplete.has(value));
+  return { value, incomplete, isComplete };
+}
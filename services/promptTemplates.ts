@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as settingsService from './settingsService';
+import { getPromptTemplateSpec, PROMPT_TEMPLATES, PromptTemplateId } from '../config/promptTemplates';
+
+/**
+ * The registry of prompt templates. Edited templates are stored in the settings with a
+ * version that goes up on every save and never goes back down, so a cache key stamped
+ * with it never matches content generated by an earlier wording. Resetting a template
+ * drops the stamp again, since the default wording's cached content is still valid.
+ */
+
+interface StoredTemplate {
+  template?: string; // Absent when the default is in use.
+  version: number;
+}
+
+type StoredTemplates = Partial<Record<PromptTemplateId, StoredTemplate>>;
+
+export interface PromptTemplateExport {
+  format: 'lexicon-nexus-prompts';
+  version: 1;
+  exportedAt: string;
+  templates: Partial<Record<PromptTemplateId, string>>;
+}
+
+const SETTING_KEY = 'promptTemplates';
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Reads the edited templates from the settings.
+ */
+function getStoredTemplates(): StoredTemplates {
+  return settingsService.getSetting<StoredTemplates>(SETTING_KEY, {});
+}
+
+/**
+ * Retrieves the wording of a prompt.
+ * @param id The template ID.
+ * @returns The edited template, or the default one.
+ */
+export function getPromptTemplate(id: PromptTemplateId): string {
+  return getStoredTemplates()[id]?.template ?? getPromptTemplateSpec(id).defaultTemplate;
+}
+
+/**
+ * Checks whether a prompt has been edited.
+ * @param id The template ID.
+ * @returns True if an edited template is in use.
+ */
+export function isPromptTemplateEdited(id: PromptTemplateId): boolean {
+  return getStoredTemplates()[id]?.template !== undefined;
+}
+
+/**
+ * Retrieves the version of an edited prompt.
+ * @param id The template ID.
+ * @returns The number of times the template has been saved, or 0 if the default is in use.
+ */
+export function getPromptTemplateVersion(id: PromptTemplateId): number {
+  const stored = getStoredTemplates()[id];
+  return stored?.template !== undefined ? stored.version : 0;
+}
+
+/**
+ * Builds the part of a cache key that tells content generated by an edited prompt apart.
+ * @param id The template that generates the cached content.
+ * @returns A stamp such as "tpl3_", or an empty string if the default is in use.
+ */
+export function getPromptCacheStamp(id: PromptTemplateId): string {
+  const version = getPromptTemplateVersion(id);
+  return version > 0 ? `tpl${version}_` : '';
+}
+
+/**
+ * Checks whether the wording of a prompt uses a variable, for content whose
+ * cache key must then depend on it.
+ * @param id The template ID.
+ * @param variable The variable name, without braces.
+ * @returns True if the template has the placeholder.
+ */
+export function usesPromptVariable(id: PromptTemplateId, variable: string): boolean {
+  return [...getPromptTemplate(id).matchAll(PLACEHOLDER)].some(match => match[1] === variable);
+}
+
+/**
+ * Lists the placeholders in a template that its prompt does not provide.
+ * @param id The template ID.
+ * @param template The wording to check.
+ * @returns The unknown variable names, each once.
+ */
+export function findUnknownVariables(id: PromptTemplateId, template: string): string[] {
+  const known = getPromptTemplateSpec(id).variables;
+  const names = [...template.matchAll(PLACEHOLDER)].map(match => match[1]);
+  return [...new Set(names.filter(name => !known.includes(name)))];
+}
+
+/**
+ * Saves a new wording for a prompt. Saving the default wording resets the prompt.
+ * @param id The template ID.
+ * @param template The wording.
+ */
+export function savePromptTemplate(id: PromptTemplateId, template: string): void {
+  if (template === getPromptTemplateSpec(id).defaultTemplate) {
+    resetPromptTemplate(id);
+    return;
+  }
+  if (template === getPromptTemplate(id)) {
+    return;
+  }
+  const stored = getStoredTemplates();
+  const version = (stored[id]?.version ?? 0) + 1;
+  settingsService.setSetting<StoredTemplates>(SETTING_KEY, { ...stored, [id]: { template, version } });
+}
+
+/**
+ * Restores the default wording of a prompt, keeping its version count.
+ * @param id The template ID.
+ */
+export function resetPromptTemplate(id: PromptTemplateId): void {
+  const stored = getStoredTemplates();
+  if (stored[id]?.template === undefined) return;
+  settingsService.setSetting<StoredTemplates>(SETTING_KEY, { ...stored, [id]: { version: stored[id]!.version } });
+}
+
+/**
+ * Fills in a prompt's placeholders. Placeholders the prompt does not provide are left as
+ * written, so a typo shows up in the response rather than silently vanishing.
+ * @param id The template ID.
+ * @param variables The values of the prompt's variables.
+ * @returns The prompt text.
+ */
+export function renderPromptTemplate(id: PromptTemplateId, variables: Record<string, string | number>): string {
+  return getPromptTemplate(id).replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in variables ? String(variables[name]) : placeholder
+  );
+}
+
+/**
+ * Exports the edited prompts as JSON. Prompts using their default wording are left out.
+ * @returns The JSON document.
+ */
+export function exportPromptTemplates(): string {
+  const exported: PromptTemplateExport = {
+    format: 'lexicon-nexus-prompts',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    templates: Object.fromEntries(
+      PROMPT_TEMPLATES.filter(spec => isPromptTemplateEdited(spec.id)).map(spec => [spec.id, getPromptTemplate(spec.id)])
+    ),
+  };
+  return JSON.stringify(exported, null, 2);
+}
+
+/**
+ * Imports prompts exported by `exportPromptTemplates`, saving each as a new version.
+ * Prompts missing from the file keep their current wording.
+ * @param json The contents of the file.
+ * @returns The IDs of the prompts that were imported.
+ * @throws An Error if the file is not a prompt export or names an unknown prompt.
+ */
+export function importPromptTemplates(json: string): PromptTemplateId[] {
+  let imported: Partial<PromptTemplateExport>;
+  try {
+    imported = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (imported?.format !== 'lexicon-nexus-prompts' || typeof imported.templates !== 'object' || imported.templates === null) {
+    throw new Error('The file is not a prompt template export.');
+  }
+  const entries = Object.entries(imported.templates);
+  for (const [id, template] of entries) {
+    if (!PROMPT_TEMPLATES.some(spec => spec.id === id)) {
+      throw new Error(`The file has an unknown prompt "${id}".`);
+    }
+    if (typeof template !== 'string' || !template.trim()) {
+      throw new Error(`The prompt "${id}" in the file is empty.`);
+    }
+  }
+  for (const [id, template] of entries) {
+    savePromptTemplate(id as PromptTemplateId, template as string);
+  }
+  return entries.map(([id]) => id as PromptTemplateId);
+}
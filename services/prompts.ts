@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ART_PALETTE, MAX_ART_FRAMES } from '../config/artPalette';
+import { DEFAULT_LANGUAGE_CODE, Language } from '../config/languages';
+import type { DefinitionLength, DefinitionStyle } from '../config/definitionStyles';
+import { renderPromptTemplate } from './promptTemplates';
+import type { TopicContext, TopicSense } from './types';
+
+/**
+ * Prompt builders shared by every LLM provider.
+ * Keeping the wording in one place ensures all backends are asked for the same output shape.
+ * The wording itself comes from the prompt template registry, which users can edit;
+ * the builders only supply its variables.
+ */
+
+/**
+ * Builds the instruction to write in a language other than English.
+ * @param language The output language.
+ * @param isJson Whether the response is JSON, whose keys must stay as specified.
+ * @returns The instruction, or an empty string for English.
+ */
+function buildLanguageInstruction(language: Language, isJson: boolean): string {
+  if (language.code === DEFAULT_LANGUAGE_CODE) {
+    return '';
+  }
+  const instruction = `Write your entire response in ${language.name} (${language.nativeName}), whatever the language of the topic or question.`;
+  return isJson
+    ? ` ${instruction} This applies to every string value, including concept names and keywords; keep the JSON keys exactly as specified in English.`
+    : ` ${instruction}`;
+}
+
+/**
+ * Builds the variables every prompt can use for its output language.
+ * @param language The output language.
+ * @param isJson Whether the response is JSON.
+ * @returns The `language` and `languageInstruction` variables.
+ */
+function buildLanguageVariables(language: Language, isJson: boolean): Record<string, string> {
+  return {
+    language: `${language.name} (${language.nativeName})`,
+    languageInstruction: buildLanguageInstruction(language, isJson),
+  };
+}
+
+/**
+ * Asks for the sense a topic has where it was clicked, so "bank" reached from "River"
+ * is not defined as a financial institution.
+ * @param topic The topic.
+ * @param context Where the topic was reached from.
+ * @returns The instruction with a leading space, or an empty string without a parent topic.
+ */
+function buildContextInstruction(topic: string, context: TopicContext): string {
+  if (!context.parentTopic) {
+    return '';
+  }
+  const passage = context.sentence
+    ? `in this sentence about "${context.parentTopic}": "${context.sentence}"`
+    : `while reading about "${context.parentTopic}"`;
+  return ` The user reached "${topic}" ${passage}. Define it in the sense it has there.`;
+}
+
+/**
+ * Names the sense picked for an ambiguous search, so "Mercury" stays the planet across
+ * the definition, the art and the deep dive.
+ * @param topic The topic.
+ * @param sense The picked sense, if any.
+ * @returns The instruction with a leading space, or an empty string without a sense.
+ */
+function buildSenseInstruction(topic: string, sense?: TopicSense): string {
+  return sense ? ` Treat "${topic}" only in the sense of ${sense.label} (${sense.gloss.replace(/\.$/, '')}).` : '';
+}
+
+/**
+ * Builds the prompt for a single-paragraph topic definition.
+ * @param topic The word or term to define.
+ * @param language The language to write in.
+ * @param style How to write the definition.
+ * @param length How long the definition should be.
+ * @param context Where the topic was reached from.
+ * @returns The prompt text.
+ */
+export function buildDefinitionPrompt(
+  topic: string,
+  language: Language,
+  style: DefinitionStyle,
+  length: DefinitionLength,
+  context: TopicContext = {}
+): string {
+  return renderPromptTemplate('definition', {
+    topic,
+    parentTopic: context.parentTopic ?? '',
+    sentence: context.sentence ?? '',
+    contextInstruction: buildContextInstruction(topic, context),
+    senseInstruction: buildSenseInstruction(topic, context.sense),
+    style: style.instruction.replace('{topic}', topic),
+    length: length.instruction,
+    ...buildLanguageVariables(language, false),
+  });
+}
+
+/**
+ * Builds the prompt for a question asked about an uploaded document.
+ * @param question The user's question.
+ * @param language The language to answer in.
+ * @returns The prompt text.
+ */
+export function buildFileQuestionPrompt(question: string, language: Language): string {
+  return renderPromptTemplate('fileQuestion', { question, ...buildLanguageVariables(language, false) });
+}
+
+/**
+ * Builds the prompt for the related concepts and ASCII art of a topic.
+ * @param topic The topic to generate data for.
+ * @param language The language of the concepts.
+ * @param animated Whether to ask for the art as a looping animation.
+ * @param sense The sense picked for an ambiguous search, if any.
+ * @returns The prompt text.
+ */
+export function buildAncillaryPrompt(topic: string, language: Language, animated = false, sense?: TopicSense): string {
+  return renderPromptTemplate(animated ? 'animatedAncillary' : 'ancillary', {
+    topic,
+    senseInstruction: buildSenseInstruction(topic, sense),
+    palette: ART_PALETTE,
+    maxFrames: MAX_ART_FRAMES,
+    ...buildLanguageVariables(language, true),
+  });
+}
+
+/**
+ * Builds the prompt for the etymology and pronunciation of a topic.
+ * @param topic The word or term.
+ * @param language The language to write glosses and history in.
+ * @returns The prompt text.
+ */
+export function buildEtymologyPrompt(topic: string, language: Language): string {
+  return renderPromptTemplate('etymology', { topic, ...buildLanguageVariables(language, true) });
+}
+
+/**
+ * Builds the prompt for a structured comparison of two topics.
+ * @param topicA The first topic, drawn on the left of the diagram.
+ * @param topicB The second topic.
+ * @param language The language to write in.
+ * @returns The prompt text.
+ */
+export function buildComparisonPrompt(topicA: string, topicB: string, language: Language): string {
+  return renderPromptTemplate('comparison', { topicA, topicB, palette: ART_PALETTE, ...buildLanguageVariables(language, true) });
+}
+
+/**
+ * Builds the prompt that picks the next step of a bridge between two topics.
+ * @param topic The topic the bridge has reached.
+ * @param target The topic the bridge is heading for.
+ * @param candidates The related concepts to choose from.
+ * @param language The language to write the reason in.
+ * @returns The prompt text.
+ */
+export function buildBridgeHopPrompt(topic: string, target: string, candidates: string[], language: Language): string {
+  return renderPromptTemplate('bridgeHop', { topic, target, candidates: JSON.stringify(candidates), ...buildLanguageVariables(language, true) });
+}
+
+/**
+ * Builds the prompt for the multiple-choice review questions about a topic.
+ * @param topic The topic.
+ * @param definition The definition the questions are based on.
+ * @param language The language to write in.
+ * @returns The prompt text.
+ */
+export function buildQuizPrompt(topic: string, definition: string, language: Language): string {
+  return renderPromptTemplate('quiz', { topic, definition, ...buildLanguageVariables(language, true) });
+}
+
+/**
+ * Builds the follow-up prompt asking a model to correct a response that failed validation.
+ * @param originalPrompt The prompt of the failed request.
+ * @param invalidOutput The response as received.
+ * @param errors The validation errors, naming the offending fields.
+ * @returns The prompt text.
+ */
+export function buildRepairPrompt(originalPrompt: string, invalidOutput: string, errors: string[]): string {
+  return `
+      Your previous response to the task below could not be used.
+
+      TASK:
+      ${originalPrompt.trim()}
+
+      YOUR RESPONSE:
+      ${invalidOutput}
+
+      PROBLEMS:
+      ${errors.map(error => `- ${error}`).join('\n      ')}
+
+      Respond again with a single corrected JSON object that fixes every problem and follows the structure the task describes.
+    `;
+}
+
+/**
+ * Builds the prompt for the detailed analysis and curated resources of a topic.
+ * @param topic The topic to generate a deep dive for.
+ * @param language The language to write in. Resources may be in any language, preferably this one.
+ * @param sense The sense picked for an ambiguous search, if any.
+ * @returns The prompt text.
+ */
+export function buildDeepDivePrompt(topic: string, language: Language, sense?: TopicSense): string {
+  return renderPromptTemplate('deepDive', { topic, senseInstruction: buildSenseInstruction(topic, sense), ...buildLanguageVariables(language, true) });
+}
+
+/**
+ * Builds the prompt that checks whether a searched term is ambiguous.
+ * @param topic The searched term.
+ * @param language The language to write the labels and glosses in.
+ * @returns The prompt text.
+ */
+export function buildSensesPrompt(topic: string, language: Language): string {
+  return renderPromptTemplate('senses', { topic, ...buildLanguageVariables(language, true) });
+}
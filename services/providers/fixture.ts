@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { hashText } from '../hash';
+import type { AncillaryData, BridgeHopChoice, ComparisonData, DeepDiveData, EtymologyData, FileAttachment, QuizData, SenseData, TopicContext } from '../types';
+
+/**
+ * A single streamed chunk and how long after the previous one it arrived.
+ */
+export interface RecordedChunk {
+  text: string;
+  delayMs: number;
+}
+
+/**
+ * A recorded non-streaming response and how long the request took.
+ */
+export interface RecordedResponse<T> {
+  data: T;
+  latencyMs: number;
+}
+
+/**
+ * A set of recorded provider responses that the replay provider can play back offline.
+ * Entries are keyed by `getFixtureKey`, independent of the model that produced them.
+ */
+export interface ReplayFixture {
+  version: 1;
+  definitions: Record<string, RecordedChunk[]>;
+  ancillary: Record<string, RecordedResponse<AncillaryData>>;
+  deepDives: Record<string, RecordedResponse<DeepDiveData>>;
+  etymologies?: Record<string, RecordedResponse<EtymologyData>>; // Absent from fixtures recorded before etymologies existed.
+  comparisons?: Record<string, RecordedResponse<ComparisonData>>; // Keyed by `getComparisonFixtureKey`; absent from older fixtures.
+  bridgeHops?: Record<string, RecordedResponse<BridgeHopChoice>>; // Keyed by `getBridgeHopFixtureKey`; absent from older fixtures.
+  quizzes?: Record<string, RecordedResponse<QuizData>>; // Absent from fixtures recorded before quizzes existed.
+  senses?: Record<string, RecordedResponse<SenseData>>; // Absent from fixtures recorded before senses existed.
+}
+
+/**
+ * Creates a fixture with no recorded entries.
+ * @returns An empty fixture.
+ */
+export function createEmptyFixture(): ReplayFixture {
+  return { version: 1, definitions: {}, ancillary: {}, deepDives: {}, etymologies: {}, comparisons: {}, bridgeHops: {}, quizzes: {}, senses: {} };
+}
+
+/**
+ * Builds the lookup key for a request. File questions are namespaced so they
+ * never collide with a topic of the same name. A picked sense and the topic and sentence
+ * a topic was reached from are part of the key, as in the cache keys, so each sense is
+ * recorded separately; `findFixtureEntry` falls back to the bare topic.
+ * @param topicOrQuery The topic or question.
+ * @param file The uploaded file, if any.
+ * @param context Where the topic was reached from. Ignored for questions about a file.
+ * @returns The fixture key.
+ */
+export function getFixtureKey(topicOrQuery: string, file?: FileAttachment, context: TopicContext = {}): string {
+  const key = topicOrQuery.trim().toLowerCase();
+  if (file) return `file:${key}`;
+  const sense = context.sense ? ` as ${context.sense.label.trim().toLowerCase()}` : '';
+  const parent = context.parentTopic ? ` from ${getFixtureKey(context.parentTopic)}` : '';
+  const sentence = context.parentTopic && context.sentence ? ` in ${hashText(context.sentence)}` : '';
+  return `${key}${sense}${parent}${sentence}`;
+}
+
+/**
+ * Looks up a recorded response, preferring the one recorded for the same sense and context.
+ * Fixtures recorded before keys carried them, and requests recorded only without them,
+ * are found under the bare topic.
+ * @param entries The recorded responses of one kind, if the fixture has any.
+ * @param topicOrQuery The topic or question.
+ * @param file The uploaded file, if any.
+ * @param context Where the topic was reached from.
+ * @returns The recorded response, or undefined if there is none.
+ */
+export function findFixtureEntry<T>(entries: Record<string, T> | undefined, topicOrQuery: string, file?: FileAttachment, context: TopicContext = {}): T | undefined {
+  return entries?.[getFixtureKey(topicOrQuery, file, context)] ?? entries?.[getFixtureKey(topicOrQuery, file)];
+}
+
+/**
+ * Builds the lookup key for a comparison. The order of the topics matters, since it
+ * decides which column each one is shown in.
+ * @param topicA The first topic.
+ * @param topicB The second topic.
+ * @returns The fixture key.
+ */
+export function getComparisonFixtureKey(topicA: string, topicB: string): string {
+  return `${getFixtureKey(topicA)} vs ${getFixtureKey(topicB)}`;
+}
+
+/**
+ * Builds the lookup key for a step of a bridge. The candidates are left out, since they
+ * come from the recorded related concepts of the topic.
+ * @param topic The topic the bridge has reached.
+ * @param target The topic the bridge is heading for.
+ * @returns The fixture key.
+ */
+export function getBridgeHopFixtureKey(topic: string, target: string): string {
+  return `${getFixtureKey(topic)} -> ${getFixtureKey(target)}`;
+}
+
+/**
+ * Counts the recorded entries of a fixture.
+ * @param fixture The fixture to count.
+ * @returns The total number of recorded responses of every kind.
+ */
+export function countFixtureEntries(fixture: ReplayFixture): number {
+  return Object.keys(fixture.definitions).length
+    + Object.keys(fixture.ancillary).length
+    + Object.keys(fixture.deepDives).length
+    + Object.keys(fixture.etymologies ?? {}).length
+    + Object.keys(fixture.comparisons ?? {}).length
+    + Object.keys(fixture.bridgeHops ?? {}).length
+    + Object.keys(fixture.quizzes ?? {}).length
+    + Object.keys(fixture.senses ?? {}).length;
+}
+
+/**
+ * Checks that an imported value has the shape of a replay fixture.
+ * @param value The parsed JSON value.
+ * @returns True if the value can be used as a fixture.
+ */
+export function isReplayFixture(value: unknown): value is ReplayFixture {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<ReplayFixture>;
+  return candidate.version === 1
+    && typeof candidate.definitions === 'object' && candidate.definitions !== null
+    && typeof candidate.ancillary === 'object' && candidate.ancillary !== null
+    && typeof candidate.deepDives === 'object' && candidate.deepDives !== null;
+}
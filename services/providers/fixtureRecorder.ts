@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createEmptyFixture, getBridgeHopFixtureKey, getComparisonFixtureKey, getFixtureKey, ReplayFixture } from './fixture';
+import { LlmProvider, parseJsonResponse } from './provider';
+
+/**
+ * The fixture being recorded in this page session. Kept in memory only;
+ * it is saved to disk with the download action in the settings panel.
+ */
+let recording: ReplayFixture = createEmptyFixture();
+
+/**
+ * Returns the responses recorded so far.
+ * @returns The recorded fixture.
+ */
+export function getRecordedFixture(): ReplayFixture {
+  return recording;
+}
+
+/**
+ * Discards all recorded responses.
+ */
+export function clearRecordedFixture(): void {
+  recording = createEmptyFixture();
+}
+
+/**
+ * Wraps a provider so that every successful response is captured into the recording,
+ * including the delay between streamed chunks. Failed and aborted requests are not recorded.
+ * @param provider The live provider to record.
+ * @returns A provider with the same behavior that also records.
+ */
+export function withRecording(provider: LlmProvider): LlmProvider {
+  return {
+    id: provider.id,
+
+    async *streamDefinition(topicOrQuery, modelId, file, history, context, options) {
+      const chunks = [];
+      let lastChunkAt = performance.now();
+      for await (const text of provider.streamDefinition(topicOrQuery, modelId, file, history, context, options)) {
+        const now = performance.now();
+        chunks.push({ text, delayMs: Math.round(now - lastChunkAt) });
+        lastChunkAt = now;
+        yield text;
+      }
+      recording.definitions[getFixtureKey(topicOrQuery, file, context)] = chunks;
+    },
+
+    async generateAncillaryData(topic, modelId, sense, options) {
+      const startTime = performance.now();
+      const data = await provider.generateAncillaryData(topic, modelId, sense, options);
+      recording.ancillary[getFixtureKey(topic, undefined, { sense })] = { data, latencyMs: Math.round(performance.now() - startTime) };
+      return data;
+    },
+
+    async *streamDeepDive(topic, modelId, sense, options) {
+      const startTime = performance.now();
+      let json = '';
+      for await (const chunk of provider.streamDeepDive(topic, modelId, sense, options)) {
+        json += chunk;
+        yield chunk;
+      }
+      try {
+        recording.deepDives[getFixtureKey(topic, undefined, { sense })] = {
+          data: parseJsonResponse(json),
+          latencyMs: Math.round(performance.now() - startTime),
+        };
+      } catch {
+        // Malformed responses fail in the generation service and are not worth replaying.
+      }
+    },
+
+    async generateEtymology(topic, modelId, options) {
+      const startTime = performance.now();
+      const data = await provider.generateEtymology(topic, modelId, options);
+      recording.etymologies![getFixtureKey(topic)] = { data, latencyMs: Math.round(performance.now() - startTime) };
+      return data;
+    },
+
+    async generateComparison(topicA, topicB, modelId, options) {
+      const startTime = performance.now();
+      const data = await provider.generateComparison(topicA, topicB, modelId, options);
+      recording.comparisons![getComparisonFixtureKey(topicA, topicB)] = { data, latencyMs: Math.round(performance.now() - startTime) };
+      return data;
+    },
+
+    async generateBridgeHop(topic, target, candidates, modelId, options) {
+      const startTime = performance.now();
+      const data = await provider.generateBridgeHop(topic, target, candidates, modelId, options);
+      recording.bridgeHops![getBridgeHopFixtureKey(topic, target)] = { data, latencyMs: Math.round(performance.now() - startTime) };
+      return data;
+    },
+
+    async generateQuiz(topic, definition, modelId, options) {
+      const startTime = performance.now();
+      const data = await provider.generateQuiz(topic, definition, modelId, options);
+      recording.quizzes![getFixtureKey(topic)] = { data, latencyMs: Math.round(performance.now() - startTime) };
+      return data;
+    },
+
+    async generateSenses(topic, modelId, options) {
+      const startTime = performance.now();
+      const data = await provider.generateSenses(topic, modelId, options);
+      recording.senses![getFixtureKey(topic)] = { data, latencyMs: Math.round(performance.now() - startTime) };
+      return data;
+    },
+
+    // Repair requests are not keyed by topic, so they are passed through unrecorded.
+    generateJson(prompt, modelId, options) {
+      return provider.generateJson(prompt, modelId, options);
+    },
+  };
+}
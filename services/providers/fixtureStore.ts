@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as settingsService from '../settingsService';
+import { isReplayFixture, ReplayFixture } from './fixture';
+
+/**
+ * Keeps the replay fixture loaded in the settings panel. Recordings easily outgrow
+ * localStorage, so the fixture is stored in IndexedDB and held in memory after
+ * `initReplayFixture()`, which lets the replay provider read it synchronously.
+ */
+
+const DB_NAME = 'lexiconNexusFixtures';
+const DB_VERSION = 1;
+const STORE_NAME = 'fixtures';
+const LOADED_FIXTURE_KEY = 'loaded';
+// Where fixtures were kept before they moved to IndexedDB.
+const LEGACY_SETTING_KEY = 'replayFixture';
+
+let loadedFixture: ReplayFixture | null = null;
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens (and on first use creates) the fixture database.
+ * @returns The database, or null if IndexedDB is unavailable, in which case the fixture lasts for the page session.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening fixture database, keeping fixtures in memory only:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs an operation against the fixture store and waits for its transaction to commit,
+ * since a write can still fail, for example over quota, after its request succeeded.
+ * @param mode The transaction mode.
+ * @param operation Creates the request to run.
+ * @returns The request's result, or null if IndexedDB is unavailable.
+ * @throws The transaction's error if it fails or aborts.
+ */
+async function withStore<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) {
+    return null;
+  }
+  const transaction = db.transaction(STORE_NAME, mode);
+  const request = operation(transaction.objectStore(STORE_NAME));
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+}
+
+/**
+ * Reads the stored fixture into memory, moving one left in localStorage by an older version.
+ * @returns A promise that resolves once the fixture, if any, is available.
+ */
+export async function initReplayFixture(): Promise<void> {
+  try {
+    const legacy = settingsService.getSetting<unknown>(LEGACY_SETTING_KEY, null);
+    if (isReplayFixture(legacy)) {
+      await setLoadedFixture(legacy);
+      settingsService.setSetting(LEGACY_SETTING_KEY, null);
+      return;
+    }
+    const stored = await withStore('readonly', store => store.get(LOADED_FIXTURE_KEY));
+    loadedFixture = isReplayFixture(stored) ? stored : null;
+  } catch (error) {
+    console.error('Error loading the replay fixture:', error);
+  }
+}
+
+/**
+ * Returns the fixture loaded in the settings panel.
+ * @returns The fixture, or null if the bundled demo is used.
+ */
+export function getLoadedFixture(): ReplayFixture | null {
+  return loadedFixture;
+}
+
+/**
+ * Replaces the loaded fixture. It is used at once; saving it finishes in the background.
+ * @param fixture The fixture to replay, or null to go back to the bundled demo.
+ * @returns A promise that resolves once the fixture is saved.
+ */
+export async function setLoadedFixture(fixture: ReplayFixture | null): Promise<void> {
+  loadedFixture = fixture;
+  await withStore('readwrite', store => fixture ? store.put(fixture, LOADED_FIXTURE_KEY) : store.delete(LOADED_FIXTURE_KEY));
+}
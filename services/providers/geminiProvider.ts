@@ -0,0 +1,427 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Type } from '@google/genai';
+import * as settingsService from '../settingsService';
+import {
+  buildAncillaryPrompt, buildBridgeHopPrompt, buildComparisonPrompt, buildDeepDivePrompt, buildDefinitionPrompt, buildEtymologyPrompt, buildFileQuestionPrompt,
+  buildQuizPrompt, buildSensesPrompt,
+} from '../prompts';
+import type { AncillaryData, BridgeHopChoice, ComparisonData, EtymologyData, QuizData, SenseData, TokenUsage } from '../types';
+import { LlmProvider, parseJsonResponse, toTokenUsage } from './provider';
+
+/**
+ * Creates and returns a new GoogleGenAI instance using the currently active API key.
+ * This function is called before each API request to ensure the correct key is used.
+ * @returns A configured GoogleGenAI instance.
+ * @throws An error if no API key is configured.
+ */
+function getAiInstance(): GoogleGenAI {
+  const apiKey = settingsService.getApiKey();
+  if (!apiKey) {
+    throw new Error('API Key is not configured. Please add it in the settings panel.');
+  }
+  return new GoogleGenAI({ apiKey });
+}
+
+/**
+ * Reads the token counts from a response's usage metadata.
+ * @param metadata The `usageMetadata` of a response or of the last streamed chunk.
+ * @returns The token usage, or null if the response carried none.
+ */
+function readUsage(metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | null {
+  if (!metadata) return null;
+  return toTokenUsage(metadata.promptTokenCount, metadata.candidatesTokenCount, metadata.thoughtsTokenCount);
+}
+
+/**
+ * The Google Gemini backend, using structured `responseSchema` output for JSON requests.
+ */
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+
+  async *streamDefinition(topicOrQuery, modelId, file, history = [], context = {}, options = {}) {
+    const ai = getAiInstance();
+    let contents: any;
+
+    if (file) {
+      // This is a file query. The document is attached to the first user turn of the conversation.
+      const turns = [...history, { role: 'user', text: topicOrQuery }];
+      contents = turns.map((turn, i) => ({
+        role: turn.role,
+        parts: [
+          ...(i === 0 ? [{ inlineData: { mimeType: file.mimeType, data: file.data } }] : []),
+          { text: turn.role === 'user' ? buildFileQuestionPrompt(turn.text, settingsService.getOutputLanguage()) : turn.text }
+        ]
+      }));
+    } else {
+      // This is a standard topic definition request.
+      contents = buildDefinitionPrompt(
+        topicOrQuery,
+        settingsService.getOutputLanguage(),
+        settingsService.getActiveDefinitionStyle(),
+        settingsService.getActiveDefinitionLength(),
+        context,
+      );
+    }
+
+    const response = await ai.models.generateContentStream({
+      model: modelId,
+      contents: contents,
+      config: {
+        abortSignal: options.signal,
+        thinkingConfig: { thinkingBudget: 0 },
+      },
+    });
+
+    // Every chunk carries the running totals; the last one has the final counts.
+    let usage: TokenUsage | null = null;
+    for await (const chunk of response) {
+      usage = readUsage(chunk.usageMetadata) ?? usage;
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+  },
+
+  async generateAncillaryData(topic, modelId, sense, options = {}) {
+    const ai = getAiInstance();
+    const enableThinking = settingsService.getSetting<boolean>('highQualityArt', true);
+    const animated = settingsService.isAnimatedArtEnabled();
+
+    const config: any = {
+      abortSignal: options.signal,
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          concepts: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: 'An array of 5-7 strings of related concepts.',
+          },
+          artData: {
+            type: Type.OBJECT,
+            properties: {
+              art: {
+                type: Type.STRING,
+                description: `A string containing ASCII art representing "${topic}".`,
+              },
+              ...(animated && {
+                frames: {
+                  type: Type.ARRAY,
+                  description: 'The frames of a looping animation, all the same size.',
+                  items: { type: Type.STRING },
+                },
+              }),
+              hotspots: {
+                type: Type.ARRAY,
+                description: "An array of interactive hotspot objects within the art.",
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    char: { type: Type.STRING },
+                    x: { type: Type.INTEGER },
+                    y: { type: Type.INTEGER },
+                    concept: { type: Type.STRING }
+                  },
+                  required: ['char', 'x', 'y', 'concept']
+                }
+              }
+            },
+            required: animated ? ['art', 'frames'] : ['art']
+          }
+        },
+        required: ['concepts', 'artData'],
+      },
+    };
+
+    if (enableThinking) {
+        config.thinkingConfig = { thought: true };
+    } else {
+        config.thinkingConfig = { thinkingBudget: 0 };
+    }
+
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: buildAncillaryPrompt(topic, settingsService.getOutputLanguage(), animated, sense),
+      config: config,
+    });
+
+    const usage = readUsage(response.usageMetadata);
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+    return parseJsonResponse<AncillaryData>(response.text);
+  },
+
+  async *streamDeepDive(topic, modelId, sense, options = {}) {
+    const ai = getAiInstance();
+    const response = await ai.models.generateContentStream({
+      model: modelId,
+      contents: buildDeepDivePrompt(topic, settingsService.getOutputLanguage(), sense),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            summary: {
+              type: Type.STRING,
+              description: 'A detailed, multi-paragraph summary. Important, related keywords within the summary must be wrapped in double square brackets, e.g., [[keyword]].',
+            },
+            resources: {
+              type: Type.ARRAY,
+              description: 'An array of curated resources for further learning.',
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  title: { type: Type.STRING, description: 'The title of the resource.' },
+                  url: { type: Type.STRING, description: 'The URL for the resource.' },
+                  description: { type: Type.STRING, description: 'A brief description of the resource.' },
+                },
+                required: ['title', 'url', 'description'],
+              },
+            },
+          },
+          required: ['summary', 'resources'],
+        },
+      },
+    });
+
+    // Every chunk carries the running totals; the last one has the final counts.
+    let usage: TokenUsage | null = null;
+    for await (const chunk of response) {
+      usage = readUsage(chunk.usageMetadata) ?? usage;
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+  },
+
+  async generateEtymology(topic, modelId, options = {}) {
+    const ai = getAiInstance();
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: buildEtymologyPrompt(topic, settingsService.getOutputLanguage()),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: 'application/json',
+        thinkingConfig: { thinkingBudget: 0 },
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            ipa: { type: Type.STRING, description: 'The IPA transcription, without slashes.' },
+            rootLanguage: { type: Type.STRING, description: 'The language the term ultimately comes from.' },
+            morphemes: {
+              type: Type.ARRAY,
+              description: 'The meaningful parts of the term, in order.',
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  form: { type: Type.STRING },
+                  meaning: { type: Type.STRING },
+                  language: { type: Type.STRING },
+                },
+                required: ['form', 'meaning', 'language'],
+              },
+            },
+            firstAttested: { type: Type.STRING, description: 'When and where the term is first recorded.' },
+            cognates: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  word: { type: Type.STRING },
+                  language: { type: Type.STRING },
+                },
+                required: ['word', 'language'],
+              },
+            },
+            history: { type: Type.STRING, description: 'How the meaning shifted over time.' },
+          },
+          required: ['ipa', 'rootLanguage', 'morphemes', 'firstAttested', 'cognates', 'history'],
+        },
+      },
+    });
+
+    const usage = readUsage(response.usageMetadata);
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+    return parseJsonResponse<EtymologyData>(response.text);
+  },
+
+  async generateComparison(topicA, topicB, modelId, options = {}) {
+    const ai = getAiInstance();
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: buildComparisonPrompt(topicA, topicB, settingsService.getOutputLanguage()),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: 'application/json',
+        thinkingConfig: { thinkingBudget: 0 },
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            relationship: { type: Type.STRING, description: 'A short label for how the two concepts relate.' },
+            shared: {
+              type: Type.ARRAY,
+              description: 'Traits both concepts share.',
+              items: { type: Type.STRING },
+            },
+            differences: {
+              type: Type.ARRAY,
+              description: 'Aspects on which the concepts differ.',
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  aspect: { type: Type.STRING },
+                  a: { type: Type.STRING, description: 'How the first concept stands.' },
+                  b: { type: Type.STRING, description: 'How the second concept stands.' },
+                },
+                required: ['aspect', 'a', 'b'],
+              },
+            },
+            diagram: { type: Type.STRING, description: 'ASCII art of both concepts and their relationship.' },
+          },
+          required: ['relationship', 'shared', 'differences', 'diagram'],
+        },
+      },
+    });
+
+    const usage = readUsage(response.usageMetadata);
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+    return parseJsonResponse<ComparisonData>(response.text);
+  },
+
+  async generateBridgeHop(topic, target, candidates, modelId, options = {}) {
+    const ai = getAiInstance();
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: buildBridgeHopPrompt(topic, target, candidates, settingsService.getOutputLanguage()),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: 'application/json',
+        thinkingConfig: { thinkingBudget: 0 },
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            next: { type: Type.STRING, description: 'The chosen concept, spelled as in the list.', enum: candidates },
+            reason: { type: Type.STRING, description: 'How the current topic connects to the chosen concept.' },
+          },
+          required: ['next', 'reason'],
+        },
+      },
+    });
+
+    const usage = readUsage(response.usageMetadata);
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+    return parseJsonResponse<BridgeHopChoice>(response.text);
+  },
+
+  async generateQuiz(topic, definition, modelId, options = {}) {
+    const ai = getAiInstance();
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: buildQuizPrompt(topic, definition, settingsService.getOutputLanguage()),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: 'application/json',
+        thinkingConfig: { thinkingBudget: 0 },
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            questions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  question: { type: Type.STRING },
+                  options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  answerIndex: { type: Type.INTEGER, description: 'The index of the correct option.' },
+                },
+                required: ['question', 'options', 'answerIndex'],
+              },
+            },
+          },
+          required: ['questions'],
+        },
+      },
+    });
+
+    const usage = readUsage(response.usageMetadata);
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+    return parseJsonResponse<QuizData>(response.text);
+  },
+
+  async generateSenses(topic, modelId, options = {}) {
+    const ai = getAiInstance();
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: buildSensesPrompt(topic, settingsService.getOutputLanguage()),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: 'application/json',
+        thinkingConfig: { thinkingBudget: 0 },
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            senses: {
+              type: Type.ARRAY,
+              description: 'The common senses of an ambiguous term; empty if it is not ambiguous.',
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  label: { type: Type.STRING, description: 'A short label that tells the sense apart.' },
+                  gloss: { type: Type.STRING, description: 'One line describing the sense.' },
+                },
+                required: ['label', 'gloss'],
+              },
+            },
+          },
+          required: ['senses'],
+        },
+      },
+    });
+
+    const usage = readUsage(response.usageMetadata);
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+    return parseJsonResponse<SenseData>(response.text);
+  },
+
+  async generateJson(prompt, modelId, options = {}) {
+    const ai = getAiInstance();
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: prompt,
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: 'application/json',
+        thinkingConfig: { thinkingBudget: 0 },
+      },
+    });
+
+    const usage = readUsage(response.usageMetadata);
+    if (usage) {
+      options.onUsage?.(usage);
+    }
+    return parseJsonResponse<unknown>(response.text);
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as settingsService from '../settingsService';
+import { geminiProvider } from './geminiProvider';
+import { openAiProvider } from './openAiProvider';
+import { replayProvider } from './replayProvider';
+import { withRecording } from './fixtureRecorder';
+import type { LlmProvider } from './provider';
+
+export type { LlmProvider } from './provider';
+
+const PROVIDER_IMPLEMENTATIONS: Record<string, LlmProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [openAiProvider.id]: openAiProvider,
+  [replayProvider.id]: replayProvider,
+};
+
+/**
+ * Resolves the provider implementation selected in the settings.
+ * Falls back to Gemini if the stored provider ID is unknown.
+ * When fixture recording is enabled, live providers are wrapped so their responses are captured.
+ * @returns The active LLM provider.
+ */
+export function getActiveProvider(): LlmProvider {
+  const provider = PROVIDER_IMPLEMENTATIONS[settingsService.getActiveProviderId()] ?? geminiProvider;
+  if (provider !== replayProvider && settingsService.getSetting<boolean>('recordFixtures', false)) {
+    return withRecording(provider);
+  }
+  return provider;
+}
@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as settingsService from '../settingsService';
+import {
+  buildAncillaryPrompt, buildBridgeHopPrompt, buildComparisonPrompt, buildDeepDivePrompt, buildDefinitionPrompt, buildEtymologyPrompt, buildFileQuestionPrompt,
+  buildQuizPrompt, buildSensesPrompt,
+} from '../prompts';
+import type { AncillaryData, BridgeHopChoice, ComparisonData, EtymologyData, FileAttachment, QuizData, SenseData, TokenUsage } from '../types';
+import { RateLimitError } from '../requestScheduler';
+import { LlmProvider, parseJsonResponse, RequestOptions, toTokenUsage } from './provider';
+
+const JSON_SYSTEM_PROMPT = 'You are a JSON API. Respond with a single valid JSON object and nothing else.';
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | Array<Record<string, unknown>>;
+}
+
+/**
+ * The `usage` object of a chat completion. Servers differ in which counts they report.
+ */
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: {
+    reasoning_tokens?: number;
+  };
+}
+
+/**
+ * One server-sent event of a streamed chat completion.
+ */
+interface ChatStreamChunk {
+  usage?: unknown;
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+/**
+ * Builds the user message for a request, attaching an uploaded file where the
+ * chat completions format allows it (images as data URLs, text files inline).
+ * @param prompt The prompt text.
+ * @param file An optional document to include.
+ * @returns The chat message.
+ * @throws An error if the file type cannot be sent to a chat completions endpoint.
+ */
+function buildUserMessage(prompt: string, file?: FileAttachment): ChatMessage {
+  if (!file) {
+    return { role: 'user', content: prompt };
+  }
+  if (file.mimeType.startsWith('image/')) {
+    return {
+      role: 'user',
+      content: [
+        { type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.data}` } },
+        { type: 'text', text: prompt },
+      ],
+    };
+  }
+  if (file.mimeType.startsWith('text/') || file.mimeType === '') {
+    const bytes = Uint8Array.from(atob(file.data), c => c.charCodeAt(0));
+    const text = new TextDecoder().decode(bytes);
+    return { role: 'user', content: `Document:\n"""\n${text}\n"""\n\n${prompt}` };
+  }
+  throw new Error(`Files of type "${file.mimeType}" are not supported by the OpenAI-compatible provider.`);
+}
+
+/**
+ * Parses a `Retry-After` header, which holds either a number of seconds or an HTTP date.
+ * @param header The header value.
+ * @returns The delay in milliseconds, or null if the header is missing or invalid.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Sends a chat completions request to the configured endpoint.
+ * HTTP errors are turned into Errors; a 429 becomes a `RateLimitError` carrying the server's `Retry-After` delay.
+ * @param body The request body.
+ * @param signal An optional signal that cancels the request.
+ * @returns The successful fetch response.
+ */
+async function postChatCompletion(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+  const baseUrl = settingsService.getOpenAiBaseUrl().replace(/\/+$/, '');
+  const apiKey = settingsService.getOpenAiApiKey();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    if (response.status === 429) {
+      throw new RateLimitError(`Endpoint reported a rate limit. ${detail}`, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    throw new Error(`Endpoint returned HTTP ${response.status}. ${detail}`);
+  }
+  return response;
+}
+
+/**
+ * Reads the `usage` object of a chat completion. Reasoning tokens are part of
+ * `completion_tokens` in this format, so they are split out.
+ * @param usage The `usage` object of a response or of the final streamed chunk.
+ * @returns The token usage, or null if the endpoint reported none.
+ */
+function readUsage(usage: unknown): TokenUsage | null {
+  if (!usage || typeof usage !== 'object') return null;
+  const { prompt_tokens, completion_tokens, completion_tokens_details } = usage as OpenAiUsage;
+  const count = (value: unknown) => typeof value === 'number' ? value : undefined;
+  const thinkingTokens = count(completion_tokens_details?.reasoning_tokens) ?? 0;
+  return toTokenUsage(count(prompt_tokens), (count(completion_tokens) ?? 0) - thinkingTokens, thinkingTokens);
+}
+
+/**
+ * Reads the text deltas of a streamed chat completion from its server-sent event body.
+ * @param response The streaming fetch response.
+ * @param onUsage Receives the token usage from the final chunk, if the endpoint sends it.
+ * @returns An async generator yielding text chunks.
+ * @throws An error naming the endpoint if an event is not valid JSON.
+ */
+async function* readChatStream(
+  response: Response,
+  onUsage?: (usage: TokenUsage) => void
+): AsyncGenerator<string, void, undefined> {
+  if (!response.body) {
+    throw new Error('Endpoint returned an empty stream.');
+  }
+
+  // Parse the server-sent event stream line by line.
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let done = false;
+  while (!done) {
+    const result = await reader.read();
+    done = result.done;
+    // At the end, flush the decoder and parse the last line even if no newline closed it.
+    buffer += done ? decoder.decode() : decoder.decode(result.value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice('data:'.length).trim();
+      if (data === '[DONE]') return;
+      let payload: ChatStreamChunk | null;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        throw new Error(`${settingsService.getOpenAiBaseUrl()} sent a stream event that is not valid JSON: ${data.slice(0, 200)}`);
+      }
+      const usage = readUsage(payload?.usage);
+      if (usage) {
+        onUsage?.(usage);
+      }
+      const text = payload?.choices?.[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+}
+
+/**
+ * Requests a JSON object completion and parses it.
+ * @param prompt The prompt describing the expected JSON shape.
+ * @param modelId The model to use.
+ * @param options The abort signal and usage callback.
+ * @returns The parsed response.
+ */
+async function requestJson<T>(prompt: string, modelId: string, options: RequestOptions = {}): Promise<T> {
+  const response = await postChatCompletion({
+    model: modelId,
+    messages: [
+      { role: 'system', content: JSON_SYSTEM_PROMPT },
+      { role: 'user', content: prompt },
+    ],
+    response_format: { type: 'json_object' },
+  }, options.signal);
+  const payload = await response.json();
+  const usage = readUsage(payload?.usage);
+  if (usage) {
+    options.onUsage?.(usage);
+  }
+  const text: string = payload?.choices?.[0]?.message?.content ?? '';
+  return parseJsonResponse<T>(text);
+}
+
+/**
+ * A backend for any OpenAI-compatible `/chat/completions` endpoint,
+ * such as OpenAI itself, a local Ollama server, vLLM or LM Studio.
+ */
+export const openAiProvider: LlmProvider = {
+  id: 'openai',
+
+  async *streamDefinition(topicOrQuery, modelId, file, history = [], context = {}, options = {}) {
+    let messages: ChatMessage[];
+    if (file) {
+      // The document is attached to the first user turn of the conversation.
+      const turns = [...history, { role: 'user', text: topicOrQuery }];
+      messages = turns.map((turn, i): ChatMessage => {
+        if (turn.role !== 'user') {
+          return { role: 'assistant', content: turn.text };
+        }
+        const prompt = buildFileQuestionPrompt(turn.text, settingsService.getOutputLanguage());
+        return i === 0 ? buildUserMessage(prompt, file) : { role: 'user', content: prompt };
+      });
+    } else {
+      messages = [buildUserMessage(buildDefinitionPrompt(
+        topicOrQuery,
+        settingsService.getOutputLanguage(),
+        settingsService.getActiveDefinitionStyle(),
+        settingsService.getActiveDefinitionLength(),
+        context,
+      ))];
+    }
+
+    const response = await postChatCompletion({
+      model: modelId,
+      messages,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, options.signal);
+    yield* readChatStream(response, options.onUsage);
+  },
+
+  generateAncillaryData(topic, modelId, sense, options) {
+    const prompt = buildAncillaryPrompt(topic, settingsService.getOutputLanguage(), settingsService.isAnimatedArtEnabled(), sense);
+    return requestJson<AncillaryData>(prompt, modelId, options);
+  },
+
+  async *streamDeepDive(topic, modelId, sense, options = {}) {
+    const response = await postChatCompletion({
+      model: modelId,
+      messages: [
+        { role: 'system', content: JSON_SYSTEM_PROMPT },
+        { role: 'user', content: buildDeepDivePrompt(topic, settingsService.getOutputLanguage(), sense) },
+      ],
+      response_format: { type: 'json_object' },
+      stream: true,
+      stream_options: { include_usage: true },
+    }, options.signal);
+    yield* readChatStream(response, options.onUsage);
+  },
+
+  generateEtymology(topic, modelId, options) {
+    return requestJson<EtymologyData>(buildEtymologyPrompt(topic, settingsService.getOutputLanguage()), modelId, options);
+  },
+
+  generateComparison(topicA, topicB, modelId, options) {
+    return requestJson<ComparisonData>(buildComparisonPrompt(topicA, topicB, settingsService.getOutputLanguage()), modelId, options);
+  },
+
+  generateBridgeHop(topic, target, candidates, modelId, options) {
+    return requestJson<BridgeHopChoice>(buildBridgeHopPrompt(topic, target, candidates, settingsService.getOutputLanguage()), modelId, options);
+  },
+
+  generateQuiz(topic, definition, modelId, options) {
+    return requestJson<QuizData>(buildQuizPrompt(topic, definition, settingsService.getOutputLanguage()), modelId, options);
+  },
+
+  generateSenses(topic, modelId, options) {
+    return requestJson<SenseData>(buildSensesPrompt(topic, settingsService.getOutputLanguage()), modelId, options);
+  },
+
+  generateJson(prompt, modelId, options) {
+    return requestJson<unknown>(prompt, modelId, options);
+  },
+};
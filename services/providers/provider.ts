@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type {
+  AncillaryData, BridgeHopChoice, ChatTurn, ComparisonData, EtymologyData, FileAttachment, QuizData, SenseData, TokenUsage, TopicContext, TopicSense,
+} from '../types';
+
+/**
+ * Per-request hooks the generation service passes to every provider call.
+ */
+export interface RequestOptions {
+  /** Cancels the request. */
+  signal?: AbortSignal;
+  /** Receives the token counts reported by the API, at most once per request. */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * The contract every LLM backend implements.
+ * Providers only talk to their API and shape the response; caching, retries and
+ * error normalization are handled once by the generation service on top of them.
+ * An aborted signal must stop the request and reject with an AbortError, and token usage
+ * should be reported through `onUsage` whenever the API returns it.
+ */
+export interface LlmProvider {
+  /** Matches an `AiProvider.id` in `config/models.ts`. */
+  id: string;
+
+  /**
+   * Streams a plain-text definition, or an answer about an uploaded file.
+   * @param topicOrQuery The term to define, or the question to answer.
+   * @param modelId The model to use.
+   * @param file An optional document to ground the answer in.
+   * @param history Earlier turns of the conversation about the file, oldest first.
+   * @param context Where the topic was reached from. Ignored for questions about a file.
+   * @param options The abort signal and usage callback.
+   * @returns An async generator yielding text chunks.
+   */
+  streamDefinition(
+    topicOrQuery: string,
+    modelId: string,
+    file?: FileAttachment,
+    history?: ChatTurn[],
+    context?: TopicContext,
+    options?: RequestOptions
+  ): AsyncGenerator<string, void, undefined>;
+
+  /**
+   * Generates related concepts and ASCII art for a topic.
+   * @param topic The topic to generate data for.
+   * @param modelId The model to use.
+   * @param sense The sense picked for an ambiguous search, if any.
+   * @param options The abort signal and usage callback.
+   * @returns The parsed, unvalidated response.
+   */
+  generateAncillaryData(topic: string, modelId: string, sense?: TopicSense, options?: RequestOptions): Promise<AncillaryData>;
+
+  /**
+   * Streams a detailed summary and curated resources for a topic as raw JSON text,
+   * so the caller can render it incrementally.
+   * @param topic The topic to generate a deep dive for.
+   * @param modelId The model to use.
+   * @param sense The sense picked for an ambiguous search, if any.
+   * @param options The abort signal and usage callback.
+   * @returns An async generator yielding chunks of a JSON `DeepDiveData` document.
+   */
+  streamDeepDive(topic: string, modelId: string, sense?: TopicSense, options?: RequestOptions): AsyncGenerator<string, void, undefined>;
+
+  /**
+   * Generates the etymology and pronunciation of a topic.
+   * @param topic The word or term.
+   * @param modelId The model to use.
+   * @param options The abort signal and usage callback.
+   * @returns The parsed, unvalidated response.
+   */
+  generateEtymology(topic: string, modelId: string, options?: RequestOptions): Promise<EtymologyData>;
+
+  /**
+   * Generates a structured comparison of two topics.
+   * @param topicA The first topic.
+   * @param topicB The second topic.
+   * @param modelId The model to use.
+   * @param options The abort signal and usage callback.
+   * @returns The parsed, unvalidated response.
+   */
+  generateComparison(topicA: string, topicB: string, modelId: string, options?: RequestOptions): Promise<ComparisonData>;
+
+  /**
+   * Picks the next step of a bridge between two topics from a list of related concepts.
+   * @param topic The topic the bridge has reached.
+   * @param target The topic the bridge is heading for.
+   * @param candidates The related concepts to choose from.
+   * @param modelId The model to use.
+   * @param options The abort signal and usage callback.
+   * @returns The parsed, unvalidated response.
+   */
+  generateBridgeHop(topic: string, target: string, candidates: string[], modelId: string, options?: RequestOptions): Promise<BridgeHopChoice>;
+
+  /**
+   * Generates multiple-choice review questions about a topic.
+   * @param topic The topic.
+   * @param definition The definition the questions are based on.
+   * @param modelId The model to use.
+   * @param options The abort signal and usage callback.
+   * @returns The parsed, unvalidated response.
+   */
+  generateQuiz(topic: string, definition: string, modelId: string, options?: RequestOptions): Promise<QuizData>;
+
+  /**
+   * Lists the senses of a searched term, if it is ambiguous.
+   * @param topic The searched term.
+   * @param modelId The model to use.
+   * @param options The abort signal and usage callback.
+   * @returns The parsed, unvalidated response.
+   */
+  generateSenses(topic: string, modelId: string, options?: RequestOptions): Promise<SenseData>;
+
+  /**
+   * Generates a free-form JSON object. Used to ask the model to repair a response that failed validation.
+   * @param prompt The full prompt, which describes the expected JSON shape.
+   * @param modelId The model to use.
+   * @param options The abort signal and usage callback.
+   * @returns The parsed, unvalidated response.
+   */
+  generateJson(prompt: string, modelId: string, options?: RequestOptions): Promise<unknown>;
+}
+
+/**
+ * Normalizes the token counts reported by an API into the shared shape.
+ * @param promptTokens Input tokens.
+ * @param outputTokens Output tokens, excluding thinking.
+ * @param thinkingTokens Thinking or reasoning tokens.
+ * @returns The token usage, with missing counts as zero.
+ */
+export function toTokenUsage(promptTokens?: number, outputTokens?: number, thinkingTokens?: number): TokenUsage {
+  return { promptTokens: promptTokens ?? 0, outputTokens: outputTokens ?? 0, thinkingTokens: thinkingTokens ?? 0 };
+}
+
+/**
+ * A response that should have been JSON but could not be parsed. It keeps the raw text,
+ * so the generation service can send it back in a repair prompt.
+ */
+export class MalformedJsonError extends SyntaxError {
+  constructor(public readonly text: string, reason: string) {
+    super(`The response is not valid JSON: ${reason}`);
+    this.name = 'MalformedJsonError';
+  }
+}
+
+/**
+ * Parses a JSON response body, tolerating a surrounding markdown code fence.
+ * @param text The raw text returned by the model.
+ * @returns The parsed value.
+ * @throws A MalformedJsonError if the text is not valid JSON.
+ */
+export function parseJsonResponse<T>(text: string): T {
+  let jsonStr = text.trim();
+  const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
+  const match = jsonStr.match(fenceRegex);
+  if (match && match[1]) {
+    jsonStr = match[1].trim();
+  }
+  try {
+    return JSON.parse(jsonStr) as T;
+  } catch (error) {
+    throw new MalformedJsonError(text, error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as settingsService from '../settingsService';
+import { sleep } from '../abort';
+import { DEMO_FIXTURE } from '../../config/demoFixture';
+import { findFixtureEntry, getBridgeHopFixtureKey, getComparisonFixtureKey, ReplayFixture } from './fixture';
+import { getLoadedFixture } from './fixtureStore';
+import type { LlmProvider } from './provider';
+
+// Characters per chunk when streaming a recorded JSON response.
+const REPLAY_SLICE_LENGTH = 24;
+
+/**
+ * Returns the fixture to replay: the one loaded in the settings panel, or the bundled demo.
+ * @returns The active replay fixture.
+ */
+export function getReplayFixture(): ReplayFixture {
+  return getLoadedFixture() ?? DEMO_FIXTURE;
+}
+
+/**
+ * Simulates a rate limit response at the probability configured in the settings,
+ * so the retry banners can be exercised offline. The message mimics Gemini's error
+ * so it is classified exactly like a real one.
+ * @throws An error resembling a RESOURCE_EXHAUSTED response.
+ */
+function maybeInjectRateLimit(): void {
+  const rate = settingsService.getSetting<number>('replayRateLimitRate', 0);
+  if (rate > 0 && Math.random() < rate) {
+    throw new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED","message":"Injected by the replay provider.","details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay":"2s"}]}}');
+  }
+}
+
+/**
+ * Builds the error thrown when a fixture has no entry for a request.
+ * @param kind The kind of response that was requested.
+ * @param topic The requested topic.
+ * @returns The error.
+ */
+function missingEntryError(kind: string, topic: string): Error {
+  return new Error(`No recorded ${kind} for "${topic}" in the replay fixture.`);
+}
+
+/**
+ * A deterministic offline backend that plays back recorded responses,
+ * including the original chunk timing. It needs no network access or API key,
+ * and reports no token usage since replaying costs nothing.
+ */
+export const replayProvider: LlmProvider = {
+  id: 'replay',
+
+  async *streamDefinition(topicOrQuery, _modelId, file, _history, context, options = {}) {
+    maybeInjectRateLimit();
+    const chunks = findFixtureEntry(getReplayFixture().definitions, topicOrQuery, file, context);
+    if (!chunks) {
+      throw missingEntryError('definition', topicOrQuery);
+    }
+    for (const chunk of chunks) {
+      await sleep(chunk.delayMs, options.signal);
+      yield chunk.text;
+    }
+  },
+
+  async generateAncillaryData(topic, _modelId, sense, options = {}) {
+    maybeInjectRateLimit();
+    const entry = findFixtureEntry(getReplayFixture().ancillary, topic, undefined, { sense });
+    if (!entry) {
+      throw missingEntryError('art and concepts', topic);
+    }
+    await sleep(entry.latencyMs, options.signal);
+    return structuredClone(entry.data);
+  },
+
+  async *streamDeepDive(topic, _modelId, sense, options = {}) {
+    maybeInjectRateLimit();
+    const entry = findFixtureEntry(getReplayFixture().deepDives, topic, undefined, { sense });
+    if (!entry) {
+      throw missingEntryError('deep dive', topic);
+    }
+    // Deep dives are recorded whole; stream the JSON back in even slices over the recorded latency.
+    const json = JSON.stringify(entry.data);
+    const sliceCount = Math.max(1, Math.ceil(json.length / REPLAY_SLICE_LENGTH));
+    for (let i = 0; i < sliceCount; i++) {
+      await sleep(entry.latencyMs / sliceCount, options.signal);
+      yield json.slice(i * REPLAY_SLICE_LENGTH, (i + 1) * REPLAY_SLICE_LENGTH);
+    }
+  },
+
+  async generateEtymology(topic, _modelId, options = {}) {
+    maybeInjectRateLimit();
+    const entry = findFixtureEntry(getReplayFixture().etymologies, topic);
+    if (!entry) {
+      throw missingEntryError('etymology', topic);
+    }
+    await sleep(entry.latencyMs, options.signal);
+    return structuredClone(entry.data);
+  },
+
+  async generateComparison(topicA, topicB, _modelId, options = {}) {
+    maybeInjectRateLimit();
+    const entry = getReplayFixture().comparisons?.[getComparisonFixtureKey(topicA, topicB)];
+    if (!entry) {
+      throw missingEntryError('comparison', `${topicA} vs ${topicB}`);
+    }
+    await sleep(entry.latencyMs, options.signal);
+    return structuredClone(entry.data);
+  },
+
+  async generateBridgeHop(topic, target, _candidates, _modelId, options = {}) {
+    maybeInjectRateLimit();
+    const entry = getReplayFixture().bridgeHops?.[getBridgeHopFixtureKey(topic, target)];
+    if (!entry) {
+      throw missingEntryError('bridge hop', `${topic} -> ${target}`);
+    }
+    await sleep(entry.latencyMs, options.signal);
+    return structuredClone(entry.data);
+  },
+
+  async generateQuiz(topic, _definition, _modelId, options = {}) {
+    maybeInjectRateLimit();
+    const entry = findFixtureEntry(getReplayFixture().quizzes, topic);
+    if (!entry) {
+      throw missingEntryError('quiz', topic);
+    }
+    await sleep(entry.latencyMs, options.signal);
+    return structuredClone(entry.data);
+  },
+
+  // Fixtures recorded before senses existed have none, and a term without an entry was
+  // not ambiguous when recorded, so a missing entry replays as an unambiguous term.
+  async generateSenses(topic, _modelId, options = {}) {
+    maybeInjectRateLimit();
+    const entry = findFixtureEntry(getReplayFixture().senses, topic);
+    if (!entry) {
+      return { senses: [] };
+    }
+    await sleep(entry.latencyMs, options.signal);
+    return structuredClone(entry.data);
+  },
+
+  async generateJson() {
+    // Repairs are only requested for invalid responses, and recorded responses were valid when recorded.
+    throw new Error('The replay provider cannot repair responses; the fixture entry is invalid.');
+  },
+};
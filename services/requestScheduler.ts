@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as settingsService from './settingsService';
+import { createAbortError, throwIfAborted } from './abort';
+import { assertWithinBudget } from './usageService';
+
+/**
+ * The single gate every provider request passes through.
+ * Requests wait in a priority queue and are dispatched while a token bucket
+ * (the requests-per-minute limit) and the concurrency limit allow. When a provider
+ * reports a rate limit, the whole queue pauses for the server-supplied retry delay,
+ * or an exponential backoff if there is none, and the failed request is retried.
+ * Once the session's hard budget is spent, dispatched requests fail instead of being sent.
+ */
+
+export const DEFAULT_REQUESTS_PER_MINUTE = 15;
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 3;
+const MAX_ATTEMPTS = 3;
+const INITIAL_BACKOFF_MS = 2000;
+
+/**
+ * Dispatch order when several requests are waiting: what the user is reading first,
+ * then the art and concepts around it.
+ */
+export type RequestPriority = 'primary' | 'ancillary';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  primary: 0,
+  ancillary: 1,
+};
+
+export interface ScheduleOptions {
+  priority: RequestPriority;
+  /** Cancels the request, whether it is queued, running or waiting to retry. */
+  signal?: AbortSignal;
+  /** Called before a rate-limited request is retried. */
+  onRetry?: (attempt: number, delay: number) => void;
+}
+
+/** An event of a scheduled stream: a chunk, or notice that the stream failed and will start over. */
+export type ScheduledStreamEvent<T> =
+  | { type: 'chunk'; value: T }
+  | { type: 'retry'; attempt: number; delayMs: number };
+
+export interface SchedulerState {
+  active: number;
+  queued: number;
+  /** Epoch milliseconds until which dispatch is paused by a rate limit, or null. */
+  pausedUntil: number | null;
+}
+
+/**
+ * A rate limit reported by a provider.
+ * Providers that can read the server's retry delay (for example a `Retry-After` header) pass it along.
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public readonly retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+interface QueuedRequest {
+  rank: number;
+  dispatch: (release: () => void) => void;
+}
+
+const queue: QueuedRequest[] = [];
+const listeners = new Set<(state: SchedulerState) => void>();
+let active = 0;
+let tokens: number | null = null; // Filled to capacity on first use.
+let lastRefillAt = Date.now();
+let pausedUntil = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Returns the configured requests-per-minute limit, which is also the bucket's burst capacity.
+ */
+function getRequestsPerMinute(): number {
+  return Math.max(1, settingsService.getSetting<number>('requestsPerMinute', DEFAULT_REQUESTS_PER_MINUTE));
+}
+
+/**
+ * Returns the configured maximum number of requests in flight at once.
+ */
+function getMaxConcurrent(): number {
+  return Math.max(1, settingsService.getSetting<number>('maxConcurrentRequests', DEFAULT_MAX_CONCURRENT_REQUESTS));
+}
+
+/**
+ * Adds the tokens earned since the last refill, up to the bucket capacity.
+ */
+function refillTokens(now: number): void {
+  const capacity = getRequestsPerMinute();
+  const earned = ((now - lastRefillAt) / 60_000) * capacity;
+  tokens = Math.min(capacity, (tokens ?? capacity) + earned);
+  lastRefillAt = now;
+}
+
+/**
+ * Returns a snapshot of the queue.
+ * @returns The scheduler state.
+ */
+export function getSchedulerState(): SchedulerState {
+  return { active, queued: queue.length, pausedUntil: pausedUntil > Date.now() ? pausedUntil : null };
+}
+
+/**
+ * Subscribes to changes in the queue.
+ * @param listener Called with the new state whenever a request is queued, dispatched or finished.
+ * @returns A function that unsubscribes.
+ */
+export function subscribeToScheduler(listener: (state: SchedulerState) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners(): void {
+  const state = getSchedulerState();
+  listeners.forEach(listener => listener(state));
+}
+
+/**
+ * Dispatches as many queued requests as the limits allow, and sets a timer
+ * for when the next one can go if the queue is blocked on time rather than concurrency.
+ */
+function pump(): void {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+  const now = Date.now();
+  refillTokens(now);
+
+  while (queue.length > 0 && active < getMaxConcurrent() && now >= pausedUntil && tokens! >= 1) {
+    const request = queue.shift()!;
+    tokens! -= 1;
+    active++;
+    let isReleased = false;
+    request.dispatch(() => {
+      if (isReleased) return;
+      isReleased = true;
+      active--;
+      pump();
+    });
+  }
+
+  if (queue.length > 0 && active < getMaxConcurrent()) {
+    const msUntilToken = ((1 - tokens!) / getRequestsPerMinute()) * 60_000;
+    const wait = Math.max(pausedUntil - now, msUntilToken, 0);
+    wakeTimer = setTimeout(pump, Math.ceil(wait));
+  }
+  notifyListeners();
+}
+
+/**
+ * Waits for a turn to send a request.
+ * @param priority The request's priority; requests of equal priority go first-come, first-served.
+ * @param signal An optional signal that withdraws the request from the queue.
+ * @returns A function that must be called once the request, including any stream, has finished.
+ */
+function acquireSlot(priority: RequestPriority, signal?: AbortSignal): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      queue.splice(queue.indexOf(request), 1);
+      reject(createAbortError());
+      pump();
+    };
+    const request: QueuedRequest = {
+      rank: PRIORITY_RANK[priority],
+      dispatch: release => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(release);
+      },
+    };
+    const insertAt = queue.findIndex(queued => queued.rank > request.rank);
+    queue.splice(insertAt === -1 ? queue.length : insertAt, 0, request);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    pump();
+  });
+}
+
+/**
+ * Checks whether an error is a rate limit: a `RateLimitError`, or a provider error
+ * carrying Gemini's RESOURCE_EXHAUSTED status or an HTTP 429 code.
+ * @param error The caught error.
+ * @returns True if the request may succeed after waiting.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (error instanceof RateLimitError) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('RESOURCE_EXHAUSTED') || message.includes('"code":429') || message.includes('rate limit');
+}
+
+/**
+ * Reads the retry delay the server asked for, if any.
+ * @param error A rate limit error.
+ * @returns The delay in milliseconds, or null if the server did not supply one.
+ */
+function getServerRetryDelayMs(error: unknown): number | null {
+  if (error instanceof RateLimitError) {
+    return error.retryAfterMs;
+  }
+  // Gemini describes the delay in a google.rpc.RetryInfo detail, e.g. "retryDelay": "31s".
+  const match = error instanceof Error ? error.message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) : null;
+  return match ? Math.ceil(Number(match[1]) * 1000) : null;
+}
+
+/**
+ * Decides whether a failed attempt is retried, and pauses the queue for the retry delay if so.
+ * @param error The error of the failed attempt.
+ * @param attempt The zero-based number of the failed attempt.
+ * @param signal The request's abort signal.
+ * @returns The one-based number of the upcoming retry and its delay.
+ * @throws The original error if it is not retryable, or an AbortError if the request was aborted.
+ */
+function planRetry(error: unknown, attempt: number, signal?: AbortSignal): { attempt: number; delayMs: number } {
+  throwIfAborted(signal);
+  if (!isRateLimitError(error) || attempt >= MAX_ATTEMPTS - 1) {
+    throw error;
+  }
+  const delayMs = getServerRetryDelayMs(error) ?? INITIAL_BACKOFF_MS * Math.pow(2, attempt);
+  // A rate limit applies to every request, so hold the whole queue rather than just this one.
+  pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+  pump();
+  return { attempt: attempt + 1, delayMs };
+}
+
+/**
+ * Runs a request through the queue, retrying it when it is rate limited.
+ * @param task Makes the request.
+ * @param options The priority, abort signal and retry callback.
+ * @returns The result of the request.
+ */
+export async function schedule<T>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquireSlot(options.priority, options.signal);
+    let retry: { attempt: number; delayMs: number };
+    try {
+      assertWithinBudget();
+      return await task();
+    } catch (error) {
+      retry = planRetry(error, attempt, options.signal);
+    } finally {
+      release();
+    }
+    options.onRetry?.(retry.attempt, retry.delayMs);
+  }
+}
+
+/**
+ * Runs a streaming request through the queue. The request holds its slot until the
+ * stream ends, and a rate-limited stream is started over from the beginning.
+ * @param task Starts the stream.
+ * @param options The priority and abort signal. Retries are reported as events rather than through `onRetry`.
+ * @returns An async generator of chunks and retry notices.
+ */
+export async function* scheduleStream<T>(
+  task: () => AsyncIterable<T>,
+  options: Omit<ScheduleOptions, 'onRetry'>
+): AsyncGenerator<ScheduledStreamEvent<T>, void, undefined> {
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquireSlot(options.priority, options.signal);
+    let retry: { attempt: number; delayMs: number };
+    try {
+      assertWithinBudget();
+      for await (const value of task()) {
+        yield { type: 'chunk', value };
+      }
+      return;
+    } catch (error) {
+      retry = planRetry(error, attempt, options.signal);
+    } finally {
+      release();
+    }
+    yield { type: 'retry', ...retry };
+  }
+}
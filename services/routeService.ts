@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { TopicContext } from './types';
+
+/**
+ * Maps exploration state to and from hash-based URLs, e.g. `#/topic/Recursion/deep`.
+ * Hash routes need no server configuration, so deep links work on any static host.
+ * The context a topic was opened in is kept in the history entry's state, so back and
+ * forward reopen it in the same sense.
+ */
+
+export interface TopicRoute {
+  topic: string;
+  isDeepDive: boolean;
+}
+
+interface RouteState {
+  context: TopicContext;
+}
+
+const ROUTE_REGEX = /^#\/topic\/([^/]+)(\/deep)?\/?$/;
+
+/**
+ * Parses a location hash into a topic route.
+ * @param hash The hash, including the leading '#'.
+ * @returns The route, or null if the hash is not a topic route.
+ */
+export function parseRoute(hash: string): TopicRoute | null {
+  const match = hash.match(ROUTE_REGEX);
+  if (!match) {
+    return null;
+  }
+  try {
+    const topic = decodeURIComponent(match[1]).trim();
+    return topic ? { topic, isDeepDive: !!match[2] } : null;
+  } catch {
+    // Malformed percent-encoding.
+    return null;
+  }
+}
+
+/**
+ * Builds the location hash for a topic route.
+ * @param route The route to encode.
+ * @returns The hash, including the leading '#'.
+ */
+export function buildRoute(route: TopicRoute): string {
+  return `#/topic/${encodeURIComponent(route.topic)}${route.isDeepDive ? '/deep' : ''}`;
+}
+
+/**
+ * Reads the route from the current location.
+ * @returns The current route, or null if the URL has no topic route.
+ */
+export function getCurrentRoute(): TopicRoute | null {
+  return parseRoute(window.location.hash);
+}
+
+/**
+ * Reads the topic context stored with the current history entry.
+ * @returns The context, or an empty context if the entry has none.
+ */
+export function getCurrentContext(): TopicContext {
+  const state = window.history.state as Partial<RouteState> | null;
+  return state?.context ?? {};
+}
+
+/**
+ * Records a route in the browser history. A route that matches the current URL updates
+ * the current entry's context instead of adding an entry.
+ * @param route The route to navigate to.
+ * @param replace If true, replaces the current history entry instead of adding one.
+ * @param context The context the topic is opened in.
+ */
+export function pushRoute(route: TopicRoute, replace = false, context: TopicContext = {}): void {
+  const hash = buildRoute(route);
+  const state: RouteState = { context };
+  if (replace || hash === window.location.hash) {
+    window.history.replaceState(state, '', hash);
+  } else {
+    window.history.pushState(state, '', hash);
+  }
+}
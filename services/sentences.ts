@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Sentences longer than this are cut around the clicked word, to keep prompts short.
+const MAX_SENTENCE_LENGTH = 300;
+
+/**
+ * Finds the sentence that contains a position in a text, using the browser's sentence
+ * segmentation for the language so texts without spaces or Latin punctuation work too.
+ * @param text The text.
+ * @param offset The position of the clicked word in the text.
+ * @param languageCode The language of the text.
+ * @returns The sentence, trimmed, or an empty string if the position is outside the text.
+ */
+export function findSentence(text: string, offset: number, languageCode: string): string {
+  const segmenter = new Intl.Segmenter(languageCode, { granularity: 'sentence' });
+  const segment = segmenter.segment(text).containing(offset);
+  if (!segment) return '';
+  const sentence = segment.segment.trim();
+  if (sentence.length <= MAX_SENTENCE_LENGTH) return sentence;
+  const start = Math.max(0, Math.min(offset - segment.index - MAX_SENTENCE_LENGTH / 2, sentence.length - MAX_SENTENCE_LENGTH));
+  const end = start + MAX_SENTENCE_LENGTH;
+  return `${start > 0 ? '…' : ''}${sentence.slice(start, end).trim()}${end < sentence.length ? '…' : ''}`;
+}
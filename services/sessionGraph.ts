@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { hashText } from './hash';
+import type { TopicSense } from './types';
+
+/**
+ * An immutable record of the current exploration session.
+ * Visited topics are nodes; following a link from one topic to another adds an edge,
+ * and the related concepts/keywords generated for a topic are remembered so links
+ * between visited topics can be shown even if they were never clicked.
+ */
+
+/** How the user got from one topic to the next. */
+export type LinkKind = 'word' | 'related' | 'keyword' | 'hotspot' | 'morpheme';
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  visitCount: number;
+  parentId: string | null; // The topic this one was first reached from, if it was reached by a link.
+  sentence?: string; // The sentence that first link was clicked in, if it was in running text.
+  sense?: TopicSense; // The sense picked when the topic was first searched, if it was ambiguous.
+  related: string[]; // Node IDs of related concepts and deep-dive keywords.
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: LinkKind;
+}
+
+export interface CrossLink {
+  from: string;
+  to: string;
+  followed: boolean; // False for relations the user never clicked.
+}
+
+export interface SessionGraph {
+  nodes: GraphNode[]; // In first-visit order.
+  edges: GraphEdge[];
+}
+
+/**
+ * Normalizes a topic into a node ID, so differently cased visits share a node.
+ * @param topic The topic.
+ * @returns The node ID.
+ */
+export function getNodeId(topic: string): string {
+  return topic.trim().toLowerCase();
+}
+
+/**
+ * Turns a topic into a slug for anchors and file names, keeping the letters and digits of any script.
+ * If punctuation had to be dropped, a hash of the topic is appended so that topics such as
+ * "C" and "C++" get different slugs.
+ * @param topic The topic.
+ * @returns The slug, such as "world-wide-web", "東京" or "c-l4ge7k" for "C++".
+ */
+export function getTopicSlug(topic: string): string {
+  const id = getNodeId(topic);
+  const slug = id.replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return slug === id.replace(/\s+/g, '-') ? slug : [slug, hashText(id)].filter(Boolean).join('-');
+}
+
+/**
+ * Creates an empty session graph.
+ * @returns The graph.
+ */
+export function createSessionGraph(): SessionGraph {
+  return { nodes: [], edges: [] };
+}
+
+/**
+ * Finds a node by topic.
+ * @param graph The graph to search.
+ * @param topic The topic to look up.
+ * @returns The node, or undefined if the topic has not been visited.
+ */
+export function findNode(graph: SessionGraph, topic: string): GraphNode | undefined {
+  const id = getNodeId(topic);
+  return graph.nodes.find(node => node.id === id);
+}
+
+/**
+ * Records a visit to a topic.
+ * @param graph The current graph.
+ * @param topic The visited topic.
+ * @param link How the topic was reached, if it was by following a link. Searches, random picks
+ *   and history navigation are jumps and add no edge.
+ * @param sense The sense picked for an ambiguous search, if any.
+ * @returns The updated graph.
+ */
+export function recordVisit(
+  graph: SessionGraph,
+  topic: string,
+  link?: { from: string; kind: LinkKind; sentence?: string },
+  sense?: TopicSense
+): SessionGraph {
+  const id = getNodeId(topic);
+  const fromId = link ? getNodeId(link.from) : null;
+  const existing = graph.nodes.find(node => node.id === id);
+
+  const nodes = existing
+    ? graph.nodes.map(node => node.id === id ? { ...node, visitCount: node.visitCount + 1 } : node)
+    : [...graph.nodes, {
+        id,
+        label: topic.trim(),
+        visitCount: 1,
+        parentId: fromId !== id ? fromId : null,
+        ...(fromId !== id && link?.sentence ? { sentence: link.sentence } : {}),
+        ...(sense ? { sense } : {}),
+        related: [],
+      }];
+
+  let edges = graph.edges;
+  if (link && fromId && fromId !== id
+      && !edges.some(edge => edge.from === fromId && edge.to === id)) {
+    edges = [...edges, { from: fromId, to: id, kind: link.kind }];
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Remembers the related concepts or deep-dive keywords generated for a topic.
+ * @param graph The current graph.
+ * @param topic The topic the concepts belong to.
+ * @param concepts The related concepts.
+ * @returns The updated graph, or the same graph if the topic is not a node.
+ */
+export function recordRelations(graph: SessionGraph, topic: string, concepts: string[]): SessionGraph {
+  const id = getNodeId(topic);
+  const node = graph.nodes.find(candidate => candidate.id === id);
+  if (!node) {
+    return graph;
+  }
+  const related = [...new Set([...node.related, ...concepts.map(getNodeId)])].filter(relatedId => relatedId !== id);
+  if (related.length === node.related.length) {
+    return graph;
+  }
+  return {
+    ...graph,
+    nodes: graph.nodes.map(candidate => candidate.id === id ? { ...candidate, related } : candidate),
+  };
+}
+
+/**
+ * Lists relations between visited topics that are not part of the first-visit tree:
+ * revisiting links and related concepts that point at another visited topic.
+ * @param graph The graph.
+ * @returns The cross links, one per pair of topics.
+ */
+export function getCrossLinks(graph: SessionGraph): CrossLink[] {
+  const visited = new Set(graph.nodes.map(node => node.id));
+  const isTreeEdge = (from: string, to: string) =>
+    graph.nodes.some(node => node.id === to && node.parentId === from);
+  const seen = new Set<string>();
+  const links: CrossLink[] = [];
+
+  const add = (link: CrossLink) => {
+    const pairKey = [link.from, link.to].sort().join('\u0000');
+    if (seen.has(pairKey) || isTreeEdge(link.from, link.to) || isTreeEdge(link.to, link.from)) return;
+    seen.add(pairKey);
+    links.push(link);
+  };
+
+  graph.edges.forEach(edge => add({ from: edge.from, to: edge.to, followed: true }));
+  for (const node of graph.nodes) {
+    for (const relatedId of node.related) {
+      if (visited.has(relatedId)) {
+        add({ from: node.id, to: relatedId, followed: false });
+      }
+    }
+  }
+  return links;
+}
@@ -3,7 +3,11 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { DEFAULT_MODEL_ID } from '../config/models';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_PROVIDER_ID, PROVIDERS, getDefaultModelId, getModelsForProvider } from '../config/models';
+import { DEFAULT_LANGUAGE_CODE, getLanguage, Language } from '../config/languages';
+import {
+  DEFAULT_DEFINITION_LENGTH_ID, DEFAULT_DEFINITION_STYLE_ID, DefinitionLength, DefinitionStyle, getDefinitionLength, getDefinitionStyle,
+} from '../config/definitionStyles';
 
 /**
  * A simple service for interacting with localStorage for persistent user settings.
@@ -63,18 +67,96 @@ export function getApiKey(): string | null {
   return null;
 }
 
+/**
+ * Retrieves the key for the OpenAI-compatible provider.
+ * Local servers such as Ollama do not need one, so an empty key is allowed.
+ * @returns The API key string, or null if none is set.
+ */
+export function getOpenAiApiKey(): string | null {
+  return getSetting<string>('openAiApiKey', '').trim() || null;
+}
+
+/**
+ * Retrieves the base URL of the OpenAI-compatible endpoint.
+ * @returns The configured base URL, or the local Ollama default.
+ */
+export function getOpenAiBaseUrl(): string {
+  return getSetting<string>('openAiBaseUrl', '').trim() || DEFAULT_OPENAI_BASE_URL;
+}
+
+/**
+ * Checks whether ASCII art is requested as a looping animation rather than a single picture.
+ * Animated art costs several times the output tokens.
+ * @returns True if animated art is enabled.
+ */
+export function isAnimatedArtEnabled(): boolean {
+  return getSetting<boolean>('animatedArt', false);
+}
+
+/**
+ * Retrieves the language that generated content is written in, which the interface also follows.
+ * @returns The selected language, or English if none or an unknown one is stored.
+ */
+export function getOutputLanguage(): Language {
+  return getLanguage(getSetting<string>('outputLanguage', DEFAULT_LANGUAGE_CODE));
+}
+
+/**
+ * Retrieves the style definitions are written in.
+ * @returns The selected style, or the encyclopedia style if none or an unknown one is stored.
+ */
+export function getActiveDefinitionStyle(): DefinitionStyle {
+  return getDefinitionStyle(getSetting<string>('definitionStyle', DEFAULT_DEFINITION_STYLE_ID));
+}
+
+/**
+ * Retrieves the length definitions are written at.
+ * @returns The selected length, or the concise length if none or an unknown one is stored.
+ */
+export function getActiveDefinitionLength(): DefinitionLength {
+  return getDefinitionLength(getSetting<string>('definitionLength', DEFAULT_DEFINITION_LENGTH_ID));
+}
+
+/**
+ * Determines the active LLM provider ID based on user settings.
+ * @returns The active provider ID, or the default provider if the stored one is unknown.
+ */
+export function getActiveProviderId(): string {
+  const selectedProvider = getSetting<string>('apiProvider', DEFAULT_PROVIDER_ID);
+  return PROVIDERS.some(provider => provider.id === selectedProvider) ? selectedProvider : DEFAULT_PROVIDER_ID;
+}
+
+/**
+ * Checks whether the active provider has what it needs to make requests.
+ * Gemini needs an API key; the OpenAI-compatible provider only needs a base URL, which has a default,
+ * and the replay provider needs nothing at all.
+ * @returns True if requests can be made.
+ */
+export function isProviderConfigured(): boolean {
+  if (getActiveProviderId() === 'gemini') {
+    return !!getApiKey();
+  }
+  return true;
+}
+
 /**
  * Determines the active model ID based on user settings.
  * If a custom model is selected, it returns the custom model name.
- * Falls back to the default model if the custom name is empty.
+ * Falls back to the active provider's default model if the custom name is empty
+ * or the stored model belongs to a different provider.
  * @returns The active model ID string.
  */
 export function getActiveModelId(): string {
-  const selectedModel = getSetting<string>('apiModel', DEFAULT_MODEL_ID);
+  const providerId = getActiveProviderId();
+  const defaultModelId = getDefaultModelId(providerId);
+  const selectedModel = getSetting<string>('apiModel', defaultModelId);
+  if (!getModelsForProvider(providerId).some(model => model.id === selectedModel)) {
+    return defaultModelId;
+  }
   if (selectedModel === 'custom-model') {
     const customModelName = getSetting<string>('customApiModel', '').trim();
     // Fallback to default if custom is selected but the name is empty.
-    return customModelName || DEFAULT_MODEL_ID;
+    return customModelName || defaultModelId;
   }
   return selectedModel;
-}
\ No newline at end of file
+}
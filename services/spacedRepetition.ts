@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The SM-2 spaced repetition algorithm. Each review is graded from 0 (no recall) to
+ * 5 (perfect recall); a passing grade pushes the next review further out by the card's
+ * ease factor, and a failing one starts the card over the next day.
+ */
+
+export type Grade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number; // The gap between the last review and the next one.
+  repetitions: number;  // Passing reviews in a row.
+  dueAt: number;        // When the card is next due, in milliseconds since the epoch.
+  lastReviewedAt: number | null;
+}
+
+// The lowest grade that counts as remembering the card.
+const PASSING_GRADE = 3;
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates the review state of a new card, due straight away.
+ * @param now The current time.
+ * @returns The state.
+ */
+export function createReviewState(now: number = Date.now()): ReviewState {
+  return { easeFactor: INITIAL_EASE_FACTOR, intervalDays: 0, repetitions: 0, dueAt: now, lastReviewedAt: null };
+}
+
+/**
+ * Schedules a card after a review.
+ * @param state The card's state before the review.
+ * @param grade How well the card was recalled.
+ * @param now The time of the review.
+ * @returns The card's new state.
+ */
+export function scheduleReview(state: ReviewState, grade: Grade, now: number = Date.now()): ReviewState {
+  let { repetitions, intervalDays } = state;
+  if (grade < PASSING_GRADE) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions += 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(intervalDays * state.easeFactor);
+  }
+  const easeFactor = Math.max(MIN_EASE_FACTOR, state.easeFactor + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  return { easeFactor, intervalDays, repetitions, dueAt: now + intervalDays * MS_PER_DAY, lastReviewedAt: now };
+}
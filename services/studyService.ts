@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as settingsService from './settingsService';
+import { createReviewState, Grade, ReviewState, scheduleReview } from './spacedRepetition';
+import { getNodeId } from './sessionGraph';
+import type { QuizQuestion } from './types';
+
+/**
+ * The study deck. Every explored topic becomes two flashcards, term to definition and
+ * definition to term, and can gain model-written multiple-choice cards. The deck is kept
+ * in the settings, so it outlives the session and the content cache.
+ */
+
+export type StudyCardKind = 'termToDefinition' | 'definitionToTerm' | 'multipleChoice';
+
+export interface StudyCard {
+  id: string;
+  topic: string;
+  kind: StudyCardKind;
+  front: string;
+  back: string;
+  options?: string[]; // The choices of a multiple-choice card, one of which is `back`.
+  review: ReviewState;
+}
+
+const SETTING_KEY = 'studyDeck';
+const MASK = '_____';
+
+/**
+ * Reads the deck.
+ * @returns Every card, in the order they were added.
+ */
+export function getStudyCards(): StudyCard[] {
+  return settingsService.getSetting<StudyCard[]>(SETTING_KEY, []);
+}
+
+/**
+ * Saves the deck.
+ */
+function saveStudyCards(cards: StudyCard[]): void {
+  settingsService.setSetting<StudyCard[]>(SETTING_KEY, cards);
+}
+
+/**
+ * Adds cards to the deck, skipping any whose ID is already taken.
+ * @returns How many cards were added.
+ */
+function addCards(newCards: StudyCard[]): number {
+  const cards = getStudyCards();
+  const ids = new Set(cards.map(card => card.id));
+  const added = newCards.filter(card => !ids.has(card.id));
+  if (added.length > 0) {
+    saveStudyCards([...cards, ...added]);
+  }
+  return added.length;
+}
+
+/**
+ * Hides a term in its own definition, so the definition can be shown as a question.
+ * @param definition The definition.
+ * @param topic The term to hide.
+ * @returns The definition with every mention of the term masked.
+ */
+function maskTerm(definition: string, topic: string): string {
+  const escaped = topic.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return definition.replace(new RegExp(escaped, 'gi'), MASK);
+}
+
+/**
+ * Turns an explored topic into flashcards. A topic's cards are created once and keep the
+ * definition they were created with.
+ * @param topic The topic.
+ * @param definition Its definition.
+ * @param now The current time; new cards are due straight away.
+ * @returns How many cards were added.
+ */
+export function addTopicCards(topic: string, definition: string, now: number = Date.now()): number {
+  const id = getNodeId(topic);
+  if (!id || !definition.trim()) return 0;
+  return addCards([
+    { id: `termToDefinition:${id}`, topic, kind: 'termToDefinition', front: topic, back: definition, review: createReviewState(now) },
+    { id: `definitionToTerm:${id}`, topic, kind: 'definitionToTerm', front: maskTerm(definition, topic), back: topic, review: createReviewState(now) },
+  ]);
+}
+
+/**
+ * Adds multiple-choice cards about a topic.
+ * @param topic The topic.
+ * @param questions The validated questions.
+ * @param now The current time; new cards are due straight away.
+ * @returns How many cards were added.
+ */
+export function addQuizCards(topic: string, questions: QuizQuestion[], now: number = Date.now()): number {
+  const id = getNodeId(topic);
+  return addCards(questions.map((question, index) => ({
+    id: `multipleChoice:${id}:${index}`,
+    topic,
+    kind: 'multipleChoice',
+    front: question.question,
+    back: question.options[question.answerIndex],
+    options: question.options,
+    review: createReviewState(now),
+  })));
+}
+
+/**
+ * Lists the topics in the deck that have no multiple-choice cards yet.
+ * @returns Each topic with the definition its flashcards were made from.
+ */
+export function getTopicsWithoutQuiz(): { topic: string; definition: string }[] {
+  const cards = getStudyCards();
+  const quizzed = new Set(cards.filter(card => card.kind === 'multipleChoice').map(card => getNodeId(card.topic)));
+  return cards
+    .filter(card => card.kind === 'termToDefinition' && !quizzed.has(getNodeId(card.topic)))
+    .map(card => ({ topic: card.topic, definition: card.back }));
+}
+
+/**
+ * Lists the cards due for review.
+ * @param cards The deck.
+ * @param now The current time.
+ * @returns The due cards, the most overdue first.
+ */
+export function getDueCards(cards: StudyCard[], now: number = Date.now()): StudyCard[] {
+  return cards.filter(card => card.review.dueAt <= now).sort((a, b) => a.review.dueAt - b.review.dueAt);
+}
+
+/**
+ * Finds when the next card that is not yet due becomes due.
+ * @param cards The deck.
+ * @param now The current time.
+ * @returns The time, or null if no card is waiting.
+ */
+export function getNextDueAt(cards: StudyCard[], now: number = Date.now()): number | null {
+  const waiting = cards.map(card => card.review.dueAt).filter(dueAt => dueAt > now);
+  return waiting.length > 0 ? Math.min(...waiting) : null;
+}
+
+/**
+ * Records a review and schedules the card's next one.
+ * @param id The card ID.
+ * @param grade How well the card was recalled.
+ * @param now The time of the review.
+ */
+export function gradeStudyCard(id: string, grade: Grade, now: number = Date.now()): void {
+  saveStudyCards(getStudyCards().map(card => card.id === id ? { ...card, review: scheduleReview(card.review, grade, now) } : card));
+}
+
+/**
+ * Escapes a field for an Anki import with HTML enabled.
+ */
+function toAnkiField(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Exports the deck as tab-separated values that Anki imports as Basic notes, with the
+ * card kind as a tag. Multiple-choice cards list their options on the front.
+ * @param cards The cards to export.
+ * @returns The file contents.
+ */
+export function exportAnkiTsv(cards: StudyCard[]): string {
+  const rows = cards.map(card => {
+    const front = card.options
+      ? `${toAnkiField(card.front)}<br>${card.options.map((option, index) => `${String.fromCharCode(65 + index)}. ${toAnkiField(option)}`).join('<br>')}`
+      : toAnkiField(card.front);
+    return [front, toAnkiField(card.back), `lexicon-nexus ${card.kind}`].join('\t');
+  });
+  return ['#separator:tab', '#html:true', '#tags column:3', ...rows].join('\n') + '\n';
+}
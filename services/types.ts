@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Shared data shapes produced by the generation services and consumed by the UI.
+ * These are provider-agnostic: every LLM backend must return data in these forms.
+ */
+
+export interface Hotspot {
+  char: string;
+  x: number; // column
+  y: number; // row
+  concept: string;
+}
+
+export interface AsciiArtData {
+  art: string; // The first frame, if the art is animated.
+  frames?: string[]; // Frames of the same size, played in a loop; hotspots stay pinned across them.
+  hotspots?: Hotspot[];
+  corrections?: string[]; // What the art normalizer fixed, if anything.
+}
+
+export interface Resource {
+  title: string;
+  url?: string;
+  description: string;
+}
+
+export interface DeepDiveData {
+  summary: string;
+  resources: Resource[];
+}
+
+export interface AncillaryData {
+  artData: AsciiArtData;
+  concepts: string[];
+}
+
+/**
+ * A meaningful part of a word, such as the "tele" of "telephone".
+ */
+export interface Morpheme {
+  form: string;
+  meaning: string;
+  language: string; // The language the part comes from.
+}
+
+export interface Cognate {
+  word: string;
+  language: string;
+}
+
+/**
+ * The origin and pronunciation of a word.
+ */
+export interface EtymologyData {
+  ipa: string; // The IPA transcription, without surrounding slashes.
+  rootLanguage: string;
+  morphemes: Morpheme[];
+  firstAttested: string; // When and where the word is first recorded, e.g. "c. 1380, Middle English".
+  cognates: Cognate[];
+  history: string; // How the meaning shifted on the way to the present one.
+}
+
+/**
+ * One way in which two compared concepts differ.
+ */
+export interface ComparisonDifference {
+  aspect: string;
+  a: string; // How the first concept stands on this aspect.
+  b: string;
+}
+
+/**
+ * A structured comparison of two concepts.
+ */
+export interface ComparisonData {
+  relationship: string; // A short label such as "complementary opposites".
+  shared: string[];
+  differences: ComparisonDifference[];
+  diagram: string; // ASCII art showing both concepts and how they relate.
+}
+
+/**
+ * A multiple-choice question about a topic.
+ */
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  answerIndex: number; // The index of the correct option.
+}
+
+export interface QuizData {
+  questions: QuizQuestion[];
+}
+
+/**
+ * The model's pick of the next concept on a bridge between two topics.
+ */
+export interface BridgeHopChoice {
+  next: string; // One of the candidate concepts.
+  reason: string; // One line on why the step leads toward the target.
+}
+
+/**
+ * One step of a bridge from a start topic to a target topic.
+ */
+export interface BridgeHop {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+/**
+ * One meaning of an ambiguous term, such as the planet for "Mercury".
+ */
+export interface TopicSense {
+  label: string; // A short label that tells the sense apart, such as "planet".
+  gloss: string; // A one-line description of the sense.
+}
+
+export interface SenseData {
+  senses: TopicSense[]; // Empty unless the term is ambiguous.
+}
+
+/**
+ * Where a topic was reached from, so a prompt can pick the sense the user meant.
+ */
+export interface TopicContext {
+  parentTopic?: string; // The topic whose page the link was clicked on.
+  sentence?: string;    // The sentence the link was clicked in, when it was a word in running text.
+  sense?: TopicSense;   // The sense picked for an ambiguous search.
+}
+
+/**
+ * One message of a conversation about an uploaded document.
+ */
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/**
+ * An uploaded document, base64-encoded, that a definition request can be grounded in.
+ */
+export interface FileAttachment {
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Token counts reported by a provider for one request.
+ * `outputTokens` excludes thinking tokens, which are counted separately.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as settingsService from './settingsService';
+import { getModelPricing } from '../config/models';
+import type { TokenUsage } from './types';
+
+/**
+ * Token and cost accounting for the current page session.
+ * Every generation request reports the tokens it used; the estimated cost is computed
+ * from the list prices in `config/models.ts`. Users can set a soft budget, which only
+ * warns, and a hard budget, past which no new requests are sent.
+ */
+
+/** The kinds of generation request that are accounted separately. */
+export type UsageKind = 'definition' | 'ancillary' | 'deepDive' | 'etymology' | 'comparison' | 'bridge' | 'quiz' | 'senses';
+
+export interface SessionUsage {
+  total: TokenUsage;
+  byKind: Record<UsageKind, TokenUsage>;
+  requestCount: number;
+  costUsd: number;
+  /** True if some tokens came from models without known pricing, so `costUsd` is a lower bound. */
+  hasUnpricedUsage: boolean;
+}
+
+export type BudgetStatus = 'ok' | 'soft' | 'hard';
+
+/**
+ * Thrown in place of sending a request once the hard budget is spent.
+ */
+export class BudgetExceededError extends Error {
+  constructor(budgetUsd: number) {
+    super(`The session budget of ${formatCost(budgetUsd)} has been spent, so generation is paused. Raise the budget or reset the session usage in the settings to continue.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const emptyUsage = (): TokenUsage => ({ promptTokens: 0, outputTokens: 0, thinkingTokens: 0 });
+
+const createSessionUsage = (): SessionUsage => ({
+  total: emptyUsage(),
+  byKind: { definition: emptyUsage(), ancillary: emptyUsage(), deepDive: emptyUsage(), etymology: emptyUsage(), comparison: emptyUsage(), bridge: emptyUsage(), quiz: emptyUsage(), senses: emptyUsage() },
+  requestCount: 0,
+  costUsd: 0,
+  hasUnpricedUsage: false,
+});
+
+let session: SessionUsage = createSessionUsage();
+const listeners = new Set<(usage: SessionUsage) => void>();
+
+const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+});
+
+function notifyListeners(): void {
+  listeners.forEach(listener => listener(session));
+}
+
+/**
+ * Formats a dollar amount with enough precision for fractions of a cent.
+ * @param costUsd The amount in US dollars.
+ * @returns A string such as "$0.0042".
+ */
+export function formatCost(costUsd: number): string {
+  return `$${costUsd < 1 ? costUsd.toFixed(4) : costUsd.toFixed(2)}`;
+}
+
+/**
+ * Estimates what a request cost.
+ * @param modelId The model that served the request.
+ * @param usage The tokens it used.
+ * @returns The cost in US dollars, or null if the model's pricing is unknown.
+ */
+export function estimateCost(modelId: string, usage: TokenUsage): number | null {
+  const pricing = getModelPricing(modelId);
+  if (!pricing) return null;
+  return (usage.promptTokens * pricing.inputPerMillion
+    + (usage.outputTokens + usage.thinkingTokens) * pricing.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Adds a request's token usage to the session totals.
+ * @param kind The kind of request.
+ * @param modelId The model that served it.
+ * @param usage The tokens it used.
+ */
+export function recordUsage(kind: UsageKind, modelId: string, usage: TokenUsage): void {
+  const cost = estimateCost(modelId, usage);
+  session = {
+    total: addUsage(session.total, usage),
+    byKind: { ...session.byKind, [kind]: addUsage(session.byKind[kind], usage) },
+    requestCount: session.requestCount + 1,
+    costUsd: session.costUsd + (cost ?? 0),
+    hasUnpricedUsage: session.hasUnpricedUsage || cost === null,
+  };
+  notifyListeners();
+}
+
+/**
+ * Returns the running totals for this session.
+ * @returns The session usage.
+ */
+export function getSessionUsage(): SessionUsage {
+  return session;
+}
+
+/**
+ * Starts the session totals over, which also lifts a hard budget stop.
+ */
+export function resetSessionUsage(): void {
+  session = createSessionUsage();
+  notifyListeners();
+}
+
+/**
+ * Subscribes to changes in the session totals.
+ * @param listener Called with the new totals after every recorded request.
+ * @returns A function that unsubscribes.
+ */
+export function subscribeToUsage(listener: (usage: SessionUsage) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Returns the configured budgets in US dollars; zero means no budget.
+ * @returns The soft and hard budgets.
+ */
+export function getBudgets(): { softUsd: number; hardUsd: number } {
+  return {
+    softUsd: settingsService.getSetting<number>('softBudgetUsd', 0),
+    hardUsd: settingsService.getSetting<number>('hardBudgetUsd', 0),
+  };
+}
+
+/**
+ * Compares the session cost against the budgets.
+ * @returns 'hard' once the hard budget is spent, 'soft' past the soft budget, otherwise 'ok'.
+ */
+export function getBudgetStatus(): BudgetStatus {
+  const { softUsd, hardUsd } = getBudgets();
+  if (hardUsd > 0 && session.costUsd >= hardUsd) return 'hard';
+  if (softUsd > 0 && session.costUsd >= softUsd) return 'soft';
+  return 'ok';
+}
+
+/**
+ * Stops a request from being sent once the hard budget is spent.
+ * @throws A BudgetExceededError if the hard budget is spent.
+ */
+export function assertWithinBudget(): void {
+  if (getBudgetStatus() === 'hard') {
+    throw new BudgetExceededError(getBudgets().hardUsd);
+  }
+}
@@ -0,0 +1,570 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MAX_ART_FRAMES } from '../config/artPalette';
+import type {
+  AncillaryData, AsciiArtData, BridgeHopChoice, Cognate, ComparisonData, ComparisonDifference, DeepDiveData, EtymologyData, Hotspot, Morpheme,
+  QuizData, QuizQuestion, Resource, SenseData, TopicSense,
+} from './types';
+
+/**
+ * Runtime validators for the JSON documents models return.
+ * Model output is untrusted: fields go missing and numbers arrive as strings. Each validator
+ * coerces what it safely can (recording a warning) and reports errors for what it cannot,
+ * so the caller can ask the model to repair its output. Whether the art itself is well
+ * formed is left to the art normalizer.
+ * Issues name the offending field by path, e.g. `artData.hotspots[2].x`.
+ */
+
+/**
+ * The outcome of validating a document: the coerced document if it is usable, or the
+ * problems that make it unusable. Either way, the coercions that were applied.
+ * Without strictNullChecks only a comparison such as `ok === false` narrows it to the failure.
+ */
+export type Validation<T> =
+  | { ok: true; value: T; warnings: string[] }
+  | { ok: false; errors: string[]; warnings: string[] };
+
+/**
+ * The kinds of document that are validated, as named in error messages.
+ */
+export type DocumentKind = 'art and concepts' | 'deep dive' | 'etymology' | 'comparison' | 'bridge hop' | 'quiz' | 'senses';
+
+/**
+ * A model response that failed validation, even after a repair attempt.
+ */
+export class SchemaValidationError extends Error {
+  constructor(public readonly kind: DocumentKind, public readonly issues: string[]) {
+    super(`The model's ${kind} did not match the expected format: ${issues.join('; ')}.`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+// Collects the issues found while validating one document.
+interface Issues {
+  errors: string[];
+  warnings: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+// Unparsable responses are passed to the validators as their raw text.
+const describeRoot = (input: unknown): string =>
+  typeof input === 'string' ? 'the response is not valid JSON' : `expected a JSON object but got ${describe(input)}`;
+
+/**
+ * Reads a non-empty string, accepting numbers as strings.
+ * @returns The trimmed string, or null if there is none.
+ */
+function readText(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Reads a non-negative integer, accepting numeric strings and rounding fractions.
+ * @returns The integer, or null if the value is not a number.
+ */
+function readIndex(value: unknown, path: string, issues: Issues): number | null {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+    return null;
+  }
+  if (!Number.isInteger(number) || typeof value === 'string') {
+    issues.warnings.push(`${path}: coerced ${JSON.stringify(value)} to ${Math.round(number)}`);
+  }
+  return Math.round(number);
+}
+
+/**
+ * Validates the shape of one hotspot. Whether it lands on its character is
+ * reconciled later by the art normalizer, which can move it.
+ * @returns The hotspot, or null if it must be dropped.
+ */
+function readHotspot(value: unknown, path: string, issues: Issues): Hotspot | null {
+  if (!isRecord(value)) {
+    issues.warnings.push(`${path}: dropped, expected an object but got ${describe(value)}`);
+    return null;
+  }
+  const char = typeof value.char === 'string' ? [...value.char][0] : undefined;
+  const x = readIndex(value.x, `${path}.x`, issues);
+  const y = readIndex(value.y, `${path}.y`, issues);
+  const concept = readText(value.concept);
+  if (!char || x === null || y === null || !concept) {
+    issues.warnings.push(`${path}: dropped, "char", "x", "y" and "concept" are all required`);
+    return null;
+  }
+  return { char, x, y, concept };
+}
+
+/**
+ * Validates the frames of animated art.
+ * @returns The usable frames, or undefined if there are none.
+ */
+function readFrames(value: unknown, path: string, issues: Issues): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    issues.warnings.push(`${path}: dropped, expected an array but got ${describe(value)}`);
+    return undefined;
+  }
+  const frames = value.filter((frame): frame is string => typeof frame === 'string' && frame.trim().length > 0);
+  if (frames.length < value.length) {
+    issues.warnings.push(`${path}: dropped ${value.length - frames.length} frames that were not non-empty strings`);
+  }
+  if (frames.length > MAX_ART_FRAMES) {
+    issues.warnings.push(`${path}: kept the first ${MAX_ART_FRAMES} of ${frames.length} frames`);
+  }
+  if (frames.length === 1) {
+    issues.warnings.push(`${path}: a single frame is not an animation, used it as still art`);
+  }
+  return frames.length > 0 ? frames.slice(0, MAX_ART_FRAMES) : undefined;
+}
+
+/**
+ * Validates ASCII art and its hotspots. A bare string is accepted as art without hotspots.
+ * Animated art may omit `art`, which is always its first frame.
+ */
+function readAsciiArtData(value: unknown, path: string, issues: Issues): AsciiArtData | null {
+  if (typeof value === 'string') {
+    issues.warnings.push(`${path}: coerced a bare string to { "art": ... }`);
+    value = { art: value };
+  }
+  if (!isRecord(value)) {
+    issues.errors.push(`${path}: expected an object but got ${describe(value)}`);
+    return null;
+  }
+  const frames = readFrames(value.frames, `${path}.frames`, issues);
+  if (frames) {
+    if (value.art !== undefined && value.art !== frames[0]) {
+      issues.warnings.push(`${path}.art: replaced with the first frame`);
+    }
+  } else if (typeof value.art !== 'string' || value.art.trim().length === 0) {
+    issues.errors.push(`${path}.art: expected a non-empty string`);
+    return null;
+  }
+  const artData: AsciiArtData = frames
+    ? { art: frames[0], ...(frames.length > 1 && { frames }) }
+    : { art: value.art as string };
+  if (value.hotspots === undefined || value.hotspots === null) {
+    return artData;
+  }
+  if (!Array.isArray(value.hotspots)) {
+    issues.warnings.push(`${path}.hotspots: dropped, expected an array but got ${describe(value.hotspots)}`);
+    return artData;
+  }
+  artData.hotspots = value.hotspots
+    .map((hotspot, i) => readHotspot(hotspot, `${path}.hotspots[${i}]`, issues))
+    .filter((hotspot): hotspot is Hotspot => hotspot !== null);
+  return artData;
+}
+
+/**
+ * Validates one curated resource.
+ * @returns The resource, or null if it must be dropped.
+ */
+function readResource(value: unknown, path: string, issues: Issues): Resource | null {
+  if (!isRecord(value)) {
+    issues.warnings.push(`${path}: dropped, expected an object but got ${describe(value)}`);
+    return null;
+  }
+  const title = readText(value.title);
+  if (!title) {
+    issues.warnings.push(`${path}: dropped, "title" is required`);
+    return null;
+  }
+  const resource: Resource = { title, description: readText(value.description) ?? '' };
+  const url = readText(value.url);
+  if (url) {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+        resource.url = parsed.href;
+      } else {
+        issues.warnings.push(`${path}.url: dropped the non-web URL "${url}"`);
+      }
+    } catch {
+      issues.warnings.push(`${path}.url: dropped the invalid URL "${url}"`);
+    }
+  }
+  return resource;
+}
+
+/**
+ * Validates one morpheme of an etymology.
+ * @returns The morpheme, or null if it must be dropped.
+ */
+function readMorpheme(value: unknown, path: string, issues: Issues): Morpheme | null {
+  if (!isRecord(value)) {
+    issues.warnings.push(`${path}: dropped, expected an object but got ${describe(value)}`);
+    return null;
+  }
+  const form = readText(value.form);
+  if (!form) {
+    issues.warnings.push(`${path}: dropped, "form" is required`);
+    return null;
+  }
+  return { form, meaning: readText(value.meaning) ?? '', language: readText(value.language) ?? '' };
+}
+
+/**
+ * Validates one cognate of an etymology.
+ * @returns The cognate, or null if it must be dropped.
+ */
+function readCognate(value: unknown, path: string, issues: Issues): Cognate | null {
+  if (!isRecord(value)) {
+    issues.warnings.push(`${path}: dropped, expected an object but got ${describe(value)}`);
+    return null;
+  }
+  const word = readText(value.word);
+  if (!word) {
+    issues.warnings.push(`${path}: dropped, "word" is required`);
+    return null;
+  }
+  return { word, language: readText(value.language) ?? '' };
+}
+
+/**
+ * Reads an optional list, accepting a single object in place of an array.
+ * @returns The items that could be read.
+ */
+function readList<T>(value: unknown, path: string, issues: Issues, readItem: (item: unknown, path: string, issues: Issues) => T | null): T[] {
+  if (value === undefined || value === null) {
+    issues.warnings.push(`${path}: missing, used an empty list`);
+    return [];
+  }
+  if (isRecord(value)) {
+    issues.warnings.push(`${path}: wrapped a single object in an array`);
+    value = [value];
+  }
+  if (!Array.isArray(value)) {
+    issues.errors.push(`${path}: expected an array but got ${describe(value)}`);
+    return [];
+  }
+  return value
+    .map((item, i) => readItem(item, `${path}[${i}]`, issues))
+    .filter((item): item is T => item !== null);
+}
+
+/**
+ * Validates one difference of a comparison.
+ * @returns The difference, or null if it must be dropped.
+ */
+function readDifference(value: unknown, path: string, issues: Issues): ComparisonDifference | null {
+  if (!isRecord(value)) {
+    issues.warnings.push(`${path}: dropped, expected an object but got ${describe(value)}`);
+    return null;
+  }
+  const aspect = readText(value.aspect);
+  const a = readText(value.a);
+  const b = readText(value.b);
+  if (!aspect || !a || !b) {
+    issues.warnings.push(`${path}: dropped, "aspect", "a" and "b" are required`);
+    return null;
+  }
+  return { aspect, a, b };
+}
+
+/**
+ * Reads a shared trait of a comparison.
+ * @returns The trait, or null if it must be dropped.
+ */
+function readTrait(value: unknown, path: string, issues: Issues): string | null {
+  const trait = readText(value);
+  if (!trait) {
+    issues.warnings.push(`${path}: dropped, expected a non-empty string`);
+  }
+  return trait;
+}
+
+/**
+ * Validates one multiple-choice question. Duplicate options are dropped, keeping the answer.
+ * @returns The question, or null if it must be dropped.
+ */
+function readQuizQuestion(value: unknown, path: string, issues: Issues): QuizQuestion | null {
+  if (!isRecord(value)) {
+    issues.warnings.push(`${path}: dropped, expected an object but got ${describe(value)}`);
+    return null;
+  }
+  const question = readText(value.question);
+  const rawOptions = Array.isArray(value.options) ? value.options.map(readText) : [];
+  const answerIndex = readIndex(value.answerIndex, `${path}.answerIndex`, issues);
+  const answer = answerIndex !== null ? rawOptions[answerIndex] : null;
+  if (!question || !answer) {
+    issues.warnings.push(`${path}: dropped, "question" and an "answerIndex" pointing at an option are required`);
+    return null;
+  }
+  const options = [...new Set(rawOptions.filter((option): option is string => option !== null))];
+  if (options.length < 2) {
+    issues.warnings.push(`${path}: dropped, expected at least two different options`);
+    return null;
+  }
+  if (options.length !== rawOptions.length) {
+    issues.warnings.push(`${path}.options: dropped empty or repeated options`);
+  }
+  return { question, options, answerIndex: options.indexOf(answer) };
+}
+
+/**
+ * Validates one sense of an ambiguous term.
+ * @returns The sense, or null if it must be dropped.
+ */
+function readSense(value: unknown, path: string, issues: Issues): TopicSense | null {
+  if (!isRecord(value)) {
+    issues.warnings.push(`${path}: dropped, expected an object but got ${describe(value)}`);
+    return null;
+  }
+  const label = readText(value.label);
+  const gloss = readText(value.gloss);
+  if (!label || !gloss) {
+    issues.warnings.push(`${path}: dropped, "label" and "gloss" are required`);
+    return null;
+  }
+  return { label, gloss };
+}
+
+const toValidation = <T>(value: T | null, issues: Issues): Validation<T> =>
+  value !== null && issues.errors.length === 0
+    ? { ok: true, value, warnings: issues.warnings }
+    : { ok: false, errors: issues.errors, warnings: issues.warnings };
+
+/**
+ * Validates ASCII art with optional hotspots. Malformed hotspots are dropped.
+ * @param input The parsed JSON.
+ * @returns The validated art, or the errors that prevent it.
+ */
+export function validateAsciiArtData(input: unknown): Validation<AsciiArtData> {
+  const issues: Issues = { errors: [], warnings: [] };
+  return toValidation(readAsciiArtData(input, 'artData', issues), issues);
+}
+
+/**
+ * Validates the art and related concepts of a topic. Concepts given as a comma-separated
+ * string are split, and blank or duplicate concepts are removed.
+ * @param input The parsed JSON.
+ * @returns The validated data, or the errors that prevent it.
+ */
+export function validateAncillaryData(input: unknown): Validation<AncillaryData> {
+  const issues: Issues = { errors: [], warnings: [] };
+  if (!isRecord(input)) {
+    issues.errors.push(describeRoot(input));
+    return toValidation<AncillaryData>(null, issues);
+  }
+
+  let rawConcepts = input.concepts;
+  if (typeof rawConcepts === 'string') {
+    issues.warnings.push('concepts: split a comma-separated string into an array');
+    rawConcepts = rawConcepts.split(',');
+  }
+  const concepts: string[] = [];
+  if (!Array.isArray(rawConcepts)) {
+    issues.errors.push(`concepts: expected an array of strings but got ${describe(rawConcepts)}`);
+  } else {
+    const seen = new Set<string>();
+    rawConcepts.forEach((value, i) => {
+      const concept = readText(value);
+      if (!concept) {
+        issues.warnings.push(`concepts[${i}]: dropped, expected a non-empty string`);
+      } else if (!seen.has(concept.toLowerCase())) {
+        seen.add(concept.toLowerCase());
+        concepts.push(concept);
+      }
+    });
+    if (concepts.length === 0) {
+      issues.errors.push('concepts: expected at least one related concept');
+    }
+  }
+
+  const artData = readAsciiArtData(input.artData, 'artData', issues);
+  return toValidation(artData && { artData, concepts }, issues);
+}
+
+/**
+ * Validates a deep dive. A missing resource list becomes an empty one, and resources
+ * without a title are dropped, as are URLs that are not http(s).
+ * @param input The parsed JSON.
+ * @returns The validated deep dive, or the errors that prevent it.
+ */
+export function validateDeepDiveData(input: unknown): Validation<DeepDiveData> {
+  const issues: Issues = { errors: [], warnings: [] };
+  if (!isRecord(input)) {
+    issues.errors.push(describeRoot(input));
+    return toValidation<DeepDiveData>(null, issues);
+  }
+
+  const summary = typeof input.summary === 'string' && input.summary.trim().length > 0 ? input.summary : null;
+  if (!summary) {
+    issues.errors.push('summary: expected a non-empty string');
+  }
+
+  let rawResources = input.resources;
+  if (rawResources === undefined || rawResources === null) {
+    issues.warnings.push('resources: missing, used an empty list');
+    rawResources = [];
+  } else if (isRecord(rawResources)) {
+    issues.warnings.push('resources: wrapped a single object in an array');
+    rawResources = [rawResources];
+  }
+  let resources: Resource[] = [];
+  if (!Array.isArray(rawResources)) {
+    issues.errors.push(`resources: expected an array but got ${describe(rawResources)}`);
+  } else {
+    resources = rawResources
+      .map((resource, i) => readResource(resource, `resources[${i}]`, issues))
+      .filter((resource): resource is Resource => resource !== null);
+  }
+
+  return toValidation(summary && { summary, resources }, issues);
+}
+
+/**
+ * Validates an etymology. Slashes or brackets around the IPA are removed, lists may be
+ * empty, and the only required field is the root language.
+ * @param input The parsed JSON.
+ * @returns The validated etymology, or the errors that prevent it.
+ */
+export function validateEtymologyData(input: unknown): Validation<EtymologyData> {
+  const issues: Issues = { errors: [], warnings: [] };
+  if (!isRecord(input)) {
+    issues.errors.push(describeRoot(input));
+    return toValidation<EtymologyData>(null, issues);
+  }
+
+  const rootLanguage = readText(input.rootLanguage);
+  if (!rootLanguage) {
+    issues.errors.push('rootLanguage: expected a non-empty string');
+  }
+
+  let ipa = readText(input.ipa) ?? '';
+  const unwrapped = ipa.replace(/^[/[]\s*|\s*[/\]]$/g, '');
+  if (unwrapped !== ipa) {
+    issues.warnings.push('ipa: removed the surrounding slashes or brackets');
+    ipa = unwrapped;
+  }
+
+  const morphemes = readList(input.morphemes, 'morphemes', issues, readMorpheme);
+  const cognates = readList(input.cognates, 'cognates', issues, readCognate);
+
+  return toValidation(rootLanguage && {
+    ipa,
+    rootLanguage,
+    morphemes,
+    firstAttested: readText(input.firstAttested) ?? '',
+    cognates,
+    history: readText(input.history) ?? '',
+  }, issues);
+}
+
+/**
+ * Validates a comparison of two concepts. A comparison needs a relationship and at least
+ * one difference; the diagram may be missing, in which case none is shown.
+ * @param input The parsed JSON.
+ * @returns The validated comparison, or the errors that prevent it.
+ */
+export function validateComparisonData(input: unknown): Validation<ComparisonData> {
+  const issues: Issues = { errors: [], warnings: [] };
+  if (!isRecord(input)) {
+    issues.errors.push(describeRoot(input));
+    return toValidation<ComparisonData>(null, issues);
+  }
+
+  const relationship = readText(input.relationship);
+  if (!relationship) {
+    issues.errors.push('relationship: expected a non-empty string');
+  }
+
+  const shared = readList(input.shared, 'shared', issues, readTrait);
+  const differences = readList(input.differences, 'differences', issues, readDifference);
+  if (differences.length === 0 && !issues.errors.some(error => error.startsWith('differences'))) {
+    issues.errors.push('differences: expected at least one difference');
+  }
+
+  const diagram = typeof input.diagram === 'string' ? input.diagram : '';
+  if (!diagram.trim()) {
+    issues.warnings.push('diagram: missing, shown without one');
+  }
+
+  return toValidation(relationship && { relationship, shared, differences, diagram }, issues);
+}
+
+/**
+ * Validates the choice of the next concept on a bridge. The choice must be one of the
+ * candidates it was offered, and is returned with the candidate's own spelling.
+ * @param input The parsed JSON.
+ * @param candidates The concepts the model could choose from.
+ * @returns The validated choice, or the errors that prevent it.
+ */
+export function validateBridgeHopChoice(input: unknown, candidates: string[]): Validation<BridgeHopChoice> {
+  const issues: Issues = { errors: [], warnings: [] };
+  if (!isRecord(input)) {
+    issues.errors.push(describeRoot(input));
+    return toValidation<BridgeHopChoice>(null, issues);
+  }
+
+  const chosen = readText(input.next);
+  const next = chosen && candidates.find(candidate => candidate.trim().toLowerCase() === chosen.toLowerCase());
+  if (!chosen) {
+    issues.errors.push('next: expected a non-empty string');
+  } else if (!next) {
+    issues.errors.push(`next: "${chosen}" is not one of the candidates ${JSON.stringify(candidates)}`);
+  }
+
+  const reason = readText(input.reason);
+  if (!reason) {
+    issues.errors.push('reason: expected a non-empty string');
+  }
+
+  return toValidation(next && reason ? { next, reason } : null, issues);
+}
+
+/**
+ * Validates the multiple-choice questions about a topic. Unusable questions are dropped,
+ * but at least one must remain.
+ * @param input The parsed JSON.
+ * @returns The validated questions, or the errors that prevent them.
+ */
+export function validateQuizData(input: unknown): Validation<QuizData> {
+  const issues: Issues = { errors: [], warnings: [] };
+  if (!isRecord(input)) {
+    issues.errors.push(describeRoot(input));
+    return toValidation<QuizData>(null, issues);
+  }
+
+  const questions = readList(input.questions, 'questions', issues, readQuizQuestion);
+  if (questions.length === 0 && !issues.errors.some(error => error.startsWith('questions'))) {
+    issues.errors.push('questions: expected at least one usable question');
+  }
+
+  return toValidation(questions.length > 0 ? { questions } : null, issues);
+}
+
+/**
+ * Validates the senses of a searched term. Unusable and repeated senses are dropped; an
+ * empty list is valid and means the term is not ambiguous.
+ * @param input The parsed JSON.
+ * @returns The validated senses, or the errors that prevent them.
+ */
+export function validateSenseData(input: unknown): Validation<SenseData> {
+  const issues: Issues = { errors: [], warnings: [] };
+  if (!isRecord(input)) {
+    issues.errors.push(describeRoot(input));
+    return toValidation<SenseData>(null, issues);
+  }
+
+  const senses = readList(input.senses, 'senses', issues, readSense);
+  const unique = senses.filter((sense, i) => senses.findIndex(other => other.label.toLowerCase() === sense.label.toLowerCase()) === i);
+  if (unique.length !== senses.length) {
+    issues.warnings.push('senses: dropped repeated labels');
+  }
+
+  return toValidation({ senses: unique }, issues);
+}